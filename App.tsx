@@ -1,15 +1,71 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Settings, Upload, FileImage, AlertCircle, CheckCircle2, Droplets, LayoutDashboard, ClipboardList, ChevronRight, Moon, Sun, LogOut, Camera, Plus } from 'lucide-react';
-import SettingsModal from './components/SettingsModal';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Settings, Upload, FileImage, AlertCircle, CheckCircle2, Droplets, LayoutDashboard, ClipboardList, ChevronRight, Moon, Sun, LogOut, Camera, Plus, Users, RefreshCw, Inbox, Download, Crop, MapPin } from 'lucide-react';
+import SettingsModal, { SettingsValues } from './components/SettingsModal';
 import MatrixEditor from './components/MatrixEditor';
 import Dashboard from './components/Dashboard';
+import UserManagement from './components/UserManagement';
+import ZoneManagement from './components/ZoneManagement';
 import NotificationToast from './components/NotificationToast';
-import { OCRResponse, MOCK_ZONES, MatrixCell, AppView, User, UserRole } from './types';
+import SessionTimeoutModal from './components/SessionTimeoutModal';
+import BackendStatusBadge from './components/BackendStatusBadge';
+import OutboxPanel from './components/OutboxPanel';
+import UpdatePrompt from './components/UpdatePrompt';
+import DraftsPanel from './components/DraftsPanel';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import DocumentPreprocessor from './components/DocumentPreprocessor';
+import QualityWarnings from './components/QualityWarnings';
+import PdfPagePicker from './components/PdfPagePicker';
+import CameraCapture from './components/CameraCapture';
+import { ForgotPasswordForm, ResetPasswordForm, SignUpForm } from './components/AuthForms';
+import { OCRResponse, MatrixCell, AppView, AppModule, RegistroSource, PlanillaHeader, ValidationRequest } from './types';
+import { AuthSession, TOKEN_REFRESH_MARGIN_MS } from './services/auth';
+import { createApiClient, describeApiError, normalizeBaseUrl, UnauthorizedError, RequestCancelledError } from './services/apiClient';
+import { ContractError } from './services/contract';
+import { withRetry, isRetryableError } from './services/retry';
+import { waitForRegistro, isPendingRegistro, RegistroProcessingError } from './services/registroJobs';
+import {
+  getUploadTimeoutSeconds, setUploadTimeoutSeconds, UPLOAD_MAX_ATTEMPTS, UPLOAD_RETRY_BASE_MS,
+  BackendProfile, loadProfiles, saveProfiles, getActiveProfileId, setActiveProfileId, findActiveProfile,
+  getAutoPreprocess, getCompressionSettings, setCompressionSettings
+} from './services/settings';
+import {
+  loadSession, saveSession, clearSession, loadPlanillaCache, savePlanillaCache,
+  touchActivity, getLastActivity, getIdleTimeoutMinutes, setIdleTimeoutMinutes, IDLE_WARNING_MS
+} from './services/session';
+import { buildPermissions, PermissionsContext } from './services/permissions';
+import { useBackendHealth } from './services/healthMonitor';
+import { useOutbox, OutboxUpload } from './services/outbox';
+import { usePwa, readLaunchParams } from './services/pwa';
+import { useDrafts, loadDraft, formatDraftTime, ValidationDraft } from './services/drafts';
+import { useBatchQueue, BatchItem } from './services/batchQueue';
+import { analyzeImageQuality, QualityReport } from './services/imageQuality';
+import { prepareUploadFile, formatBytes } from './services/imageProcessing';
+import { isPdfFile, PdfPage } from './services/pdf';
+import { canUseInAppCamera, requestOrientationAccess } from './services/cameraGuide';
+import { useZoneCatalog } from './services/zones';
+import { getRegistroSource, getRegistroMetadata, getRegistroTemplate, rememberRegistroMetadata, rememberRegistroTemplate } from './services/registroSources';
+import { toDateInput } from './services/planillaHeader';
+import { PLANILLA_TEMPLATES, resolveTemplate, templateUploadFields } from './services/templates';
+import { PhotoMetadata, collectPhotoMetadata, metadataUploadFields, zoneDistanceWarning } from './services/photoMetadata';
+import { debugError, debugLog, debugWarn } from './services/logger';
 
-const STORAGE_KEY_URL = 'bluegrid_api_url';
 const STORAGE_KEY_THEME = 'bluegrid_theme';
-// Default URL provided for auto-connection
-const DEFAULT_API_URL = "https://precrystalline-arabella-tuberoid.ngrok-free.dev";
+
+// Password reset emails link back with ?reset_token=... The token is taken out
+// of the address bar as soon as it is read, so it never lingers in history,
+// bookmarks or the Referer header. Read once at load: StrictMode runs state
+// initializers twice and the second read would find nothing.
+const takeResetToken = () => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('reset_token');
+  if (token) {
+    url.searchParams.delete('reset_token');
+    window.history.replaceState(window.history.state, '', url.toString());
+  }
+  return token;
+};
+
+const initialResetToken = takeResetToken();
 
 // --- PARTICLE ANIMATION COMPONENT ---
 const ParticleNetwork = () => {
@@ -112,36 +168,136 @@ const ParticleNetwork = () => {
 };
 
 export default function App() {
+  // Restore a persisted session (and its in-progress planilla) after a reload
+  const [restored] = useState(() => {
+    const savedSession = loadSession();
+    return { session: savedSession, planilla: savedSession ? loadPlanillaCache() : null };
+  });
+  // Opened from the installed app (home screen icon or its shortcuts)
+  const [launch] = useState(readLaunchParams);
+  const pwa = usePwa();
+
   // --- Auth State ---
-  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(restored.session);
+  const user = session?.user ?? null;
+  const permissions = useMemo(() => buildPermissions(user), [user]);
   const [usernameInput, setUsernameInput] = useState('');
   const [passwordInput, setPasswordInput] = useState('');
   const [loginError, setLoginError] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+  // Secondary login screens
+  const [resetToken, setResetToken] = useState(initialResetToken);
+  const [authView, setAuthView] = useState<'login' | 'forgot' | 'reset' | 'register'>(resetToken ? 'reset' : 'login');
+
+  // Idle Timeout State (null = no warning visible)
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const idleWarningRef = useRef(false);
 
   // --- App State ---
-  const [apiUrl, setApiUrl] = useState<string>(DEFAULT_API_URL);
+  // Backend profiles; the active one drives the API client and auto-connect
+  const [profiles, setProfiles] = useState<BackendProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileIdState] = useState<string>(getActiveProfileId);
+  const activeProfile = findActiveProfile(profiles, activeProfileId);
   const [isInitializing, setIsInitializing] = useState(true);
 
+  // Refs let the memoized API client always read the latest session and expiry handler
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const sessionExpiredRef = useRef<() => void>(() => {});
+  const api = useMemo(() => createApiClient({
+    baseUrl: activeProfile.url,
+    headers: activeProfile.headers,
+    demo: activeProfile.demo,
+    getSession: () => sessionRef.current,
+    onUnauthorized: () => sessionExpiredRef.current(),
+  }), [activeProfile]);
+  // Periodic ping of the active backend (its first result also ends the splash screen)
+  const backendHealth = useBackendHealth(api);
+  const isBackendDown = backendHealth.status === 'offline' || backendHealth.status === 'degraded';
+  const isBackendReachable = backendHealth.status === 'online' || backendHealth.status === 'degraded';
+
+  // Uploads / validations made without connection, synced once the backend is reachable
+  const outbox = useOutbox(api, user?.username ?? null, isBackendReachable);
+  // Autosaved matrix corrections, one per registro
+  const drafts = useDrafts(user?.username ?? null);
+  // Several planillas selected at once, processed in the background
+  const batch = useBatchQueue(api);
+  // Zone catalog from the backend (cached on the device for offline use)
+  const zoneCatalog = useZoneCatalog(api, activeProfile.id, !!user && isBackendReachable);
+
   // Theme State
   const [isDarkMode, setIsDarkMode] = useState(false);
 
   // 'dashboard' is a new top-level view state, separate from the OCR flow state
-  const [currentModule, setCurrentModule] = useState<'ocr' | 'dashboard'>('dashboard');
+  // Field users (no dashboard) opening the installed app go straight to Digitalizar
+  const [currentModule, setCurrentModule] = useState<AppModule>(() =>
+    launch.module === 'ocr' || (launch.fromApp && !buildPermissions(restored.session?.user ?? null).can('view_dashboard'))
+      ? 'ocr'
+      : restored.planilla?.currentModule ?? 'dashboard'
+  );
   
   // OCR Sub-states
   // FIX: Default to 'upload' instead of 'setup' to avoid blank screen if connection check fails
-  const [view, setView] = useState<AppView>('upload'); 
+  const [view, setView] = useState<AppView>(
+    restored.planilla?.view === 'editor' && restored.planilla.ocrData ? 'editor' : 'upload'
+  ); 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // Upload State
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [selectedZone, setSelectedZone] = useState<string>('');
+  // Photo open in the corner / deskew step
+  const [preprocessTarget, setPreprocessTarget] = useState<File | null>(null);
+  // PDFs waiting for page selection; the picker shows the first one
+  const [pdfQueue, setPdfQueue] = useState<File[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Corrected image -> photo it was made from, so corrections restart from the original
+  const correctedFromRef = useRef(new WeakMap<File, File>());
+  // Quality check of the selected photo (report null while analyzing)
+  const [quality, setQuality] = useState<{ file: File; report: QualityReport | null } | null>(null);
+  const [qualityOverride, setQualityOverride] = useState(false);
+  // Downscaled / re-encoded version of the selected photo that will actually be sent
+  const [compressed, setCompressed] = useState<{ source: File; result: File | null } | null>(null);
+  // Capture time / place / device of the original photo (meta null while reading)
+  const [photoMeta, setPhotoMeta] = useState<{ source: File; meta: PhotoMetadata | null } | null>(null);
+  const [selectedZone, setSelectedZone] = useState<string>(restored.planilla?.selectedZone ?? '');
+  // Template picked for the next uploads; '' uses the zone's template
+  const [selectedTemplate, setSelectedTemplate] = useState('');
   const [isUploading, setIsUploading] = useState(false);
+  // Progress of the current upload across automatic retries (null = not uploading)
+  const [uploadAttempt, setUploadAttempt] = useState<{
+    attempt: number;
+    maxAttempts: number;
+    retryInSeconds?: number;
+    lastError?: string;
+  } | null>(null);
+  // Byte-level upload progress, then the server-side OCR phase
+  const [uploadProgress, setUploadProgress] = useState<{
+    phase: 'uploading' | 'processing';
+    percent: number;
+    estado?: string; // Reported by async backends while the job runs
+  } | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Zones the user may upload to (supervisors can be scoped to a subset)
+  const visibleZones = permissions.filterZones(zoneCatalog.activeZones);
+  // A restored or previously picked zone may have been archived or unassigned since
+  const isSelectedZoneAvailable = visibleZones.some(z => z.id === selectedZone);
+  useEffect(() => {
+    if (selectedZone && zoneCatalog.zones.length > 0 && !isSelectedZoneAvailable) setSelectedZone('');
+  }, [selectedZone, isSelectedZoneAvailable, zoneCatalog.zones.length]);
   const [uploadError, setUploadError] = useState<string | null>(null);
   
   // Data State
-  const [ocrData, setOcrData] = useState<OCRResponse | null>(null);
+  const [ocrData, setOcrData] = useState<OCRResponse | null>(restored.planilla?.ocrData ?? null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
+  // Cells and header of a resumed draft, loaded into the editor instead of the OCR output
+  const [editorSeed, setEditorSeed] = useState<{ registroId: number; cells: MatrixCell[]; header?: PlanillaHeader } | null>(null);
+  // A saved draft for the registro open in the editor, waiting for resume / discard
+  const [draftOffer, setDraftOffer] = useState<ValidationDraft | null>(null);
+  // Batch item open in the editor, marked validated once saved
+  const [activeBatchItemId, setActiveBatchItemId] = useState<string | null>(null);
+  // Synced outbox upload open in the editor; it leaves the outbox once validated
+  const [activeOutboxItemId, setActiveOutboxItemId] = useState<string | null>(null);
 
   // --- Mobile Action Menu State ---
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -182,116 +338,387 @@ export default function App() {
     }
   };
 
+  // Auto-connect: the health monitor checks the active profile on startup. The
+  // app never blocks on it; an unreachable backend shows up in the status badge.
   useEffect(() => {
-    const initAutoConnection = async () => {
-      setIsInitializing(true);
-      
-      const targetUrl = DEFAULT_API_URL;
-      const cleanUrl = targetUrl.replace(/\/+$/, '');
+    if (!isInitializing || backendHealth.status === 'checking') return;
+    if (backendHealth.status === 'online') {
+      debugLog(`[Init] Conexión exitosa con "${activeProfile.name}" (${backendHealth.latencyMs} ms${backendHealth.version ? `, v${backendHealth.version}` : ''}).`);
+    } else {
+      debugWarn(`[Init] Falló la conexión automática con "${activeProfile.name}":`, backendHealth.detail);
+    }
+    const timer = setTimeout(() => setIsInitializing(false), 800);
+    return () => clearTimeout(timer);
+  }, [backendHealth.status]);
+
+  // Persist the session so a reload does not log the user out
+  useEffect(() => {
+    if (session) saveSession(session);
+  }, [session]);
+
+  // Persist the in-progress planilla alongside the session
+  useEffect(() => {
+    if (!session) return;
+    savePlanillaCache({ ocrData, view, selectedZone, currentModule });
+  }, [session, ocrData, view, selectedZone, currentModule]);
+
+  // Offer the saved draft when a registro that has one is opened (or restored) in the editor
+  useEffect(() => {
+    if (!user || view !== 'editor' || !ocrData || editorSeed?.registroId === ocrData.id) {
+      setDraftOffer(null);
+      return;
+    }
+    let cancelled = false;
+    loadDraft(ocrData.id, user.username)
+      .then(draft => { if (!cancelled) setDraftOffer(draft); })
+      .catch(err => console.error("[Drafts] No se pudo leer el borrador:", err));
+    return () => { cancelled = true; };
+  }, [user?.username, view, ocrData?.id]);
+
+  // Check blur / exposure / resolution of each photo picked on the upload screen
+  useEffect(() => {
+    setQualityOverride(false);
+    if (!selectedFile || view !== 'upload') {
+      setQuality(null);
+      return;
+    }
+    let cancelled = false;
+    setQuality({ file: selectedFile, report: null });
+    analyzeImageQuality(selectedFile)
+      .then(report => {
+        if (cancelled) return;
+        if (report.issues.length) debugLog("[Quality] Problemas detectados:", report.issues.map(i => i.kind).join(', '));
+        setQuality({ file: selectedFile, report });
+      })
+      .catch(err => {
+        // Undecodable here does not mean the backend cannot read it
+        debugWarn("[Quality] No se pudo analizar la imagen:", err);
+        if (!cancelled) setQuality(null);
+      });
+    return () => { cancelled = true; };
+  }, [selectedFile, view]);
+
+  // Compress ahead of time so the card can show both sizes before sending
+  useEffect(() => {
+    if (!selectedFile || view !== 'upload') {
+      setCompressed(null);
+      return;
+    }
+    let cancelled = false;
+    setCompressed({ source: selectedFile, result: null });
+    prepareUploadFile(selectedFile).then(result => {
+      if (!cancelled) setCompressed({ source: selectedFile, result });
+    });
+    return () => { cancelled = true; };
+  }, [selectedFile, view]);
+
+  // Read from the original photo: corrected copies have no EXIF, and correcting
+  // the same photo again does not ask for the device location again
+  useEffect(() => {
+    if (!selectedFile) {
+      setPhotoMeta(null);
+      return;
+    }
+    const original = correctedFromRef.current.get(selectedFile) ?? selectedFile;
+    if (photoMeta?.source === original) return;
+    setPhotoMeta({ source: original, meta: null });
+    collectPhotoMetadata(original).then(meta => {
+      setPhotoMeta(prev => (prev?.source === original ? { source: original, meta } : prev));
+    });
+  }, [selectedFile]);
+
+  // Zone the registro open in the editor was filed under
+  const editorZone = ocrData ? zoneCatalog.zones.find(z => z.id === (selectedZone || String(ocrData.zona_id))) : undefined;
+
+  const zoneWarning = zoneDistanceWarning(photoMeta?.meta ?? undefined, zoneCatalog.zones.find(z => z.id === selectedZone));
+  const hasQualityIssues = !!quality?.report?.issues.length;
+  const isQualityBlocked = hasQualityIssues && !qualityOverride;
+
+  // The batch queue only lives in memory: warn before leaving with work in it
+  const hasBatchWork = batch.pendingCount > 0 || batch.readyItems.length > 0;
+  useEffect(() => {
+    if (!hasBatchWork) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [hasBatchWork]);
+
+  // Idle tracking: record activity and log out after the configured idle period
+  useEffect(() => {
+    if (!user) return;
+
+    const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+    let lastWrite = 0;
+    touchActivity();
+
+    const onActivity = () => {
+      // While the warning is visible only the explicit button keeps the session
+      if (idleWarningRef.current) return;
+      const now = Date.now();
+      if (now - lastWrite > 5000) {
+        lastWrite = now;
+        touchActivity(now);
+      }
+    };
+
+    const interval = setInterval(() => {
+      const remaining = getLastActivity() + getIdleTimeoutMinutes() * 60 * 1000 - Date.now();
+      if (remaining <= 0) {
+        debugLog("[Session] Cierre por inactividad.");
+        handleLogout();
+        setLoginError('Tu sesión se cerró por inactividad.');
+      } else if (remaining <= IDLE_WARNING_MS) {
+        idleWarningRef.current = true;
+        setIdleSecondsLeft(Math.ceil(remaining / 1000));
+      } else {
+        idleWarningRef.current = false;
+        setIdleSecondsLeft(null);
+      }
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, onActivity, { passive: true }));
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, onActivity));
+      idleWarningRef.current = false;
+      setIdleSecondsLeft(null);
+    };
+  }, [user?.username]);
 
+  // Keep users out of modules their capabilities do not allow (e.g. restored state)
+  useEffect(() => {
+    if (!user) return;
+    if (
+      (currentModule === 'dashboard' && !permissions.can('view_dashboard')) ||
+      (currentModule === 'users' && !permissions.can('manage_users')) ||
+      (currentModule === 'zones' && !permissions.can('manage_zones'))
+    ) {
+      setCurrentModule('ocr');
+    }
+  }, [user, currentModule, permissions]);
+
+  // Refresh the access token shortly before it expires
+  useEffect(() => {
+    if (!session) return;
+
+    const delay = Math.max(session.user.session.expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(async () => {
       try {
-        console.log(`[Init] Intentando conexión automática a: ${cleanUrl}`);
-        
-        const response = await fetch(`${cleanUrl}/`, {
-          method: 'GET',
-          headers: { 'ngrok-skip-browser-warning': 'true' },
-        });
-
-        if (response.ok) {
-          console.log("[Init] Conexión exitosa.");
-          setApiUrl(cleanUrl);
-          localStorage.setItem(STORAGE_KEY_URL, cleanUrl);
-          // view is already 'upload', so we don't strictly need to set it, 
-          // but valid connection confirms we are ready.
-          setView('upload'); 
-        } else {
-          throw new Error(`Status ${response.status}`);
-        }
+        const renewed = await api.refreshSession(session);
+        setSession(renewed);
       } catch (err) {
-        console.warn("[Init] Falló la conexión automática:", err);
-        setApiUrl(cleanUrl);
-        // We do NOT set view to 'setup' here anymore to avoid locking the UI.
-        // User will land on 'upload' and see error if they try to use it.
-      } finally {
-        setTimeout(() => {
-          setIsInitializing(false);
-        }, 800);
+        debugWarn("[Auth] Falló la renovación del token:", err);
+        handleSessionExpired();
       }
-    };
+    }, delay);
 
-    initAutoConnection();
-  }, []);
+    return () => clearTimeout(timer);
+  }, [session, api]);
 
   // --- Handlers ---
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoginError('');
 
-    // Mock Authentication Logic
-    const u = usernameInput.toLowerCase();
-    const p = passwordInput;
-
-    if (p !== '1234') {
-      setLoginError('Contraseña incorrecta');
-      return;
-    }
-
-    let role: UserRole | null = null;
-    let name = '';
-
-    if (u === 'admin') {
-      role = 'admin';
-      name = 'Administrador General';
-    } else if (u === 'supervisor') {
-      role = 'supervisor';
-      name = 'Supervisor de Zona';
-    } else if (u === 'buzo') {
-      role = 'buzo';
-      name = 'Operador de Buceo';
-    } else {
-      setLoginError('Usuario no encontrado. (Prueba: admin, supervisor, buzo)');
+    if (!usernameInput.trim() || !passwordInput) {
+      setLoginError('Ingresa usuario y contraseña.');
       return;
     }
 
-    setUser({ username: u, name, role });
-
-    // Redirect based on role
-    if (role === 'buzo') {
-      setCurrentModule('ocr');
-    } else {
-      setCurrentModule('dashboard');
+    setIsLoggingIn(true);
+    try {
+      const newSession = await api.login(usernameInput.trim().toLowerCase(), passwordInput);
+      setSession(newSession);
+      setPasswordInput('');
+
+      // Redirect based on capabilities (and the installed app's Digitalizar shortcut)
+      if (launch.module !== 'ocr' && buildPermissions(newSession.user).can('view_dashboard')) {
+        setCurrentModule('dashboard');
+      } else {
+        setCurrentModule('ocr');
+      }
+    } catch (err: any) {
+      debugError("[Auth] Error de inicio de sesión:", err);
+      setLoginError(describeApiError(err, "Error de conexión con el servidor de autenticación."));
+    } finally {
+      setIsLoggingIn(false);
     }
   };
 
   const handleLogout = () => {
-    setUser(null);
+    // Wipe the persisted session and every cached planilla
+    uploadAbortRef.current?.abort();
+    batch.clear();
+    // Otherwise resetFlow would write it back after the drafts are wiped
+    drafts.cancelPending();
+    clearSession();
+    setSession(null);
     setUsernameInput('');
     setPasswordInput('');
+    setSelectedZone('');
+    setUploadError(null);
     resetFlow();
   };
 
-  const handleSaveUrl = (url: string) => {
-    setApiUrl(url);
-    localStorage.setItem(STORAGE_KEY_URL, url);
+  const handleStayLoggedIn = () => {
+    idleWarningRef.current = false;
+    touchActivity();
+    setIdleSecondsLeft(null);
+  };
+
+  const handleBackToLogin = () => {
+    // The token was already stripped from the URL at startup; forget it here too
+    setResetToken(null);
+    setLoginError('');
+    setAuthView('login');
+  };
+
+  // Called when the backend rejects our token (401) or it cannot be renewed
+  const handleSessionExpired = () => {
+    handleLogout();
+    setLoginError('Tu sesión expiró. Inicia sesión nuevamente.');
+  };
+  sessionExpiredRef.current = handleSessionExpired;
+
+  const handleSaveSettings = (values: SettingsValues) => {
+    // Tokens are issued by one backend; never send them to another
+    const nextProfile = findActiveProfile(values.profiles, values.activeProfileId);
+    const backendChanged = nextProfile.id !== activeProfile.id
+      || normalizeBaseUrl(nextProfile.url) !== normalizeBaseUrl(activeProfile.url)
+      || !!nextProfile.demo !== !!activeProfile.demo;
+    if (session && backendChanged) {
+      handleLogout();
+      setLoginError('Cambiaste de servidor. Inicia sesión nuevamente.');
+    }
+    setProfiles(values.profiles);
+    saveProfiles(values.profiles);
+    setActiveProfileIdState(values.activeProfileId);
+    setActiveProfileId(values.activeProfileId);
+    setIdleTimeoutMinutes(values.idleMinutes);
+    setUploadTimeoutSeconds(values.uploadTimeoutSeconds);
+    setCompressionSettings(values.compression);
     setIsSettingsOpen(false);
     // Ensure we are in upload view after saving settings
     setView('upload');
   };
 
+  // Shortcut on the login screen; the same profile can be picked in SettingsModal
+  const handleSwitchDemoMode = (enabled: boolean) => {
+    const target = enabled ? profiles.find(p => p.demo) : profiles.find(p => !p.demo);
+    if (!target) return;
+    setActiveProfileIdState(target.id);
+    setActiveProfileId(target.id);
+    setLoginError('');
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
-      setUploadError(null);
-      // Auto-switch to OCR module if file selected via mobile menu
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!permissions.can('digitize')) return;
+    // PDFs go through the page picker first; each selected page becomes a registro
+    const pdfs = picked.filter(isPdfFile);
+    const images = picked.filter(f => !isPdfFile(f));
+    if (pdfs.length > 0) {
+      setPdfQueue(prev => [...prev, ...pdfs]);
       setCurrentModule('ocr');
       setView('upload');
       setIsMobileMenuOpen(false);
     }
+    if (images.length > 1) {
+      handleBatchSelect(images);
+      return;
+    }
+    if (images[0]) selectPhoto(images[0]);
+  };
+
+  // Single photo, from the file inputs or the in-app camera
+  const selectPhoto = (file: File) => {
+    if (!permissions.can('digitize')) return;
+    setSelectedFile(file);
+    if (getAutoPreprocess()) setPreprocessTarget(file);
+    setUploadError(null);
+    // Auto-switch to OCR module if file selected via mobile menu
+    setCurrentModule('ocr');
+    setView('upload');
+    setIsMobileMenuOpen(false);
+  };
+
+  const handleCameraCapture = (file: File) => {
+    setIsCameraOpen(false);
+    selectPhoto(file);
+  };
+
+  const handleUseSystemCamera = () => {
+    setIsCameraOpen(false);
+    cameraInputRef.current?.click();
+  };
+
+  const handlePdfPagesConfirm = (pages: PdfPage[]) => {
+    setPdfQueue(prev => prev.slice(1));
+    handleBatchSelect(pages.map(p => p.file), pages.map(p => p.source));
+  };
+
+  const handlePreprocessConfirm = (result: File) => {
+    if (preprocessTarget && result !== preprocessTarget) correctedFromRef.current.set(result, preprocessTarget);
+    setSelectedFile(result);
+    setPreprocessTarget(null);
+  };
+
+  // Multiple files go to the batch queue (or the outbox when offline) instead of the single-file form
+  const handleBatchSelect = async (files: File[], sources: (RegistroSource | undefined)[] = []) => {
+    if (!permissions.can('digitize')) return;
+    const zonaId = selectedZone || visibleZones[0]?.id;
+    setCurrentModule('ocr');
+    setView('upload');
+    setIsMobileMenuOpen(false);
+    if (!zonaId) {
+      setUploadError("No tienes zonas asignadas para subir planillas.");
+      return;
+    }
+    setUploadError(null);
+
+    if (!navigator.onLine || backendHealth.status === 'offline') {
+      try {
+        for (const [i, file] of files.entries()) {
+          await outbox.enqueueUpload(file, zonaId, sources[i], undefined, selectedTemplate || undefined);
+        }
+        showNotification(`Sin conexión: ${files.length} planillas quedaron en la bandeja de salida.`, "success");
+      } catch (err) {
+        debugError("[App] No se pudo guardar en la bandeja de salida:", err);
+        setUploadError("Sin conexión y no se pudieron guardar las planillas en este dispositivo.");
+      }
+      return;
+    }
+
+    batch.addFiles(files, zonaId, sources, selectedTemplate || undefined);
+    showNotification(`${files.length} planillas agregadas al lote. Puedes validar cada una apenas esté lista.`, "success");
+  };
+
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (!item.result) return;
+    setSelectedFile(item.file);
+    setSelectedZone(item.zonaId);
+    setOcrData(item.result);
+    setEditorSeed(null);
+    setActiveBatchItemId(item.id);
+    setActiveOutboxItemId(null);
+    setSuccessMsg(null);
+    setCurrentModule('ocr');
+    setView('editor');
   };
 
   // Helper functions to trigger hidden inputs
+  // Guided in-app camera when the browser allows it, otherwise the OS camera
   const triggerCamera = () => {
+    if (canUseInAppCamera()) {
+      requestOrientationAccess();
+      setIsCameraOpen(true);
+      return;
+    }
     if (cameraInputRef.current) {
       cameraInputRef.current.click();
     }
@@ -304,85 +731,187 @@ export default function App() {
   };
 
   const handleUpload = async () => {
+    if (!permissions.can('digitize')) return;
     if (!selectedFile) {
       setUploadError("Por favor selecciona un archivo.");
       return;
     }
 
-    const zoneToSend = selectedZone || "1";
+    const zoneToSend = selectedZone || visibleZones[0]?.id;
+
+    if (!zoneToSend || !permissions.canAccessZone(zoneToSend)) {
+      setUploadError("No tienes acceso a la zona seleccionada.");
+      return;
+    }
+
+    if (isQualityBlocked) {
+      setUploadError("Revisa los avisos de calidad: toma otra foto o confirma que quieres subirla así.");
+      return;
+    }
+
+    const original = correctedFromRef.current.get(selectedFile) ?? selectedFile;
+    const metadata = photoMeta?.source === original && photoMeta.meta
+      ? photoMeta.meta
+      : await collectPhotoMetadata(original);
+
+    // Without connection, go straight to the outbox instead of waiting for timeouts
+    if (!navigator.onLine || backendHealth.status === 'offline') {
+      await queueUpload(selectedFile, zoneToSend, metadata);
+      return;
+    }
+
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    const timeoutMs = getUploadTimeoutSeconds() * 1000;
+    let attempts = 0;
+    let uploaded = false;
 
     setIsUploading(true);
     setUploadError(null);
 
-    const formData = new FormData();
-    formData.append('file', selectedFile);
-    formData.append('zona_id', zoneToSend);
+    // Once every byte is sent the server is running the OCR
+    const handleUploadProgress = (fraction: number) => setUploadProgress(fraction >= 1
+      ? { phase: 'processing', percent: 100 }
+      : { phase: 'uploading', percent: Math.round(fraction * 100) });
 
     try {
-      console.log(`[App] Subiendo a: ${apiUrl}/api/v1/registros Zona: ${zoneToSend}`);
-      
-      const response = await fetch(`${apiUrl}/api/v1/registros`, {
-        method: 'POST',
-        body: formData,
-        headers: {
-           'ngrok-skip-browser-warning': 'true'
+      debugLog(`[App] Subiendo a: ${api.baseUrl}/api/v1/registros Zona: ${zoneToSend}`);
+
+      const fileToSend = compressed?.source === selectedFile && compressed.result
+        ? compressed.result
+        : await prepareUploadFile(selectedFile);
+      const registro = await withRetry(
+        () => api.uploadRegistro(fileToSend, zoneToSend, {
+          signal: controller.signal,
+          timeoutMs,
+          onUploadProgress: handleUploadProgress,
+        }, { ...metadataUploadFields(metadata), ...templateUploadFields(selectedTemplate || undefined) }),
+        {
+          maxAttempts: UPLOAD_MAX_ATTEMPTS,
+          baseDelayMs: UPLOAD_RETRY_BASE_MS,
+          signal: controller.signal,
+          onAttempt: (attempt, maxAttempts) => {
+            attempts = attempt;
+            setUploadAttempt({ attempt, maxAttempts });
+            setUploadProgress({ phase: 'uploading', percent: 0 });
+          },
+          onRetry: (attempt, error, delayMs) => setUploadAttempt({
+            attempt,
+            maxAttempts: UPLOAD_MAX_ATTEMPTS,
+            retryInSeconds: Math.ceil(delayMs / 1000),
+            lastError: describeApiError(error, "Sin conexión con el servidor."),
+          }),
         }
-      });
+      );
+      uploaded = true;
 
-      if (!response.ok) {
-        let errorMessage = response.statusText;
-        try {
-          const errorBody = await response.text();
-          if (errorBody) {
-             try {
-               const jsonError = JSON.parse(errorBody);
-               errorMessage = jsonError.detail || jsonError.message || JSON.stringify(jsonError);
-             } catch {
-               errorMessage = errorBody;
-             }
-          }
-        } catch (e) {}
-        throw new Error(`Error Servidor (${response.status}): ${errorMessage}`);
+      // Async backends: keep polling the registro until the OCR result is ready
+      if (isPendingRegistro(registro)) {
+        debugLog(`[App] Registro #${registro.id} en proceso (${registro.estado}), consultando estado...`);
+        setUploadAttempt(null);
       }
-
-      const data: OCRResponse = await response.json();
+      const data = await waitForRegistro(api, registro, {
+        signal: controller.signal,
+        timeoutMs,
+        onStatus: (estado) => setUploadProgress({ phase: 'processing', percent: 100, estado }),
+      });
+      rememberRegistroMetadata(data.id, metadata);
+      if (selectedTemplate) rememberRegistroTemplate(data.id, selectedTemplate);
       setOcrData(data);
       setView('editor');
     } catch (err: any) {
-      console.error("[App] Error Carga:", err);
-      let displayMsg = err.message || "Error desconocido.";
-      if (displayMsg.includes("Failed to fetch") || displayMsg.includes("NetworkError")) {
-        displayMsg = "Error de conexión. Verifica que el Colab esté activo y la URL sea correcta.";
+      if (err instanceof UnauthorizedError) return;
+      if (err instanceof RequestCancelledError) {
+        debugLog("[App] Carga cancelada por el usuario.");
+        return;
+      }
+      debugError("[App] Error Carga:", err);
+      if (err instanceof RegistroProcessingError) {
+        setUploadError(err.message);
+        return;
+      }
+      if (err instanceof ContractError) {
+        // Name the offending field so the backend team can fix the contract
+        setUploadError(`El servidor respondió con un formato inesperado. ${err.message}`);
+        return;
+      }
+      if (!uploaded && isRetryableError(err)) {
+        await queueUpload(selectedFile, zoneToSend, metadata);
+        return;
+      }
+      const message = describeApiError(err, "Error de conexión. Verifica que el Colab esté activo y la URL sea correcta.");
+      if (uploaded) {
+        setUploadError(`La planilla se subió, pero no se pudo consultar su estado. ${message}`);
+      } else {
+        setUploadError(isRetryableError(err) && attempts > 1 ? `Falló tras ${attempts} intentos. ${message}` : message);
       }
-      setUploadError(displayMsg);
     } finally {
+      uploadAbortRef.current = null;
+      setUploadAttempt(null);
+      setUploadProgress(null);
       setIsUploading(false);
     }
   };
 
-  const handleValidationSave = async (validatedCells: MatrixCell[]) => {
+  const queueUpload = async (file: File, zonaId: string, metadata: PhotoMetadata) => {
+    try {
+      await outbox.enqueueUpload(file, zonaId, undefined, metadata, selectedTemplate || undefined);
+      setSelectedFile(null);
+      setUploadError(null);
+      showNotification("Sin conexión: la planilla quedó en la bandeja de salida y se enviará al reconectar.", "success");
+    } catch (err) {
+      debugError("[App] No se pudo guardar en la bandeja de salida:", err);
+      setUploadError("Sin conexión y no se pudo guardar la planilla en este dispositivo.");
+    }
+  };
+
+  // A queued upload was processed after reconnecting: open its result for validation
+  const handleReviewOutboxItem = (item: OutboxUpload) => {
+    if (!item.result) return;
+    setSelectedFile(item.file);
+    setSelectedZone(item.zonaId);
+    setOcrData(item.result);
+    setEditorSeed(null);
+    setActiveBatchItemId(null);
+    setActiveOutboxItemId(item.id);
+    setCurrentModule('ocr');
+    setView('editor');
+  };
+
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  const handleValidationSave = async (validatedCells: MatrixCell[], header: PlanillaHeader) => {
     if (!ocrData) return;
 
-    try {
-      const payload = {
-        cambios: validatedCells,
-        comentarios: `Validado por ${user?.username || 'WebClient'}`
-      };
-
-      const response = await fetch(`${apiUrl}/api/v1/registros/${ocrData.id}/validacion`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'ngrok-skip-browser-warning': 'true'
-        },
-        body: JSON.stringify(payload)
-      });
+    const payload: ValidationRequest = {
+      cambios: validatedCells,
+      encabezado: header,
+      comentarios: header.observaciones || undefined,
+    };
+    const queueValidation = async () => {
+      await outbox.enqueueValidation(ocrData.id, String(ocrData.zona_id), payload);
+      showNotification("Sin conexión: la validación se enviará al reconectar", "success");
+      setView('success');
+      setSuccessMsg("Validación guardada en la bandeja de salida. Se enviará automáticamente al recuperar la conexión.");
+    };
+    const markValidated = () => {
+      drafts.remove(ocrData.id);
+      if (activeBatchItemId) batch.markValidated(activeBatchItemId);
+      if (activeOutboxItemId) outbox.remove(activeOutboxItemId);
+    };
 
-      if (!response.ok) {
-         const errText = await response.text();
-         throw new Error(`Falló validación (${response.status}): ${errText}`);
+    try {
+      if (!navigator.onLine || backendHealth.status === 'offline') {
+        await queueValidation();
+        markValidated();
+        return;
       }
 
+      await api.validateRegistro(ocrData.id, payload);
+      markValidated();
+
       // Success Notification
       showNotification("Matriz validada y guardada correctamente", "success");
       
@@ -390,16 +919,65 @@ export default function App() {
       setSuccessMsg("¡Matriz validada y guardada correctamente!");
 
     } catch (err: any) {
-      console.error("[App] Error validación:", err);
-      let displayMsg = err.message;
-      if (displayMsg.includes("Failed to fetch")) {
-        displayMsg = "Error de conexión.";
+      if (err instanceof UnauthorizedError) return;
+      debugError("[App] Error validación:", err);
+      if (isRetryableError(err)) {
+        try {
+          await queueValidation();
+          markValidated();
+          return;
+        } catch (queueErr) {
+          debugError("[App] No se pudo guardar en la bandeja de salida:", queueErr);
+        }
       }
-      showNotification(`Error al guardar: ${displayMsg}`, "error");
+      showNotification(`Error al guardar: ${describeApiError(err)}`, "error");
     }
   };
 
+  // Header prefill where the OCR read nothing: the diver when a field user
+  // (no dashboard) validates their own planilla, and the day the photo was taken
+  const planillaHeaderDefaults = (registroId: number): Partial<PlanillaHeader> => {
+    const metadata = getRegistroMetadata(registroId);
+    return {
+      buzo: user && !permissions.can('view_dashboard') ? user.name : undefined,
+      fecha_buceo: metadata ? toDateInput(new Date(metadata.capturedAt)) : undefined,
+    };
+  };
+
+  const handleEditorEdited = (cells: MatrixCell[], header: PlanillaHeader) => {
+    // Don't overwrite an older draft the user has not answered about yet
+    if (!ocrData || draftOffer) return;
+    drafts.scheduleSave({
+      registroId: ocrData.id,
+      zonaId: selectedZone || String(ocrData.zona_id),
+      ocrData,
+      cells,
+      header,
+      image: selectedFile,
+    });
+  };
+
+  const handleResumeDraft = (draft: ValidationDraft) => {
+    setSelectedFile(draft.image ?? (ocrData?.id === draft.registroId ? selectedFile : null));
+    setSelectedZone(draft.zonaId);
+    setOcrData(draft.ocrData);
+    setEditorSeed({ registroId: draft.registroId, cells: draft.cells, header: draft.header });
+    setDraftOffer(null);
+    setCurrentModule('ocr');
+    setView('editor');
+  };
+
+  const handleDiscardDraftOffer = () => {
+    if (!draftOffer) return;
+    drafts.remove(draftOffer.registroId);
+    setDraftOffer(null);
+  };
+
   const resetFlow = () => {
+    drafts.flush();
+    setEditorSeed(null);
+    setActiveBatchItemId(null);
+    setActiveOutboxItemId(null);
     setSelectedFile(null);
     setOcrData(null);
     setView('upload');
@@ -407,12 +985,14 @@ export default function App() {
   };
 
   // Determine layout width based on content
-  const isWideLayout = currentModule === 'dashboard' || (currentModule === 'ocr' && view === 'editor');
+  const isWideLayout = currentModule === 'dashboard' || currentModule === 'users' || currentModule === 'zones' || (currentModule === 'ocr' && view === 'editor');
 
-  // RBAC Gates
-  const canViewDashboard = user?.role === 'admin' || user?.role === 'supervisor';
-  const canViewSettings = user?.role === 'admin';
-  const isBuzo = user?.role === 'buzo';
+  // Capability Gates
+  const canViewDashboard = permissions.can('view_dashboard');
+  const canDigitize = permissions.can('digitize');
+  const canViewSettings = permissions.can('configure_api');
+  const canManageUsers = permissions.can('manage_users');
+  const canManageZones = permissions.can('manage_zones');
 
   // --- RENDER LOADING SCREEN ---
   if (isInitializing) {
@@ -434,8 +1014,14 @@ export default function App() {
   if (!user) {
     return (
       <div className="flex h-screen w-full bg-[#050505] text-white overflow-hidden">
+        {pwa.updateAvailable && <UpdatePrompt onUpdate={pwa.applyUpdate} onDismiss={pwa.dismissUpdate} />}
         {/* LEFT COLUMN: Login Form */}
-        <div className="w-full lg:w-[45%] flex items-center justify-center p-8 z-10 relative">
+        <div className="w-full lg:w-[45%] flex items-center justify-center p-8 z-10 relative overflow-y-auto">
+          {authView === 'forgot' && <ForgotPasswordForm api={api} onBack={handleBackToLogin} />}
+          {authView === 'reset' && resetToken && <ResetPasswordForm api={api} token={resetToken} onBack={handleBackToLogin} />}
+          {authView === 'register' && <SignUpForm api={api} onBack={handleBackToLogin} />}
+
+          {authView === 'login' && (
           <div className="w-full max-w-[350px] space-y-8 animate-in slide-in-left duration-500">
             
             <div className="space-y-2">
@@ -453,7 +1039,8 @@ export default function App() {
                   type="text" 
                   value={usernameInput}
                   onChange={(e) => setUsernameInput(e.target.value)}
-                  placeholder="admin, supervisor, buzo"
+                  placeholder="nombre de usuario"
+                  autoComplete="username"
                   className="w-full h-11 px-3 bg-zinc-900/50 border border-zinc-800 rounded-md text-white placeholder:text-zinc-600 focus:outline-none focus:ring-1 focus:ring-white focus:border-white transition-all text-sm"
                   autoFocus
                 />
@@ -462,13 +1049,20 @@ export default function App() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <label className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Contraseña</label>
-                  <a href="#" className="text-xs font-medium text-zinc-500 hover:text-white transition-colors">¿Olvidaste tu contraseña?</a>
+                  <button
+                    type="button"
+                    onClick={() => { setLoginError(''); setAuthView('forgot'); }}
+                    className="text-xs font-medium text-zinc-500 hover:text-white transition-colors"
+                  >
+                    ¿Olvidaste tu contraseña?
+                  </button>
                 </div>
                 <input 
                   type="password" 
                   value={passwordInput}
                   onChange={(e) => setPasswordInput(e.target.value)}
                   placeholder="••••••••"
+                  autoComplete="current-password"
                   className="w-full h-11 px-3 bg-zinc-900/50 border border-zinc-800 rounded-md text-white placeholder:text-zinc-600 focus:outline-none focus:ring-1 focus:ring-white focus:border-white transition-all text-sm"
                 />
               </div>
@@ -482,16 +1076,48 @@ export default function App() {
 
               <button 
                 type="submit"
-                className="w-full h-11 bg-white hover:bg-zinc-200 text-black font-bold rounded-md transition-all transform active:scale-[0.99] text-sm mt-2"
+                disabled={isLoggingIn}
+                className="w-full h-11 bg-white hover:bg-zinc-200 text-black font-bold rounded-md transition-all transform active:scale-[0.99] text-sm mt-2 disabled:opacity-60 disabled:pointer-events-none inline-flex items-center justify-center"
               >
-                Ingresar
+                {isLoggingIn ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin mr-2" />
+                    Verificando...
+                  </>
+                ) : (
+                  "Ingresar"
+                )}
               </button>
             </form>
 
             <p className="text-center text-xs text-zinc-500">
-              ¿No tienes cuenta? <span className="text-white cursor-pointer font-medium hover:underline">Regístrate</span>
+              ¿No tienes cuenta?{' '}
+              <button
+                type="button"
+                onClick={() => { setLoginError(''); setAuthView('register'); }}
+                className="text-white cursor-pointer font-medium hover:underline"
+              >
+                Regístrate
+              </button>
             </p>
+
+            {activeProfile.demo ? (
+              <div className="text-center text-xs text-purple-300 bg-purple-900/10 border border-purple-900/30 rounded-md p-3 leading-relaxed">
+                Modo demo activo: ingresa con cualquier contraseña (usuario "admin", "supervisor" o "buzo").{' '}
+                <button type="button" onClick={() => handleSwitchDemoMode(false)} className="text-white font-medium hover:underline">
+                  Salir del modo demo
+                </button>
+              </div>
+            ) : (
+              <p className="text-center text-xs text-zinc-600">
+                ¿Sin servidor disponible?{' '}
+                <button type="button" onClick={() => handleSwitchDemoMode(true)} className="text-zinc-400 font-medium hover:text-white hover:underline">
+                  Probar en modo demo
+                </button>
+              </p>
+            )}
           </div>
+          )}
         </div>
 
         {/* RIGHT COLUMN: 3D Animation (Monochrome) */}
@@ -520,6 +1146,7 @@ export default function App() {
 
   // --- RENDER MAIN APP ---
   return (
+    <PermissionsContext.Provider value={permissions}>
     <div className="flex h-screen bg-gray-50 dark:bg-black font-sans text-google-text dark:text-gray-100 overflow-hidden transition-colors duration-300">
       
       {/* GLOBAL TOAST NOTIFICATION */}
@@ -531,13 +1158,54 @@ export default function App() {
         />
       )}
 
+      {pwa.updateAvailable && (
+        <UpdatePrompt isBusy={isUploading} onUpdate={pwa.applyUpdate} onDismiss={pwa.dismissUpdate} />
+      )}
+
+      {idleSecondsLeft !== null && (
+        <SessionTimeoutModal
+          secondsLeft={idleSecondsLeft}
+          onStayLoggedIn={handleStayLoggedIn}
+          onLogout={handleLogout}
+        />
+      )}
+
       {canViewSettings && (
         <SettingsModal 
           isOpen={isSettingsOpen}
-          currentUrl={apiUrl}
-          onSave={handleSaveUrl}
+          profiles={profiles}
+          activeProfileId={activeProfile.id}
+          idleTimeoutMinutes={getIdleTimeoutMinutes()}
+          uploadTimeoutSeconds={getUploadTimeoutSeconds()}
+          compression={getCompressionSettings()}
+          onSave={handleSaveSettings}
           onClose={() => setIsSettingsOpen(false)}
-          canClose={!!apiUrl} 
+          canClose={!!activeProfile.url} 
+        />
+      )}
+
+      {preprocessTarget && (
+        <DocumentPreprocessor
+          file={preprocessTarget}
+          onConfirm={handlePreprocessConfirm}
+          onCancel={() => setPreprocessTarget(null)}
+        />
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture
+          onCapture={handleCameraCapture}
+          onCancel={() => setIsCameraOpen(false)}
+          onUseSystemCamera={handleUseSystemCamera}
+        />
+      )}
+
+      {pdfQueue[0] && (
+        <PdfPagePicker
+          key={`${pdfQueue[0].name}-${pdfQueue[0].lastModified}-${pdfQueue.length}`}
+          file={pdfQueue[0]}
+          onConfirm={handlePdfPagesConfirm}
+          onCancel={() => setPdfQueue(prev => prev.slice(1))}
         />
       )}
 
@@ -546,7 +1214,8 @@ export default function App() {
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileSelect} 
-        accept="image/*" 
+        accept="image/*,application/pdf" 
+        multiple
         className="hidden" 
       />
       <input 
@@ -616,11 +1285,57 @@ export default function App() {
           >
             <ClipboardList className="w-5 h-5" />
             Digitalizar
+            {outbox.pendingCount > 0 && (
+              <span
+                className="ml-auto text-[10px] font-bold bg-black dark:bg-white text-white dark:text-black rounded-full px-1.5 py-0.5"
+                title="Pendientes en la bandeja de salida"
+              >
+                {outbox.pendingCount}
+              </span>
+            )}
           </button>
+
+          {canManageUsers && (
+            <button
+              onClick={() => setCurrentModule('users')}
+              className={`
+                w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-bold transition-all
+                ${currentModule === 'users' 
+                  ? 'bg-gray-100 dark:bg-dark-border text-black dark:text-white' 
+                  : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white'
+                }
+              `}
+            >
+              <Users className="w-5 h-5" />
+              Usuarios
+            </button>
+          )}
+
+          {canManageZones && (
+            <button
+              onClick={() => setCurrentModule('zones')}
+              className={`
+                w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-bold transition-all
+                ${currentModule === 'zones' 
+                  ? 'bg-gray-100 dark:bg-dark-border text-black dark:text-white' 
+                  : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white'
+                }
+              `}
+            >
+              <MapPin className="w-5 h-5" />
+              Zonas
+            </button>
+          )}
         </nav>
 
         {/* Bottom Actions */}
         <div className="p-4 border-t border-gray-100 dark:border-dark-border bg-gray-50/50 dark:bg-dark-bg/30 space-y-2">
+           <BackendStatusBadge
+             health={backendHealth}
+             profileName={activeProfile.name}
+             onClick={backendHealth.checkNow}
+           />
+
            {/* Dark Mode Toggle */}
            <button
             onClick={toggleTheme}
@@ -630,6 +1345,16 @@ export default function App() {
             {isDarkMode ? "Modo Claro" : "Modo Oscuro"}
           </button>
 
+          {pwa.canInstall && (
+            <button
+              onClick={pwa.install}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-md hover:bg-white dark:hover:bg-dark-border transition-colors text-xs font-bold text-gray-600 dark:text-gray-400 border border-transparent hover:border-gray-200 dark:hover:border-dark-border hover:shadow-sm"
+            >
+              <Download className="w-4 h-4" />
+              Instalar App
+            </button>
+          )}
+
           {canViewSettings && (
             <button
               onClick={() => setIsSettingsOpen(true)}
@@ -669,6 +1394,33 @@ export default function App() {
             <span className="font-black text-lg tracking-tight text-black dark:text-white">Bluegrid<span className="text-gray-400 font-medium">OCR</span></span>
           </div>
           <div className="flex items-center gap-2">
+            <BackendStatusBadge
+              health={backendHealth}
+              profileName={activeProfile.name}
+              onClick={backendHealth.checkNow}
+              compact
+            />
+            {pwa.canInstall && (
+              <button
+                onClick={pwa.install}
+                className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover rounded-md"
+                title="Instalar App"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+            )}
+            {outbox.pendingCount > 0 && (
+              <button
+                onClick={() => { setCurrentModule('ocr'); setView('upload'); }}
+                className="relative p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover rounded-md"
+                title="Bandeja de salida"
+              >
+                <Inbox className="w-5 h-5" />
+                <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 text-[10px] font-bold leading-4 text-center bg-black dark:bg-white text-white dark:text-black rounded-full">
+                  {outbox.pendingCount}
+                </span>
+              </button>
+            )}
             {canViewSettings && (
               <button
                 onClick={() => setIsSettingsOpen(true)}
@@ -689,7 +1441,31 @@ export default function App() {
             
             {/* DASHBOARD MODULE - Gated */}
             {currentModule === 'dashboard' && canViewDashboard && (
-              <Dashboard isDarkMode={isDarkMode} />
+              <Dashboard
+                isDarkMode={isDarkMode}
+                catalog={zoneCatalog.activeZones}
+                isCatalogLoading={zoneCatalog.isLoading || !zoneCatalog.hasFetched}
+                catalogError={zoneCatalog.error}
+              />
+            )}
+
+            {/* USERS MODULE - Admin only */}
+            {currentModule === 'users' && canManageUsers && (
+              <UserManagement
+                api={api}
+                currentUsername={user.username}
+                zones={zoneCatalog.zones}
+                onNotify={showNotification}
+              />
+            )}
+
+            {/* ZONES MODULE - Admin only */}
+            {currentModule === 'zones' && canManageZones && (
+              <ZoneManagement
+                api={api}
+                catalog={zoneCatalog}
+                onNotify={showNotification}
+              />
             )}
 
             {/* OCR MODULE - Available to all authenticated */}
@@ -702,93 +1478,273 @@ export default function App() {
                       <p className="text-gray-500 text-base md:text-lg">Procesamiento inteligente de planillas de buceo.</p>
                     </div>
 
-                    <div className="rounded-xl border border-black/10 dark:border-dark-border bg-white dark:bg-dark-card text-black dark:text-white shadow-sm overflow-hidden transition-colors duration-300">
-                      <div className="p-4 md:p-8 space-y-6 md:space-y-8">
-                        <div className="space-y-3">
-                          <label className="text-sm font-bold leading-none flex items-center gap-2 text-gray-700 dark:text-gray-300">
-                            Zona Acuícola
-                            <span className="text-xs font-normal text-gray-400 bg-gray-100 dark:bg-dark-border px-1.5 py-0.5 rounded">Requerido</span>
-                          </label>
-                          <div className="relative">
-                            <select
-                              value={selectedZone}
-                              onChange={(e) => setSelectedZone(e.target.value)}
-                              className="flex h-12 md:h-14 w-full items-center justify-between rounded-lg border border-gray-200 dark:border-dark-border bg-gray-50 dark:bg-dark-bg px-4 py-2 text-base text-black dark:text-white placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white focus:border-transparent transition-all appearance-none"
-                            >
-                              <option value="">-- Seleccionar Centro de Cultivo --</option>
-                              {MOCK_ZONES.map(z => (
-                                <option key={z.id} value={z.id}>{z.name}</option>
-                              ))}
-                            </select>
-                            <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-gray-400">
-                              <ChevronRight className="w-5 h-5 rotate-90" />
+                    {isBackendDown && !isUploading && (
+                      <div className={`mb-6 p-4 rounded-lg border text-sm flex items-start gap-3 animate-in fade-in ${
+                        backendHealth.status === 'offline'
+                          ? 'bg-red-50 dark:bg-red-900/10 border-google-red/30 text-google-red'
+                          : 'bg-yellow-50 dark:bg-yellow-900/10 border-google-yellow/30 text-google-yellow'
+                      }`}>
+                        <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+                        <div className="flex-1 leading-relaxed">
+                          <p className="font-bold">
+                            {backendHealth.status === 'offline'
+                              ? "El servidor no está disponible."
+                              : "El servidor responde con problemas."}
+                          </p>
+                          <p className="font-medium opacity-90">
+                            {backendHealth.detail} {backendHealth.status === 'offline'
+                              ? "Puedes seguir digitalizando: las planillas quedarán en la bandeja de salida."
+                              : "Verifica la conexión antes de fotografiar la planilla."}
+                          </p>
+                        </div>
+                        <button
+                          onClick={backendHealth.checkNow}
+                          className="shrink-0 inline-flex items-center gap-1 text-xs font-bold underline underline-offset-2"
+                        >
+                          <RefreshCw className="w-3 h-3" /> Reintentar
+                        </button>
+                      </div>
+                    )}
+
+                    {canDigitize && (
+                      <div className="rounded-xl border border-black/10 dark:border-dark-border bg-white dark:bg-dark-card text-black dark:text-white shadow-sm overflow-hidden transition-colors duration-300">
+                        <div className="p-4 md:p-8 space-y-6 md:space-y-8">
+                          <div className="space-y-3">
+                            <label className="text-sm font-bold leading-none flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                              Zona Acuícola
+                              <span className="text-xs font-normal text-gray-400 bg-gray-100 dark:bg-dark-border px-1.5 py-0.5 rounded">Requerido</span>
+                            </label>
+                            <div className="relative">
+                              <select
+                                value={selectedZone}
+                                onChange={(e) => setSelectedZone(e.target.value)}
+                                className="flex h-12 md:h-14 w-full items-center justify-between rounded-lg border border-gray-200 dark:border-dark-border bg-gray-50 dark:bg-dark-bg px-4 py-2 text-base text-black dark:text-white placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white focus:border-transparent transition-all appearance-none"
+                              >
+                                <option value="">
+                                  {visibleZones.length === 0 && zoneCatalog.isLoading ? 'Cargando zonas...' : '-- Seleccionar Centro de Cultivo --'}
+                                </option>
+                                {visibleZones.map(z => (
+                                  <option key={z.id} value={z.id}>{z.name}</option>
+                                ))}
+                              </select>
+                              <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-gray-400">
+                                <ChevronRight className="w-5 h-5 rotate-90" />
+                              </div>
                             </div>
+                            {zoneWarning && (
+                              <p className="text-xs font-medium text-gray-700 dark:text-gray-300 flex items-start gap-2 bg-yellow-50 dark:bg-yellow-900/10 border border-google-yellow/30 rounded-md p-2.5">
+                                <MapPin className="w-4 h-4 shrink-0 text-google-yellow" />
+                                {zoneWarning}
+                              </p>
+                            )}
+                            {zoneCatalog.error && visibleZones.length === 0 && (
+                              <p className="text-xs font-medium text-google-red flex items-center gap-2">
+                                No se pudo cargar la lista de zonas: {zoneCatalog.error}
+                                <button onClick={zoneCatalog.reload} className="font-bold text-google-blue hover:underline">Reintentar</button>
+                              </p>
+                            )}
                           </div>
-                        </div>
 
-                        <div className="space-y-3">
-                          <label className="text-sm font-bold leading-none text-gray-700 dark:text-gray-300">
-                            Imagen de Planilla
-                          </label>
-                          <label 
-                            className={`
-                              flex flex-col items-center justify-center w-full h-48 md:h-72 border-2 border-dashed rounded-xl cursor-pointer transition-all group relative overflow-hidden
-                              ${selectedFile 
-                                ? 'border-black dark:border-white bg-gray-50 dark:bg-dark-bg' 
-                                : 'border-gray-300 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-50 dark:hover:bg-dark-hover hover:border-black dark:hover:border-white'
-                              }
-                            `}
+                          <div className="space-y-3">
+                            <label className="text-sm font-bold leading-none text-gray-700 dark:text-gray-300">
+                              Plantilla
+                            </label>
+                            <div className="relative">
+                              <select
+                                value={selectedTemplate}
+                                onChange={(e) => setSelectedTemplate(e.target.value)}
+                                className="flex h-12 w-full items-center justify-between rounded-lg border border-gray-200 dark:border-dark-border bg-gray-50 dark:bg-dark-bg px-4 py-2 text-sm text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white focus:border-transparent transition-all appearance-none"
+                              >
+                                <option value="">
+                                  Según la zona ({resolveTemplate(zoneCatalog.zones.find(z => z.id === selectedZone)?.templateId).name})
+                                </option>
+                                {PLANILLA_TEMPLATES.map(t => (
+                                  <option key={t.id} value={t.id}>{t.name}</option>
+                                ))}
+                              </select>
+                              <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-gray-400">
+                                <ChevronRight className="w-5 h-5 rotate-90" />
+                              </div>
+                            </div>
+                          </div>
+
+                          <div className="space-y-3">
+                            <label className="text-sm font-bold leading-none text-gray-700 dark:text-gray-300">
+                              Imagen de Planilla
+                            </label>
+                            <label 
+                              className={`
+                                flex flex-col items-center justify-center w-full h-48 md:h-72 border-2 border-dashed rounded-xl cursor-pointer transition-all group relative overflow-hidden
+                                ${selectedFile 
+                                  ? 'border-black dark:border-white bg-gray-50 dark:bg-dark-bg' 
+                                  : 'border-gray-300 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-50 dark:hover:bg-dark-hover hover:border-black dark:hover:border-white'
+                                }
+                              `}
+                            >
+                              <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center px-4 z-10">
+                                {selectedFile ? (
+                                  <>
+                                    <div className="p-4 md:p-5 bg-black dark:bg-white text-white dark:text-black rounded-full mb-3 md:mb-4 shadow-xl shadow-black/20 dark:shadow-white/10 group-hover:scale-110 transition-transform">
+                                      <FileImage className="w-6 h-6 md:w-8 md:h-8" />
+                                    </div>
+                                    <p className="text-lg md:text-xl font-bold text-black dark:text-white tracking-tight truncate max-w-[200px] md:max-w-xs">{selectedFile.name}</p>
+                                    <p className="text-sm text-gray-500 mt-1 font-mono bg-white dark:bg-dark-card px-2 py-0.5 rounded border border-gray-200 dark:border-dark-border">
+                                      {formatBytes(selectedFile.size)}
+                                      {compressed?.source === selectedFile && (
+                                        compressed.result === null
+                                          ? " → comprimiendo..."
+                                          : compressed.result !== selectedFile && ` → ${formatBytes(compressed.result.size)} a enviar`
+                                      )}
+                                    </p>
+                                    <p className="text-xs text-google-blue mt-4 md:mt-6 font-bold group-hover:underline flex items-center gap-1">
+                                      <Upload className="w-3 h-3" /> Cambiar archivo
+                                    </p>
+                                  </>
+                                ) : (
+                                  <>
+                                    <div className="p-4 md:p-5 bg-gray-100 dark:bg-dark-border rounded-full mb-4 md:mb-5 group-hover:bg-gray-200 dark:group-hover:bg-gray-700 transition-colors">
+                                      <Camera className="w-8 h-8 md:w-10 md:h-10 text-gray-400 dark:text-gray-500 group-hover:text-black dark:group-hover:text-white transition-colors" />
+                                    </div>
+                                    <p className="mb-2 text-lg md:text-xl text-black dark:text-white font-bold">Tomar Foto / Subir</p>
+                                    <p className="text-sm text-gray-400 max-w-xs mx-auto">Toca para abrir cámara o galería. Selecciona varias (o un PDF) para procesarlas en lote.</p>
+                                  </>
+                                )}
+                              </div>
+                              <input type="file" className="hidden" onChange={handleFileSelect} accept="image/*,application/pdf" multiple />
+                            </label>
+                            {selectedFile && !isUploading && (
+                              <div className="flex items-center justify-between gap-3 mt-2 text-xs">
+                                <span className="font-medium text-gray-500 dark:text-gray-400">
+                                  {correctedFromRef.current.has(selectedFile) ? "Imagen corregida (perspectiva y encuadre)." : "Imagen original, sin corregir."}
+                                </span>
+                                <button
+                                  onClick={() => setPreprocessTarget(correctedFromRef.current.get(selectedFile) ?? selectedFile)}
+                                  className="inline-flex items-center gap-1 font-bold text-google-blue hover:underline shrink-0"
+                                >
+                                  <Crop className="w-3 h-3" />
+                                  {correctedFromRef.current.has(selectedFile) ? "Ajustar corrección" : "Corregir imagen"}
+                                </button>
+                              </div>
+                            )}
+                            {!selectedFile && canUseInAppCamera() && (
+                              <div className="flex justify-end mt-2 text-xs">
+                                <button
+                                  onClick={triggerCamera}
+                                  className="inline-flex items-center gap-1 font-bold text-google-blue hover:underline"
+                                >
+                                  <Camera className="w-3 h-3" /> Cámara guiada
+                                </button>
+                              </div>
+                            )}
+                          </div>
+
+                          {quality && !isUploading && (
+                            <QualityWarnings
+                              report={quality.report}
+                              overridden={qualityOverride}
+                              onRetake={triggerCamera}
+                              onOverride={() => { setQualityOverride(true); setUploadError(null); }}
+                            />
+                          )}
+
+                          {uploadError && (
+                            <div className="bg-red-50 dark:bg-red-900/10 border border-google-red/30 text-google-red text-sm p-4 rounded-lg flex items-start gap-3 animate-in fade-in">
+                              <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+                              <div className="font-medium leading-relaxed">{uploadError}</div>
+                            </div>
+                          )}
+
+                          <button
+                            onClick={handleUpload}
+                            disabled={isUploading || !selectedFile || isQualityBlocked}
+                            className="inline-flex items-center justify-center rounded-lg text-base font-bold transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white disabled:opacity-50 disabled:pointer-events-none bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-14 px-8 w-full shadow-lg hover:shadow-xl hover:-translate-y-0.5 active:scale-[0.98]"
                           >
-                            <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center px-4 z-10">
-                              {selectedFile ? (
-                                <>
-                                  <div className="p-4 md:p-5 bg-black dark:bg-white text-white dark:text-black rounded-full mb-3 md:mb-4 shadow-xl shadow-black/20 dark:shadow-white/10 group-hover:scale-110 transition-transform">
-                                    <FileImage className="w-6 h-6 md:w-8 md:h-8" />
+                            {isUploading ? (
+                              <>
+                                <div className="w-5 h-5 border-2 border-white dark:border-black border-t-transparent rounded-full animate-spin mr-3" />
+                                {uploadProgress?.phase === 'uploading' ? `Subiendo ${uploadProgress.percent}%` : "Procesando..."}
+                              </>
+                            ) : (
+                              "Procesar Planilla"
+                            )}
+                          </button>
+
+                          {isUploading && (
+                            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-dark-border bg-gray-50 dark:bg-dark-bg text-sm animate-in fade-in">
+                              <div className="min-w-0 flex-1">
+                                {uploadProgress && (
+                                  <div className="mb-2">
+                                    <div className="flex justify-between text-xs font-bold text-gray-600 dark:text-gray-300 mb-1">
+                                      <span>
+                                        {uploadProgress.phase === 'uploading'
+                                          ? "Subiendo imagen"
+                                          : `Procesando con IA${uploadProgress.estado ? ` (${uploadProgress.estado.replace(/_/g, ' ')})` : ''}`}
+                                      </span>
+                                      {uploadProgress.phase === 'uploading' && <span className="font-mono">{uploadProgress.percent}%</span>}
+                                    </div>
+                                    <div className="h-1.5 w-full bg-gray-200 dark:bg-dark-border rounded-full overflow-hidden">
+                                      <div
+                                        className={`h-full rounded-full transition-all duration-300 ${uploadProgress.phase === 'uploading' ? 'bg-black dark:bg-white' : 'bg-google-blue animate-pulse'}`}
+                                        style={{ width: `${uploadProgress.percent}%` }}
+                                      />
+                                    </div>
+                                  </div>
+                                )}
+                                {uploadAttempt && (
+                                  <div className="font-bold text-black dark:text-white flex items-center gap-2">
+                                    <RefreshCw className={`w-4 h-4 shrink-0 ${uploadAttempt.retryInSeconds ? '' : 'animate-spin'}`} />
+                                    Intento {uploadAttempt.attempt} de {uploadAttempt.maxAttempts}
                                   </div>
-                                  <p className="text-lg md:text-xl font-bold text-black dark:text-white tracking-tight truncate max-w-[200px] md:max-w-xs">{selectedFile.name}</p>
-                                  <p className="text-sm text-gray-500 mt-1 font-mono bg-white dark:bg-dark-card px-2 py-0.5 rounded border border-gray-200 dark:border-dark-border">
-                                    {(selectedFile.size / 1024).toFixed(1)} KB
-                                  </p>
-                                  <p className="text-xs text-google-blue mt-4 md:mt-6 font-bold group-hover:underline flex items-center gap-1">
-                                    <Upload className="w-3 h-3" /> Cambiar archivo
-                                  </p>
-                                </>
-                              ) : (
-                                <>
-                                  <div className="p-4 md:p-5 bg-gray-100 dark:bg-dark-border rounded-full mb-4 md:mb-5 group-hover:bg-gray-200 dark:group-hover:bg-gray-700 transition-colors">
-                                    <Camera className="w-8 h-8 md:w-10 md:h-10 text-gray-400 dark:text-gray-500 group-hover:text-black dark:group-hover:text-white transition-colors" />
+                                )}
+                                {uploadAttempt?.retryInSeconds && (
+                                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 leading-relaxed">
+                                    {uploadAttempt.lastError} Reintentando en {uploadAttempt.retryInSeconds} s...
                                   </div>
-                                  <p className="mb-2 text-lg md:text-xl text-black dark:text-white font-bold">Tomar Foto / Subir</p>
-                                  <p className="text-sm text-gray-400 max-w-xs mx-auto">Toca para abrir cámara o galería</p>
-                                </>
-                              )}
+                                )}
+                              </div>
+                              <button
+                                onClick={handleCancelUpload}
+                                className="shrink-0 inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-9 px-4 transition-colors"
+                              >
+                                Cancelar
+                              </button>
                             </div>
-                            <input type="file" className="hidden" onChange={handleFileSelect} accept="image/*" />
-                          </label>
+                          )}
                         </div>
+                      </div>
+                    )}
+                    {!canDigitize && (
+                      <div className="rounded-xl border border-black/10 dark:border-dark-border bg-white dark:bg-dark-card p-6 text-sm text-gray-600 dark:text-gray-400 flex items-center gap-3">
+                        <AlertCircle className="w-5 h-5 shrink-0" />
+                        Tu cuenta no tiene permiso para subir planillas.
+                      </div>
+                    )}
 
-                        {uploadError && (
-                          <div className="bg-red-50 dark:bg-red-900/10 border border-google-red/30 text-google-red text-sm p-4 rounded-lg flex items-start gap-3 animate-in fade-in">
-                            <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
-                            <div className="font-medium leading-relaxed">{uploadError}</div>
-                          </div>
-                        )}
+                    <BatchQueuePanel queue={batch} zones={visibleZones} onOpen={handleOpenBatchItem} />
+                    <DraftsPanel drafts={drafts} zones={zoneCatalog.zones} onResume={handleResumeDraft} />
+                    <OutboxPanel outbox={outbox} zones={zoneCatalog.zones} onReview={handleReviewOutboxItem} />
+                  </div>
+                )}
 
-                        <button
-                          onClick={handleUpload}
-                          disabled={isUploading || !selectedFile}
-                          className="inline-flex items-center justify-center rounded-lg text-base font-bold transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white disabled:opacity-50 disabled:pointer-events-none bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-14 px-8 w-full shadow-lg hover:shadow-xl hover:-translate-y-0.5 active:scale-[0.98]"
-                        >
-                          {isUploading ? (
-                            <>
-                              <div className="w-5 h-5 border-2 border-white dark:border-black border-t-transparent rounded-full animate-spin mr-3" />
-                              Procesando...
-                            </>
-                          ) : (
-                            "Procesar Planilla"
-                          )}
-                        </button>
-                      </div>
+                {view === 'editor' && ocrData && draftOffer && (
+                  <div className="mb-6 p-4 rounded-lg border border-google-blue/30 bg-blue-50 dark:bg-blue-900/10 text-sm flex flex-col sm:flex-row sm:items-center gap-3 animate-in fade-in">
+                    <div className="flex-1 leading-relaxed text-black dark:text-white">
+                      <p className="font-bold">Hay un borrador de este registro (editado {formatDraftTime(draftOffer.updatedAt)}).</p>
+                      <p className="text-gray-600 dark:text-gray-300">Retómalo para recuperar tus correcciones. Mientras no elijas, los nuevos cambios no se guardan como borrador.</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={handleDiscardDraftOffer}
+                        className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-9 px-4 transition-colors"
+                      >
+                        Descartar
+                      </button>
+                      <button
+                        onClick={() => handleResumeDraft(draftOffer)}
+                        className="inline-flex items-center justify-center rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-9 px-4 transition-colors"
+                      >
+                        Retomar borrador
+                      </button>
                     </div>
                   </div>
                 )}
@@ -797,9 +1753,18 @@ export default function App() {
                   <MatrixEditor 
                     data={ocrData}
                     imageFile={selectedFile}
+                    api={api}
                     onSave={handleValidationSave}
                     onNotify={showNotification} 
                     onCancel={resetFlow} 
+                    initialCells={editorSeed?.registroId === ocrData.id ? editorSeed.cells : undefined}
+                    initialHeader={editorSeed?.registroId === ocrData.id ? editorSeed.header : undefined}
+                    headerDefaults={planillaHeaderDefaults(ocrData.id)}
+                    onEdited={handleEditorEdited}
+                    source={getRegistroSource(ocrData.id) ?? undefined}
+                    metadata={getRegistroMetadata(ocrData.id) ?? undefined}
+                    zone={editorZone}
+                    template={resolveTemplate(ocrData.plantilla_id, getRegistroTemplate(ocrData.id), editorZone?.templateId)}
                   />
                 )}
 
@@ -815,12 +1780,27 @@ export default function App() {
                     <p className="text-gray-500 text-base md:text-lg mb-8 leading-relaxed">
                       Datos guardados y sincronizados correctamente.
                     </p>
-                    <button 
-                      onClick={resetFlow}
-                      className="inline-flex items-center justify-center rounded-lg text-base font-bold transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black disabled:opacity-50 disabled:pointer-events-none bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-14 px-10 shadow-lg w-full md:w-auto"
-                    >
-                      Nueva Planilla
-                    </button>
+                    <div className="flex flex-col md:flex-row gap-3 w-full md:w-auto">
+                      {batch.readyItems.length > 0 && (
+                        <button 
+                          onClick={() => handleOpenBatchItem(batch.readyItems[0])}
+                          className="inline-flex items-center justify-center rounded-lg text-base font-bold transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-14 px-10 shadow-lg w-full md:w-auto"
+                        >
+                          Validar siguiente ({batch.readyItems.length})
+                          <ChevronRight className="w-5 h-5 ml-1" />
+                        </button>
+                      )}
+                      <button 
+                        onClick={resetFlow}
+                        className={`inline-flex items-center justify-center rounded-lg text-base font-bold transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black disabled:opacity-50 disabled:pointer-events-none h-14 px-10 w-full md:w-auto ${
+                          batch.readyItems.length > 0
+                            ? 'border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card text-black dark:text-white hover:bg-gray-100 dark:hover:bg-dark-hover'
+                            : 'bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 shadow-lg'
+                        }`}
+                      >
+                        {batch.items.length > 0 ? "Volver al Lote" : "Nueva Planilla"}
+                      </button>
+                    </div>
                   </div>
                 )}
               </>
@@ -829,7 +1809,7 @@ export default function App() {
         </main>
 
         {/* MOBILE OVERLAY ACTION MENU (Z-2000 to be absolutely top) */}
-        {isMobileMenuOpen && (
+        {isMobileMenuOpen && canDigitize && (
           <div className="fixed inset-0 z-[2000] flex flex-col justify-end pb-28 items-center px-4 pointer-events-none">
             {/* Backdrop handled by a click handler on a div behind */}
             <div className="fixed inset-0 bg-black/60 backdrop-blur-sm pointer-events-auto" onClick={() => setIsMobileMenuOpen(false)} />
@@ -840,6 +1820,11 @@ export default function App() {
             >
               <div className="w-12 h-1 bg-zinc-800 rounded-full mx-auto opacity-50 mb-2" />
               <h3 className="text-white text-center font-bold text-lg mb-2">Nueva Digitalización</h3>
+              {isBackendDown && (
+                <p className="text-center text-xs font-medium text-red-400 -mt-2">
+                  Servidor {backendHealth.status === 'offline' ? 'sin conexión' : 'inestable'}: la carga podría fallar.
+                </p>
+              )}
 
               <button 
                 onClick={() => { triggerCamera(); setIsMobileMenuOpen(false); }}
@@ -859,7 +1844,7 @@ export default function App() {
         )}
 
         {/* MOBILE BOTTOM FLOATING ACTION BUTTON (md:hidden) - NO BAR CONTAINER */}
-        {!selectedFile && (
+        {canDigitize && !selectedFile && (
           <div className="md:hidden fixed bottom-8 left-0 w-full z-[1001] flex justify-center pointer-events-none">
              <button 
                onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
@@ -878,5 +1863,6 @@ export default function App() {
 
       </div>
     </div>
+    </PermissionsContext.Provider>
   );
 }
\ No newline at end of file
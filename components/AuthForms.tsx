@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle2, Droplets } from 'lucide-react';
+import { ApiClient, describeApiError } from '../services/apiClient';
+import { debugError } from '../services/logger';
+
+// Secondary auth screens rendered in the left column of the dark login layout.
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClass = "w-full h-11 px-3 bg-zinc-900/50 border border-zinc-800 rounded-md text-white placeholder:text-zinc-600 focus:outline-none focus:ring-1 focus:ring-white focus:border-white transition-all text-sm";
+const labelClass = "text-xs font-medium text-zinc-400 uppercase tracking-wide";
+const submitClass = "w-full h-11 bg-white hover:bg-zinc-200 text-black font-bold rounded-md transition-all transform active:scale-[0.99] text-sm mt-2 disabled:opacity-60 disabled:pointer-events-none inline-flex items-center justify-center";
+
+const toDisplayError = (err: unknown) => describeApiError(err, "Error de conexión con el servidor.");
+
+const validatePassword = (password: string, confirmation: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+  }
+  if (password !== confirmation) {
+    return 'Las contraseñas no coinciden.';
+  }
+  return null;
+};
+
+const FormHeader = ({ title, subtitle }: { title: string; subtitle: string }) => (
+  <div className="space-y-2">
+    <div className="h-10 w-10 bg-white text-black rounded-lg flex items-center justify-center mb-6">
+      <Droplets className="w-6 h-6" />
+    </div>
+    <h1 className="text-2xl font-bold tracking-tight text-white">{title}</h1>
+    <p className="text-zinc-400 text-sm">{subtitle}</p>
+  </div>
+);
+
+const FormError = ({ message }: { message: string }) => (
+  <div className="text-red-400 text-xs font-medium flex items-center gap-2 p-3 bg-red-900/10 border border-red-900/20 rounded-md">
+    <AlertCircle className="w-4 h-4 shrink-0" />
+    {message}
+  </div>
+);
+
+const FormSuccess = ({ message }: { message: string }) => (
+  <div className="text-green-400 text-sm font-medium flex items-start gap-2 p-4 bg-green-900/10 border border-green-900/20 rounded-md leading-relaxed">
+    <CheckCircle2 className="w-4 h-4 shrink-0 mt-0.5" />
+    {message}
+  </div>
+);
+
+const BackLink = ({ onBack }: { onBack: () => void }) => (
+  <button
+    type="button"
+    onClick={onBack}
+    className="w-full text-center text-xs text-zinc-500 hover:text-white transition-colors flex items-center justify-center gap-1"
+  >
+    <ArrowLeft className="w-3 h-3" /> Volver a iniciar sesión
+  </button>
+);
+
+const Spinner = () => (
+  <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin mr-2" />
+);
+
+interface AuthFormProps {
+  api: ApiClient;
+  onBack: () => void;
+}
+
+export const ForgotPasswordForm: React.FC<AuthFormProps> = ({ api, onBack }) => {
+  const [identifier, setIdentifier] = useState('');
+  const [error, setError] = useState('');
+  const [isSent, setIsSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!identifier.trim()) {
+      setError('Ingresa tu usuario o email.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await api.requestPasswordReset(identifier.trim());
+      setIsSent(true);
+    } catch (err) {
+      debugError("[Auth] Error solicitando restablecimiento:", err);
+      setError(toDisplayError(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-[350px] space-y-8 animate-in slide-in-left duration-500">
+      <FormHeader title="Recuperar contraseña" subtitle="Te enviaremos un enlace para crear una nueva." />
+
+      {isSent ? (
+        <FormSuccess message="Si la cuenta existe, recibirás un correo con un enlace para restablecer tu contraseña. Revisa tu bandeja de entrada." />
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Usuario o Email</label>
+            <input
+              type="text"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder="usuario o correo@dominio.cl"
+              className={inputClass}
+              autoComplete="username"
+              autoFocus
+            />
+          </div>
+
+          {error && <FormError message={error} />}
+
+          <button type="submit" disabled={isSubmitting} className={submitClass}>
+            {isSubmitting && <Spinner />}
+            Enviar enlace
+          </button>
+        </form>
+      )}
+
+      <BackLink onBack={onBack} />
+    </div>
+  );
+};
+
+interface ResetPasswordFormProps extends AuthFormProps {
+  token: string;
+}
+
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ api, token, onBack }) => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isDone, setIsDone] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const validationError = validatePassword(password, confirmation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await api.confirmPasswordReset(token, password);
+      setIsDone(true);
+    } catch (err) {
+      debugError("[Auth] Error restableciendo contraseña:", err);
+      setError(toDisplayError(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-[350px] space-y-8 animate-in slide-in-left duration-500">
+      <FormHeader title="Nueva contraseña" subtitle="Elige una contraseña para tu cuenta." />
+
+      {isDone ? (
+        <FormSuccess message="Tu contraseña fue actualizada. Ya puedes iniciar sesión." />
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Nueva Contraseña</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="••••••••"
+              className={inputClass}
+              autoComplete="new-password"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Confirmar Contraseña</label>
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="••••••••"
+              className={inputClass}
+              autoComplete="new-password"
+            />
+          </div>
+
+          {error && <FormError message={error} />}
+
+          <button type="submit" disabled={isSubmitting} className={submitClass}>
+            {isSubmitting && <Spinner />}
+            Guardar contraseña
+          </button>
+        </form>
+      )}
+
+      <BackLink onBack={onBack} />
+    </div>
+  );
+};
+
+export const SignUpForm: React.FC<AuthFormProps> = ({ api, onBack }) => {
+  const [form, setForm] = useState({ username: '', name: '', email: '', password: '', confirmation: '', motivo: '' });
+  const [error, setError] = useState('');
+  const [isSent, setIsSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!form.username.trim() || !form.name.trim() || !form.email.trim()) {
+      setError('Usuario, nombre y email son obligatorios.');
+      return;
+    }
+    if (!/^[a-z0-9._-]{3,}$/i.test(form.username.trim())) {
+      setError('El usuario debe tener al menos 3 caracteres (letras, números, . _ -).');
+      return;
+    }
+    const validationError = validatePassword(form.password, form.confirmation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await api.requestSignUp({
+        username: form.username.trim().toLowerCase(),
+        name: form.name.trim(),
+        email: form.email.trim(),
+        password: form.password,
+        motivo: form.motivo.trim() || undefined,
+      });
+      setIsSent(true);
+    } catch (err) {
+      debugError("[Auth] Error en solicitud de registro:", err);
+      setError(toDisplayError(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-[350px] space-y-6 animate-in slide-in-left duration-500">
+      <FormHeader title="Solicitar cuenta" subtitle="Un administrador revisará tu solicitud." />
+
+      {isSent ? (
+        <FormSuccess message="Solicitud enviada. Podrás iniciar sesión cuando un administrador apruebe tu cuenta." />
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className={labelClass}>Usuario</label>
+              <input type="text" value={form.username} onChange={update('username')} className={inputClass} autoComplete="username" autoFocus />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Nombre</label>
+              <input type="text" value={form.name} onChange={update('name')} className={inputClass} autoComplete="name" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Email</label>
+            <input type="email" value={form.email} onChange={update('email')} placeholder="correo@dominio.cl" className={inputClass} autoComplete="email" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className={labelClass}>Contraseña</label>
+              <input type="password" value={form.password} onChange={update('password')} placeholder="••••••••" className={inputClass} autoComplete="new-password" />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Confirmar</label>
+              <input type="password" value={form.confirmation} onChange={update('confirmation')} placeholder="••••••••" className={inputClass} autoComplete="new-password" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Motivo (opcional)</label>
+            <textarea
+              value={form.motivo}
+              onChange={update('motivo')}
+              rows={2}
+              placeholder="Ej: Buzo centro Calbuco"
+              className={`${inputClass} h-auto py-2 resize-none`}
+            />
+          </div>
+
+          {error && <FormError message={error} />}
+
+          <button type="submit" disabled={isSubmitting} className={submitClass}>
+            {isSubmitting && <Spinner />}
+            Enviar solicitud
+          </button>
+        </form>
+      )}
+
+      <BackLink onBack={onBack} />
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { BackendHealth, BackendStatus } from '../services/healthMonitor';
+
+interface BackendStatusBadgeProps {
+  health: BackendHealth;
+  profileName?: string;
+  onClick?: () => void;
+  // Dot + short label only, for the mobile header
+  compact?: boolean;
+}
+
+const STATUS_STYLES: Record<BackendStatus, { label: string; dot: string; text: string }> = {
+  checking: { label: 'Verificando', dot: 'bg-gray-400 animate-pulse', text: 'text-gray-500 dark:text-gray-400' },
+  online: { label: 'En línea', dot: 'bg-google-green', text: 'text-google-green' },
+  degraded: { label: 'Inestable', dot: 'bg-google-yellow animate-pulse', text: 'text-google-yellow' },
+  offline: { label: 'Sin conexión', dot: 'bg-google-red', text: 'text-google-red' },
+};
+
+const BackendStatusBadge: React.FC<BackendStatusBadgeProps> = ({ health, profileName, onClick, compact = false }) => {
+  const style = STATUS_STYLES[health.status];
+  const title = [
+    profileName && `Backend: ${profileName}`,
+    health.latencyMs !== undefined && `Latencia: ${health.latencyMs} ms`,
+    health.version && `Versión: ${health.version}`,
+    health.detail,
+    health.lastCheckedAt && `Última verificación: ${new Date(health.lastCheckedAt).toLocaleTimeString()}`,
+  ].filter(Boolean).join('\n');
+
+  if (compact) {
+    return (
+      <button onClick={onClick} title={title} className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[11px] font-bold ${style.text}`}>
+        <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+        {style.label}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className="w-full flex items-center gap-2 px-3 py-2 rounded-md bg-white dark:bg-dark-card border border-gray-200 dark:border-dark-border text-xs transition-colors hover:border-gray-300 dark:hover:border-gray-600"
+    >
+      <span className={`h-2 w-2 rounded-full shrink-0 ${style.dot}`} />
+      <span className={`font-bold ${style.text}`}>{style.label}</span>
+      <span className="ml-auto text-[10px] font-mono text-gray-400 truncate">
+        {health.status === 'online' || health.status === 'degraded'
+          ? `${health.latencyMs} ms`
+          : profileName}
+      </span>
+    </button>
+  );
+};
+
+export default BackendStatusBadge;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Layers, FileImage, RefreshCw, Trash2, Eye, AlertCircle, CheckCircle2, ChevronRight } from 'lucide-react';
+import { ZoneOption } from '../types';
+import { BatchItem, BatchQueue, BatchStatus, isBatchItemActive } from '../services/batchQueue';
+
+interface BatchQueuePanelProps {
+  queue: BatchQueue;
+  // Zones the user can upload to
+  zones: ZoneOption[];
+  onOpen: (item: BatchItem) => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, { label: string; className: string }> = {
+  waiting: { label: 'En cola', className: 'bg-gray-100 dark:bg-dark-border text-gray-600 dark:text-gray-300' },
+  uploading: { label: 'Subiendo', className: 'bg-blue-50 dark:bg-blue-900/20 text-google-blue' },
+  processing: { label: 'Procesando', className: 'bg-blue-50 dark:bg-blue-900/20 text-google-blue' },
+  ready: { label: 'Lista para validar', className: 'bg-green-50 dark:bg-green-900/20 text-google-green' },
+  validated: { label: 'Validada', className: 'bg-gray-100 dark:bg-dark-border text-gray-500 dark:text-gray-400' },
+  error: { label: 'Error', className: 'bg-red-50 dark:bg-red-900/20 text-google-red' },
+};
+
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ queue, zones, onOpen }) => {
+  if (queue.items.length === 0) return null;
+
+  const zoneName = (id: string) => zones.find(z => z.id === id)?.name ?? `Zona ${id}`;
+  const validatedCount = queue.items.filter(i => i.status === 'validated').length;
+  const nextReady = queue.readyItems[0];
+
+  return (
+    <div className="mt-6 rounded-xl border border-black/10 dark:border-dark-border bg-white dark:bg-dark-card shadow-sm overflow-hidden transition-colors">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 md:px-6 py-4 border-b border-gray-100 dark:border-dark-border">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-black dark:text-white" />
+          <h3 className="font-bold text-black dark:text-white">Lote de planillas</h3>
+          <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+            {validatedCount}/{queue.items.length} validadas
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          {validatedCount > 0 && (
+            <button
+              onClick={queue.clearFinished}
+              className="text-xs font-bold text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white transition-colors"
+            >
+              Quitar validadas
+            </button>
+          )}
+          {nextReady && (
+            <button
+              onClick={() => onOpen(nextReady)}
+              className="inline-flex items-center gap-1 h-8 px-3 rounded-md text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors"
+            >
+              Validar siguiente ({queue.readyItems.length}) <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-dark-border">
+        {queue.items.map(item => {
+          const status = STATUS_LABELS[item.status];
+          const canEditZone = item.status === 'waiting' || item.status === 'error';
+          return (
+            <li key={item.id} className="px-4 md:px-6 py-3 flex items-start gap-3">
+              <div className="p-2 rounded-lg bg-gray-50 dark:bg-dark-border shrink-0">
+                {item.status === 'validated'
+                  ? <CheckCircle2 className="w-4 h-4 text-google-green" />
+                  : <FileImage className="w-4 h-4 text-gray-600 dark:text-gray-300" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-bold text-black dark:text-white truncate">{item.file.name}</span>
+                  <span className={`text-[10px] font-bold uppercase tracking-wide rounded px-1.5 py-0.5 ${status.className}`}>
+                    {status.label}
+                  </span>
+                  {item.source && (
+                    <span className="text-xs text-gray-400">pág. {item.source.page}/{item.source.pageCount}</span>
+                  )}
+                  {item.result && (
+                    <span className="text-xs font-mono text-gray-400">#{item.result.id}</span>
+                  )}
+                </div>
+
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {canEditZone ? (
+                    <select
+                      value={item.zonaId}
+                      onChange={(e) => queue.setZone(item.id, e.target.value)}
+                      className="h-7 rounded-md border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-bg px-2 text-xs font-medium text-black dark:text-white focus:outline-none focus:ring-1 focus:ring-black dark:focus:ring-white"
+                    >
+                      {zones.map(z => <option key={z.id} value={z.id}>{z.name}</option>)}
+                    </select>
+                  ) : (
+                    <>
+                      {zoneName(item.zonaId)}
+                      {item.status === 'processing' && item.estado && ` · ${item.estado.replace(/_/g, ' ')}`}
+                      {isBatchItemActive(item) && item.attempt && item.attempt > 1 && ` · intento ${item.attempt}`}
+                    </>
+                  )}
+                </div>
+
+                {isBatchItemActive(item) && (
+                  <div className="mt-2 h-1.5 w-full bg-gray-200 dark:bg-dark-border rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all duration-300 ${item.status === 'uploading' ? 'bg-black dark:bg-white' : 'bg-google-blue animate-pulse'}`}
+                      style={{ width: `${item.percent}%` }}
+                    />
+                  </div>
+                )}
+
+                {item.error && (
+                  <p className="text-xs text-google-red mt-1 flex items-start gap-1">
+                    <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                    {item.error}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                {item.status === 'ready' && (
+                  <button
+                    onClick={() => onOpen(item)}
+                    className="inline-flex items-center gap-1 h-8 px-3 rounded-md text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors"
+                  >
+                    <Eye className="w-3.5 h-3.5" /> Validar
+                  </button>
+                )}
+                {item.status === 'error' && (
+                  <button
+                    onClick={() => queue.retry(item.id)}
+                    className="p-2 rounded-md text-gray-500 hover:text-black dark:hover:text-white hover:bg-gray-100 dark:hover:bg-dark-hover transition-colors"
+                    title="Reintentar"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                )}
+                {item.status !== 'validated' && (
+                  <button
+                    onClick={() => {
+                      if (item.status !== 'ready' || confirm(`¿Quitar "${item.file.name}" del lote? Su resultado no se ha validado.`)) {
+                        queue.remove(item.id);
+                      }
+                    }}
+                    className="p-2 rounded-md text-gray-400 hover:text-google-red hover:bg-red-50 dark:hover:bg-red-900/10 transition-colors"
+                    title={isBatchItemActive(item) ? 'Cancelar' : 'Quitar'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
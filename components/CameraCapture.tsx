@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Camera, Zap, ZapOff, AlertCircle } from 'lucide-react';
+import { Quad, canvasToFile, context2d } from '../services/imageProcessing';
+import {
+  ANALYSIS_INTERVAL_MS, STEADY_FRAMES_TO_CAPTURE, FramingFeedback,
+  analyzeFraming, guideRect, isTiltLevel, useDeviceTilt,
+} from '../services/cameraGuide';
+import { debugError, debugLog, debugWarn } from '../services/logger';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+  // Falls back to the OS camera (hidden file input)
+  onUseSystemCamera: () => void;
+}
+
+// Preview frames are analyzed at this size; enough to find the sheet
+const FRAME_SIDE = 480;
+// Bubble level travel in px for MAX_BUBBLE_DEG of tilt
+const BUBBLE_TRAVEL = 16;
+const MAX_BUBBLE_DEG = 30;
+
+const describeCameraError = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "No se dio permiso para usar la cámara.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No se encontró una cámara disponible.";
+  if (name === 'NotReadableError') return "La cámara está siendo usada por otra aplicación.";
+  return "No se pudo iniciar la cámara.";
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onUseSystemCamera }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const frameRef = useRef<HTMLCanvasElement | null>(null);
+  const previousQuadRef = useRef<Quad | null>(null);
+  const steadyRef = useRef(0);
+  const capturingRef = useRef(false);
+
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<FramingFeedback | null>(null);
+  const [steadyFrames, setSteadyFrames] = useState(0);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const tilt = useDeviceTilt();
+  // Read from the analysis loop without restarting it
+  const latest = useRef({ tilt, autoCapture, onCapture });
+  latest.current = { tilt, autoCapture, onCapture };
+
+  // Open the rear camera at the highest resolution it offers
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 4096 }, height: { ideal: 4096 } },
+      audio: false,
+    }).then(s => {
+      if (cancelled) {
+        s.getTracks().forEach(t => t.stop());
+        return;
+      }
+      stream = s;
+      const video = videoRef.current;
+      if (!video) return;
+      video.srcObject = s;
+      video.play().catch(err => debugWarn("[Camera] No se pudo iniciar la vista previa:", err));
+    }).catch(err => {
+      debugError("[Camera] Error abriendo la cámara:", err);
+      if (!cancelled) setError(describeCameraError(err));
+    });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || capturingRef.current) return;
+    capturingRef.current = true;
+    setIsCapturing(true);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context2d(canvas).drawImage(video, 0, 0);
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '');
+      const file = await canvasToFile(canvas, `planilla_${stamp}.jpg`);
+      debugLog(`[Camera] Foto capturada (${canvas.width}×${canvas.height}).`);
+      latest.current.onCapture(file);
+    } catch (err) {
+      debugError("[Camera] Error capturando la foto:", err);
+      setError("No se pudo capturar la foto.");
+      capturingRef.current = false;
+      setIsCapturing(false);
+    }
+  };
+
+  // Analyze a downscaled preview frame a few times per second
+  useEffect(() => {
+    if (!videoSize) return;
+    const interval = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || capturingRef.current) return;
+
+      const scale = Math.min(1, FRAME_SIDE / Math.max(video.videoWidth, video.videoHeight));
+      const frame = frameRef.current ?? (frameRef.current = document.createElement('canvas'));
+      frame.width = Math.round(video.videoWidth * scale);
+      frame.height = Math.round(video.videoHeight * scale);
+      context2d(frame).drawImage(video, 0, 0, frame.width, frame.height);
+
+      const result = analyzeFraming(frame, previousQuadRef.current, latest.current.tilt);
+      previousQuadRef.current = result.quad;
+      steadyRef.current = result.state === 'ready' ? steadyRef.current + 1 : 0;
+      setSteadyFrames(steadyRef.current);
+      // Overlay is drawn in video pixels
+      setFeedback({ ...result, quad: result.quad?.map(p => ({ x: p.x / scale, y: p.y / scale })) as Quad | null });
+
+      if (latest.current.autoCapture && steadyRef.current >= STEADY_FRAMES_TO_CAPTURE) capture();
+    }, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [videoSize]);
+
+  const guide = videoSize && guideRect(videoSize.width, videoSize.height);
+  const isReady = feedback?.state === 'ready';
+  const strokeWidth = videoSize ? Math.max(videoSize.width, videoSize.height) / 250 : 1;
+  const level = tilt ? isTiltLevel(tilt) : null;
+  const bubbleOffset = (deg: number) => Math.max(-1, Math.min(1, deg / MAX_BUBBLE_DEG)) * BUBBLE_TRAVEL;
+
+  if (error) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-6 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-sm p-6 border border-black/10 dark:border-dark-border text-center space-y-4">
+          <AlertCircle className="w-10 h-10 text-google-red mx-auto" />
+          <p className="font-bold text-black dark:text-white">{error}</p>
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={onUseSystemCamera}
+              className="inline-flex items-center justify-center gap-2 rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 transition-colors"
+            >
+              <Camera className="w-4 h-4" /> Usar cámara del sistema
+            </button>
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-10 px-4 transition-colors"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col animate-in fade-in duration-200">
+      <div className="relative flex-1 overflow-hidden">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+
+        {/* Same aspect handling as object-cover, so overlay coordinates are video pixels */}
+        {videoSize && guide && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${videoSize.width} ${videoSize.height}`}
+            preserveAspectRatio="xMidYMid slice"
+          >
+            <path
+              fillRule="evenodd"
+              fill="rgba(0,0,0,0.45)"
+              d={`M0 0H${videoSize.width}V${videoSize.height}H0Z M${guide.x} ${guide.y}v${guide.height}h${guide.width}v${-guide.height}Z`}
+            />
+            <rect
+              x={guide.x} y={guide.y} width={guide.width} height={guide.height}
+              fill="none" stroke="white" strokeOpacity={0.8} strokeWidth={strokeWidth} strokeDasharray={`${strokeWidth * 4} ${strokeWidth * 3}`}
+            />
+            {feedback?.quad && (
+              <polygon
+                points={feedback.quad.map(p => `${p.x},${p.y}`).join(' ')}
+                fill={isReady ? 'rgba(52,168,83,0.15)' : 'rgba(251,188,5,0.12)'}
+                stroke={isReady ? '#34A853' : '#FBBC05'}
+                strokeWidth={strokeWidth}
+                strokeLinejoin="round"
+              />
+            )}
+          </svg>
+        )}
+
+        <div className="absolute top-0 inset-x-0 p-4 flex items-start justify-between gap-3 bg-gradient-to-b from-black/60 to-transparent">
+          <button onClick={onCancel} className="p-2 rounded-full bg-black/40 text-white hover:bg-black/60 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+          <div className="flex-1 flex flex-col items-center gap-2">
+            <span className={`text-sm font-bold px-3 py-1.5 rounded-full text-center ${isReady ? 'bg-google-green text-white' : 'bg-black/60 text-white'}`}>
+              {isCapturing ? 'Capturando...' : feedback?.message ?? 'Iniciando cámara...'}
+            </span>
+            {autoCapture && isReady && !isCapturing && (
+              <div className="h-1 w-32 bg-white/20 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-google-green transition-all duration-200"
+                  style={{ width: `${Math.min(100, (steadyFrames / STEADY_FRAMES_TO_CAPTURE) * 100)}%` }}
+                />
+              </div>
+            )}
+          </div>
+          {/* Bubble level; only on devices that report orientation */}
+          {tilt ? (
+            <div
+              title="Nivel"
+              className={`relative h-10 w-10 shrink-0 rounded-full border-2 ${level ? 'border-google-green' : 'border-google-yellow'} bg-black/40`}
+            >
+              <span
+                className={`absolute left-1/2 top-1/2 h-3 w-3 -ml-1.5 -mt-1.5 rounded-full ${level ? 'bg-google-green' : 'bg-google-yellow'}`}
+                style={{ transform: `translate(${bubbleOffset(tilt.gamma)}px, ${bubbleOffset(tilt.beta)}px)` }}
+              />
+            </div>
+          ) : <div className="w-10 shrink-0" />}
+        </div>
+      </div>
+
+      <div className="shrink-0 bg-black px-6 py-5 pb-[max(1.25rem,env(safe-area-inset-bottom))] flex items-center justify-between">
+        <button
+          onClick={() => setAutoCapture(prev => !prev)}
+          className={`inline-flex items-center gap-1.5 text-xs font-bold rounded-full px-3 h-9 transition-colors ${autoCapture ? 'bg-white text-black' : 'bg-white/10 text-white'}`}
+        >
+          {autoCapture ? <Zap className="w-4 h-4" /> : <ZapOff className="w-4 h-4" />}
+          Auto
+        </button>
+        <button
+          onClick={capture}
+          disabled={!videoSize || isCapturing}
+          aria-label="Tomar foto"
+          className={`h-16 w-16 rounded-full border-4 ${isReady ? 'border-google-green' : 'border-white'} flex items-center justify-center disabled:opacity-50 transition-colors`}
+        >
+          <span className="h-12 w-12 rounded-full bg-white" />
+        </button>
+        <button
+          onClick={onUseSystemCamera}
+          className="text-xs font-bold text-white/70 hover:text-white px-3 h-9 transition-colors"
+        >
+          Cámara del sistema
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { TrendingUp, TrendingDown, Minus, Droplets, Home, Activity, Anchor, X, FileText, Calendar } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TrendingUp, TrendingDown, Minus, Droplets, Home, Activity, Anchor, X, FileText, Calendar, MapPin } from 'lucide-react';
 import { BarChart, Bar, LineChart, Line, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { MOCK_DASHBOARD_DATA, DashboardZoneData } from '../types';
+import { MOCK_DASHBOARD_DATA, DashboardZoneData, Zone } from '../types';
+import { usePermissions } from '../services/permissions';
 
 // Component: Dynamically fits map bounds to show all markers
 // Handles resize invalidation and dynamic zooming without artificial constraints
@@ -35,9 +36,36 @@ const MapBoundsController = ({ zones, selectedZone }: { zones: { coords: [number
   return null;
 };
 
-const Dashboard = ({ isDarkMode }: { isDarkMode?: boolean }) => {
-  const [selectedZone, setSelectedZone] = useState<string>('all');
-  const [data, setData] = useState<DashboardZoneData>(MOCK_DASHBOARD_DATA['all']);
+// Marker colors, assigned by position in the catalog
+const ZONE_COLORS = ['#DB4437', '#4285F4', '#0F9D58', '#F4B400', '#AB47BC', '#00ACC1'];
+
+// Zones the demo data does not cover
+const EMPTY_ZONE_DATA: DashboardZoneData = { kpis: [], barData: [], pieData: [] };
+
+interface DashboardProps {
+  isDarkMode?: boolean;
+  // Active zones from the shared catalog
+  catalog: Zone[];
+  // The catalog has not answered yet, or failed to
+  isCatalogLoading?: boolean;
+  catalogError?: string | null;
+}
+
+const Dashboard = ({ isDarkMode, catalog, isCatalogLoading = false, catalogError = null }: DashboardProps) => {
+  const { hasAllZones, filterZones } = usePermissions();
+
+  // Scoped supervisors only get their own zones and never the regional aggregate
+  const zones = useMemo(
+    () => filterZones(catalog).map((z, i) => ({ ...z, color: ZONE_COLORS[i % ZONE_COLORS.length] })),
+    [catalog, filterZones]
+  );
+  // null until a scoped user's zones are known
+  const initialZone = hasAllZones ? 'all' : (zones[0]?.id ?? null);
+
+  const [selectedZone, setSelectedZone] = useState<string | null>(initialZone);
+  const [data, setData] = useState<DashboardZoneData>(
+    initialZone === null ? EMPTY_ZONE_DATA : MOCK_DASHBOARD_DATA[initialZone] || EMPTY_ZONE_DATA
+  );
   
   // Mobile detection state
   const [isMobile, setIsMobile] = useState(false);
@@ -50,9 +78,18 @@ const Dashboard = ({ isDarkMode }: { isDarkMode?: boolean }) => {
   }, []);
 
   useEffect(() => {
-    setData(MOCK_DASHBOARD_DATA[selectedZone] || MOCK_DASHBOARD_DATA['all']);
+    setData(selectedZone === null ? EMPTY_ZONE_DATA : MOCK_DASHBOARD_DATA[selectedZone] || EMPTY_ZONE_DATA);
   }, [selectedZone]);
 
+  // The catalog may arrive (or change) after mount: scoped users start on their
+  // first zone once it is known, and a zone that disappeared falls back to the
+  // default. Only users with every zone ever see the regional aggregate.
+  useEffect(() => {
+    const fallback = hasAllZones ? 'all' : (zones[0]?.id ?? null);
+    const isValid = selectedZone === 'all' ? hasAllZones : zones.some(z => z.id === selectedZone);
+    if (!isValid && selectedZone !== fallback) setSelectedZone(fallback);
+  }, [zones, selectedZone, hasAllZones]);
+
   const getTrendIcon = (trend: string) => {
     if (trend === 'up') return <TrendingUp className="w-4 h-4 text-google-green" />;
     if (trend === 'down') return <TrendingDown className="w-4 h-4 text-google-red" />;
@@ -69,13 +106,7 @@ const Dashboard = ({ isDarkMode }: { isDarkMode?: boolean }) => {
   const COLORS = ['#4285F4', '#DB4437', '#F4B400', '#0F9D58'];
 
   // Initial fallback center (immediately overridden by MapBoundsController)
-  const defaultCenter: [number, number] = [-41.7, -73.0];
-
-  const zones = [
-    { id: 'norte', coords: [-41.4, -72.9] as [number, number], name: 'Centro Norte', color: '#DB4437' },
-    { id: 'calbuco', coords: [-41.7, -73.1] as [number, number], name: 'Arch. Calbuco', color: '#4285F4' },
-    { id: 'chiloe', coords: [-42.5, -73.8] as [number, number], name: 'Centro Chiloé', color: '#0F9D58' },
-  ];
+  const defaultCenter: [number, number] = zones.find(z => z.id === selectedZone)?.coords ?? [-41.7, -73.0];
 
   // Custom Tooltip for Recharts to match Shadcn style
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -116,6 +147,35 @@ const Dashboard = ({ isDarkMode }: { isDarkMode?: boolean }) => {
     );
   };
 
+  if (selectedZone === null) {
+    return (
+      <div className="animate-in fade-in zoom-in duration-300 w-full pb-20 pt-2">
+        <div className="bg-white dark:bg-dark-card border border-gray-200 dark:border-dark-border rounded-xl p-10 shadow-sm flex flex-col items-center text-center gap-3">
+          {isCatalogLoading ? (
+            <>
+              <div className="w-8 h-8 border-2 border-black dark:border-white border-t-transparent rounded-full animate-spin" />
+              <p className="text-sm text-gray-500 dark:text-gray-400">Cargando tus zonas...</p>
+            </>
+          ) : catalogError ? (
+            <>
+              <MapPin className="w-8 h-8 text-gray-400" />
+              <p className="font-bold text-black dark:text-white">No se pudieron cargar tus zonas</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm">{catalogError}</p>
+            </>
+          ) : (
+            <>
+              <MapPin className="w-8 h-8 text-gray-400" />
+              <p className="font-bold text-black dark:text-white">Sin zonas asignadas</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm">
+                Tu cuenta no tiene zonas activas. Pide a un administrador que te asigne una.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="animate-in fade-in zoom-in duration-300 w-full pb-20 pt-2">
       {/* Grid Container */}
@@ -256,7 +316,7 @@ const Dashboard = ({ isDarkMode }: { isDarkMode?: boolean }) => {
             <div className="absolute top-4 right-4 z-[400] bg-white/90 dark:bg-black/80 backdrop-blur px-3 py-1.5 rounded-md shadow-sm border border-gray-200 dark:border-dark-border text-xs font-bold flex items-center gap-2 text-black dark:text-white">
               <div className={`w-2 h-2 rounded-full ${selectedZone === 'all' ? 'bg-google-blue' : 'bg-black dark:bg-white'}`} />
               <span>Vista: {selectedZone === 'all' ? 'Región de los Lagos' : zones.find(z => z.id === selectedZone)?.name || selectedZone}</span>
-              {selectedZone !== 'all' && (
+              {selectedZone !== 'all' && hasAllZones && (
                 <button 
                   onClick={(e) => { e.stopPropagation(); setSelectedZone('all'); }}
                   className="ml-2 p-0.5 hover:bg-gray-100 dark:hover:bg-zinc-800 rounded-full transition-colors text-gray-500 hover:text-black dark:hover:text-white"
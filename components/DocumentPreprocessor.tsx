@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Crop, X, Wand2, ScanLine, RotateCcw, Maximize } from 'lucide-react';
+import {
+  Point, Quad, canvasToFile, detectDocumentCorners, fullFrameQuad, loadSourceImage, preprocessDocument,
+} from '../services/imageProcessing';
+import { getAutoPreprocess, setAutoPreprocess } from '../services/settings';
+import { debugError } from '../services/logger';
+
+interface DocumentPreprocessorProps {
+  file: File;
+  // Receives the corrected image, or the original one when skipped
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+const CORNER_LABELS = ['Superior izquierda', 'Superior derecha', 'Inferior derecha', 'Inferior izquierda'];
+
+// Lets the processing spinner paint before the main thread gets busy
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 30));
+
+const correctedName = (name: string) => `${name.replace(/\.[^.]+$/, '')}_corregida.jpg`;
+
+const DocumentPreprocessor: React.FC<DocumentPreprocessorProps> = ({ file, onConfirm, onCancel }) => {
+  const [source, setSource] = useState<HTMLCanvasElement | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [detectedQuad, setDetectedQuad] = useState<Quad | null>(null);
+  const [deskew, setDeskew] = useState(true);
+  const [enhance, setEnhance] = useState(false);
+  const [autoOpen, setAutoOpen] = useState(getAutoPreprocess);
+  const [isBusy, setIsBusy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<File | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const sourceUrl = useMemo(() => URL.createObjectURL(file), [file]);
+  const previewUrl = useMemo(() => (preview ? URL.createObjectURL(preview) : null), [preview]);
+  useEffect(() => () => URL.revokeObjectURL(sourceUrl), [sourceUrl]);
+  useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+  // Decode and look for the sheet once per file
+  useEffect(() => {
+    let cancelled = false;
+    setIsBusy(true);
+    setError(null);
+    (async () => {
+      try {
+        const canvas = await loadSourceImage(file);
+        await nextFrame();
+        const detected = detectDocumentCorners(canvas);
+        if (cancelled) return;
+        setSource(canvas);
+        setDetectedQuad(detected);
+        setQuad(detected ?? fullFrameQuad(canvas.width, canvas.height));
+      } catch (err) {
+        debugError("[Preprocess] No se pudo leer la imagen:", err);
+        if (!cancelled) setError("No se pudo leer la imagen. Puedes subirla sin corregir.");
+      } finally {
+        if (!cancelled) setIsBusy(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const toSourcePoint = (e: React.PointerEvent): Point | null => {
+    const svg = svgRef.current;
+    if (!svg || !source) return null;
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(((e.clientX - rect.left) / rect.width) * source.width, 0), source.width),
+      y: Math.min(Math.max(((e.clientY - rect.top) / rect.height) * source.height, 0), source.height),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null || !quad) return;
+    const point = toSourcePoint(e);
+    if (!point) return;
+    const next = [...quad] as Quad;
+    next[dragging] = point;
+    setQuad(next);
+  };
+
+  const handleApply = async () => {
+    if (!source || !quad) return;
+    setIsBusy(true);
+    setError(null);
+    await nextFrame();
+    try {
+      const result = preprocessDocument(source, quad, { deskew, enhanceContrast: enhance });
+      setPreview(await canvasToFile(result, correctedName(file.name)));
+    } catch (err: any) {
+      debugError("[Preprocess] Error corrigiendo la imagen:", err);
+      setError(err?.message || "No se pudo corregir la imagen.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAutoOpenChange = (enabled: boolean) => {
+    setAutoOpen(enabled);
+    setAutoPreprocess(enabled);
+  };
+
+  const handleRadius = source ? Math.max(source.width, source.height) * 0.02 : 0;
+  const toggleClass = (active: boolean) => `inline-flex items-center gap-1.5 h-8 px-3 rounded-md text-xs font-bold border transition-colors ${
+    active
+      ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+      : 'bg-white dark:bg-dark-card text-gray-600 dark:text-gray-300 border-gray-200 dark:border-dark-border hover:bg-gray-100 dark:hover:bg-dark-hover'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-2 md:p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-3xl max-h-[95vh] flex flex-col overflow-hidden border border-black/10 dark:border-dark-border transition-colors">
+        <div className="px-4 md:px-6 py-4 border-b border-black/5 dark:border-dark-border flex items-center justify-between shrink-0">
+          <h2 className="text-lg font-bold text-black dark:text-white flex items-center gap-2">
+            <Crop className="w-5 h-5" />
+            {preview ? 'Resultado de la corrección' : 'Ajustar planilla'}
+          </h2>
+          <button onClick={onCancel} className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
+          {!preview && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {detectedQuad || !source
+                ? 'Arrastra las esquinas para que coincidan con los bordes de la hoja.'
+                : 'No se detectó la hoja automáticamente. Arrastra las esquinas hasta los bordes de la planilla.'}
+            </p>
+          )}
+
+          <div className="relative mx-auto w-fit max-w-full bg-gray-100 dark:bg-dark-bg rounded-lg overflow-hidden select-none touch-none">
+            {preview && previewUrl ? (
+              <img src={previewUrl} alt="Planilla corregida" className="block max-h-[60vh] max-w-full" />
+            ) : (
+              <>
+                <img src={sourceUrl} alt="Foto original" className="block max-h-[60vh] max-w-full" draggable={false} />
+                {source && quad && (
+                  <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${source.width} ${source.height}`}
+                    preserveAspectRatio="none"
+                    className="absolute inset-0 w-full h-full"
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => setDragging(null)}
+                    onPointerLeave={() => setDragging(null)}
+                  >
+                    <polygon
+                      points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                      fill="rgba(66,133,244,0.15)"
+                      stroke="#4285F4"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    {quad.map((p, i) => (
+                      <circle
+                        key={i}
+                        cx={p.x}
+                        cy={p.y}
+                        r={handleRadius}
+                        fill={dragging === i ? '#4285F4' : '#ffffff'}
+                        stroke="#4285F4"
+                        strokeWidth={3}
+                        vectorEffect="non-scaling-stroke"
+                        className="cursor-grab"
+                        onPointerDown={(e) => {
+                          (e.target as Element).setPointerCapture?.(e.pointerId);
+                          setDragging(i);
+                        }}
+                      >
+                        <title>{CORNER_LABELS[i]}</title>
+                      </circle>
+                    ))}
+                  </svg>
+                )}
+              </>
+            )}
+            {isBusy && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/60 dark:bg-black/60">
+                <div className="w-8 h-8 border-2 border-black dark:border-white border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+          </div>
+
+          {!preview && source && (
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setDeskew(v => !v)} className={toggleClass(deskew)}>
+                <ScanLine className="w-3.5 h-3.5" /> Enderezar
+              </button>
+              <button onClick={() => setEnhance(v => !v)} className={toggleClass(enhance)}>
+                <Wand2 className="w-3.5 h-3.5" /> Mejorar contraste
+              </button>
+              <span className="flex-1" />
+              {detectedQuad && (
+                <button onClick={() => setQuad(detectedQuad)} className={toggleClass(false)}>
+                  <RotateCcw className="w-3.5 h-3.5" /> Detección automática
+                </button>
+              )}
+              <button onClick={() => setQuad(fullFrameQuad(source.width, source.height, 0))} className={toggleClass(false)}>
+                <Maximize className="w-3.5 h-3.5" /> Imagen completa
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-sm font-medium text-google-red">{error}</p>}
+
+          <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <input type="checkbox" checked={autoOpen} onChange={(e) => handleAutoOpenChange(e.target.checked)} />
+            Abrir este paso al seleccionar una foto
+          </label>
+        </div>
+
+        <div className="px-4 md:px-6 py-4 border-t border-black/5 dark:border-dark-border flex flex-col-reverse sm:flex-row sm:justify-end gap-2 shrink-0">
+          {preview ? (
+            <>
+              <button
+                onClick={() => setPreview(null)}
+                className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-10 px-4 transition-colors"
+              >
+                Volver a ajustar
+              </button>
+              <button
+                onClick={() => onConfirm(preview)}
+                className="inline-flex items-center justify-center rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-5 transition-colors"
+              >
+                Usar imagen corregida
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => onConfirm(file)}
+                className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-10 px-4 transition-colors"
+              >
+                Usar sin corregir
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={isBusy || !source || !quad}
+                className="inline-flex items-center justify-center rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50 disabled:pointer-events-none h-10 px-5 transition-colors"
+              >
+                Aplicar corrección
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPreprocessor;
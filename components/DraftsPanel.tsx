@@ -0,0 +1,60 @@
+import React from 'react';
+import { FilePen, Trash2, Play } from 'lucide-react';
+import { ZoneOption } from '../types';
+import { Drafts, ValidationDraft, formatDraftTime } from '../services/drafts';
+
+interface DraftsPanelProps {
+  drafts: Drafts;
+  zones: ZoneOption[];
+  onResume: (draft: ValidationDraft) => void;
+}
+
+const DraftsPanel: React.FC<DraftsPanelProps> = ({ drafts, zones, onResume }) => {
+  if (drafts.drafts.length === 0) return null;
+
+  const zoneName = (id: string) => zones.find(z => z.id === id)?.name ?? `Zona ${id}`;
+
+  return (
+    <div className="mt-6 rounded-xl border border-black/10 dark:border-dark-border bg-white dark:bg-dark-card shadow-sm overflow-hidden transition-colors">
+      <div className="flex items-center gap-2 px-4 md:px-6 py-4 border-b border-gray-100 dark:border-dark-border">
+        <FilePen className="w-5 h-5 text-black dark:text-white" />
+        <h3 className="font-bold text-black dark:text-white">Validaciones sin terminar</h3>
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-dark-border">
+        {drafts.drafts.map(draft => (
+          <li key={draft.registroId} className="px-4 md:px-6 py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-black dark:text-white truncate">
+                Registro #{draft.registroId}
+                {draft.image && <span className="font-medium text-gray-500 dark:text-gray-400"> · {draft.image.name}</span>}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                {zoneName(draft.zonaId)} · Última edición {formatDraftTime(draft.updatedAt)}
+              </p>
+            </div>
+            <button
+              onClick={() => onResume(draft)}
+              className="inline-flex items-center gap-1 h-8 px-3 rounded-md text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors"
+            >
+              <Play className="w-3.5 h-3.5" /> Retomar
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(`¿Descartar el borrador del registro #${draft.registroId}? Se perderán las correcciones no guardadas.`)) {
+                  drafts.remove(draft.registroId);
+                }
+              }}
+              className="p-2 rounded-md text-gray-400 hover:text-google-red hover:bg-red-50 dark:hover:bg-red-900/10 transition-colors"
+              title="Descartar borrador"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DraftsPanel;
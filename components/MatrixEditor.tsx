@@ -1,21 +1,59 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Save, RotateCcw, AlertCircle, AlertTriangle, ZoomIn, ZoomOut, Eye, EyeOff, Image as ImageIcon, Brain } from 'lucide-react';
-import { MatrixCell, OCRResponse } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Save, RotateCcw, AlertCircle, AlertTriangle, ZoomIn, ZoomOut, Eye, EyeOff, Image as ImageIcon, Brain, FileText, Clock, MapPin, Smartphone, LayoutGrid, Plus } from 'lucide-react';
+import { MatrixCell, OCRResponse, PlanillaHeader, PlanillaTemplate, RegistroSource, TemplateColumn, TrainingFeedbackRequest, Zone } from '../types';
+import { ApiClient, describeApiError, UnauthorizedError } from '../services/apiClient';
+import { usePermissions } from '../services/permissions';
+import { parseRowIndex } from '../services/contract';
+import { describeSource } from '../services/pdf';
+import { PhotoMetadata, formatCaptureTime, formatCoordinates, zoneDistanceWarning } from '../services/photoMetadata';
+import { cleanHeader, headerFromOCR, lowConfidenceFields, validateHeader } from '../services/planillaHeader';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/confidence';
+import {
+  VALUE_TYPE_HINTS, cellsOutsideTemplate, inputModeFor, isValidCellValue, templateRowCount, templateSections,
+} from '../services/templates';
+import PlanillaHeaderForm from './PlanillaHeaderForm';
+import { debugError, debugLog, debugWarn } from '../services/logger';
 
 interface MatrixEditorProps {
   data: OCRResponse;
   imageFile: File | null;
-  onSave: (validatedCells: MatrixCell[]) => Promise<void>;
+  api: ApiClient;
+  onSave: (validatedCells: MatrixCell[], header: PlanillaHeader) => Promise<void>;
   onNotify: (message: string, type: 'success' | 'error') => void;
   onCancel: () => void;
+  // Cells and header from a resumed draft; default to the OCR result
+  initialCells?: MatrixCell[];
+  initialHeader?: PlanillaHeader;
+  // Header values used where the OCR read nothing (e.g. the logged-in diver)
+  headerDefaults?: Partial<PlanillaHeader>;
+  // Called after each user edit (not on load), e.g. to autosave a draft
+  onEdited?: (cells: MatrixCell[], header: PlanillaHeader) => void;
+  // PDF page the registro was created from, if any
+  source?: RegistroSource;
+  // Capture time / place / device sent with the upload, and the zone it was filed under
+  metadata?: PhotoMetadata;
+  zone?: Zone;
+  // Layout of the sheet: rows, columns, grouped headers and value types
+  template: PlanillaTemplate;
 }
 
-const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, onNotify, onCancel }) => {
+const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, api, onSave, onNotify, onCancel, initialCells, initialHeader, headerDefaults, onEdited, source, metadata, zone, template }) => {
+  const { can } = usePermissions();
+
   // Flattened state of cells used for final submission
   const [cells, setCells] = useState<MatrixCell[]>([]);
   // Store original state to compare changes for AI training
   const [originalCells, setOriginalCells] = useState<MatrixCell[]>([]);
+  const [header, setHeader] = useState<PlanillaHeader>(() => initialHeader ?? headerFromOCR(data.resultado_ia.encabezado, headerDefaults ?? {}));
+  // Header errors stay hidden until the first attempt to confirm
+  const [showHeaderErrors, setShowHeaderErrors] = useState(false);
+  const headerRef = useRef<HTMLDivElement>(null);
+  // Rows shown for templates without a fixed row count ("Agregar fila")
+  const [minRows, setMinRows] = useState(1);
   
+  // Set by user edits so loading data does not count as a change
+  const editedRef = useRef(false);
+
   const [isSaving, setIsSaving] = useState(false);
   const [isTraining, setIsTraining] = useState(false);
   
@@ -38,81 +76,68 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
     };
   }, [imageUrl]);
 
-  // Initialize cells when data loads - Adaptation for Bluegrid_OCRv2
+  // Initialize cells when data loads. The API client has already validated the
+  // response and adapted legacy layouts, so `resultado_ia.matriz` is guaranteed.
   useEffect(() => {
-    // Check if data has the nested structure (v2) or flat (legacy safety)
-    let initialCells: MatrixCell[] = [];
-    
-    if (data && data.resultado_ia && data.resultado_ia.matriz) {
-      initialCells = data.resultado_ia.matriz.map(c => ({...c}));
-    } else if (data && (data as any).matriz) {
-      // Fallback for legacy structure if backend reverts
-      initialCells = (data as any).matriz.map((c: any) => ({...c}));
-    }
-
-    setCells(initialCells);
-    // Deep copy for original reference
-    setOriginalCells(JSON.parse(JSON.stringify(initialCells)));
-  }, [data]);
+    const ocrCells: MatrixCell[] = data.resultado_ia.matriz.map(c => ({...c}));
+
+    editedRef.current = false;
+    setCells(initialCells ? initialCells.map(c => ({...c})) : ocrCells);
+    // Defaults are read once per registro; they must not reset what the user typed
+    setHeader(initialHeader ?? headerFromOCR(data.resultado_ia.encabezado, headerDefaults ?? {}));
+    setShowHeaderErrors(false);
+    setMinRows(1);
+    // Deep copy for original reference (always the AI output, for training feedback)
+    setOriginalCells(JSON.parse(JSON.stringify(ocrCells)));
+  }, [data, initialCells, initialHeader]);
 
-  // Helper function to parse "Fila X" to an integer 0-based index
-  const parseRowIndex = (rowLabel: string | number): number => {
-    if (typeof rowLabel === 'number') return rowLabel;
-    
-    // Check if it matches "Fila X" format specifically
-    const matchFila = rowLabel.match(/Fila\s*(\d+)/i);
-    if (matchFila) {
-      // "Fila 1" -> 0, "Fila 10" -> 9
-      return parseInt(matchFila[1], 10) - 1;
-    }
+  useEffect(() => {
+    if (editedRef.current) onEdited?.(cells, header);
+  }, [cells, header]);
 
-    // If it's just a raw number string "0", "1", "10"
-    const matchNum = rowLabel.match(/^(\d+)$/);
-    if (matchNum) {
-      // Treat as 0-based index directly
-      return parseInt(matchNum[1], 10);
-    }
+  const headerErrors = useMemo(() => validateHeader(header), [header]);
+  const lowConfidenceHeader = useMemo(() => lowConfidenceFields(data.resultado_ia.encabezado), [data]);
 
-    return -1; // Invalid row, will be filtered out
+  const handleHeaderChange = (next: PlanillaHeader) => {
+    editedRef.current = true;
+    setHeader(next);
   };
 
-  // --- ROBUST RENDERING LOGIC ---
+  // --- TEMPLATE-DRIVEN RENDERING ---
+  // Rows and columns come from the planilla template. Cells the template has
+  // no place for are kept in `cells` (and submitted) but flagged, not dropped.
+  const rowCount = templateRowCount(template, cells, minRows);
+
   const gridRows = useMemo(() => {
     // 1. Map cells to a dictionary for quick lookup: rowMap[rowIndex][colIndex] = cell
     const rowMap = new Map<number, Map<number, MatrixCell>>();
-    
-    // FIX: Enforce STRICTLY 5 rows (0 to 4).
-    const FIXED_ROW_COUNT = 5;
-    
     cells.forEach(cell => {
       const rIndex = parseRowIndex(cell.fila);
-      
-      // Safety: Only map cells that fit within our fixed visual grid
-      if (rIndex >= 0 && rIndex < FIXED_ROW_COUNT) {
+      if (rIndex >= 0 && rIndex < rowCount) {
         if (!rowMap.has(rIndex)) {
           rowMap.set(rIndex, new Map());
         }
         // Ensure col is treated as number for lookup
-        const cIndex = Number(cell.col);
-        rowMap.get(rIndex)!.set(cIndex, cell);
+        rowMap.get(rIndex)!.set(Number(cell.col), cell);
       }
     });
 
-    // 2. Build the normalized 2D array
+    // 2. Build the normalized 2D array, one entry per template column
     const rows = [];
-    for (let r = 0; r < FIXED_ROW_COUNT; r++) {
-      const cols: (MatrixCell | null)[] = [];
-      // We strictly iterate columns 0 to 4
-      for (let c = 0; c <= 4; c++) {
-        const cell = rowMap.get(r)?.get(c);
-        cols.push(cell || null);
-      }
-      rows.push({ index: r, columns: cols });
+    for (let r = 0; r < rowCount; r++) {
+      rows.push({ index: r, columns: template.columns.map((_, c) => rowMap.get(r)?.get(c) ?? null) });
     }
     return rows;
-  }, [cells]);
+  }, [cells, rowCount, template]);
+
+  const sections = useMemo(() => templateSections(template), [template]);
+  const hasGroups = sections.some(section => section.kind === 'group');
+  const outsideCount = useMemo(() => cellsOutsideTemplate(template, cells).length, [template, cells]);
+  const invalidCount = gridRows.reduce((count, row) => count + row.columns.filter((cell, c) =>
+    cell && !isValidCellValue(template.columns[c].type, cell.valor)).length, 0);
 
   const handleValueChange = (rowIndex: number, colIndex: number, newValue: string) => {
+    editedRef.current = true;
     setCells(prev => {
       // We need to match based on the parsed index
       // We also ensure strict type matching for columns
@@ -132,9 +157,19 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
   };
 
   const handleConfirm = async () => {
+    if (Object.keys(headerErrors).length > 0) {
+      setShowHeaderErrors(true);
+      headerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      onNotify("Complete el encabezado de la planilla antes de confirmar", "error");
+      return;
+    }
+    if (invalidCount > 0) {
+      onNotify(`Corrija ${invalidCount === 1 ? 'la celda marcada' : `las ${invalidCount} celdas marcadas`} en rojo antes de confirmar`, "error");
+      return;
+    }
     setIsSaving(true);
     try {
-      await onSave(cells);
+      await onSave(cells, cleanHeader(header));
     } finally {
       setIsSaving(false);
     }
@@ -169,40 +204,27 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
       // or keep them if backend handles legacy index-based fallback.
       // We send all but log warning if ref_id missing.
       const validCorrections = corrections.filter(c => {
-         if(!c.ref_id) console.warn("Cell missing ref_id:", c);
+         if(!c.ref_id) debugWarn("Cell missing ref_id:", c);
          return true; 
       });
 
-      const payload = {
+      const payload: TrainingFeedbackRequest = {
         zona_id: Number(data.zona_id) || 1,
         usuario_id: 99, // ID fijo
         correcciones: validCorrections
       };
 
-      console.log("[Feedback] Enviando payload v3 (ref_id):", payload);
+      debugLog("[Feedback] Enviando payload v3 (ref_id):", payload);
 
       // 2. Enviar petición POST
-      const baseUrl = localStorage.getItem('bluegrid_api_url') || "";
-      
-      const response = await fetch(`${baseUrl}/api/v1/training/feedback`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'ngrok-skip-browser-warning': 'true'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Error ${response.status}: ${errorText}`);
-      }
+      await api.sendTrainingFeedback(payload);
 
       onNotify("Feedback enviado correctamente (ID Ref)", "success");
 
     } catch (err: any) {
-      console.error("Error enviando feedback:", err);
-      onNotify("Error al enviar feedback: " + err.message, "error");
+      if (err instanceof UnauthorizedError) return;
+      debugError("Error enviando feedback:", err);
+      onNotify("Error al enviar feedback: " + describeApiError(err), "error");
     } finally {
       setIsTraining(false);
     }
@@ -211,6 +233,8 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.5, 4));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.5, 1));
 
+  const zoneWarning = zoneDistanceWarning(metadata, zone);
+
   return (
     <div className="animate-in fade-in zoom-in duration-300 pb-20 w-full">
       {/* Header Toolbar */}
@@ -221,6 +245,16 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
             <span className="bg-gray-100 dark:bg-dark-border text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded text-xs font-mono border border-gray-200 dark:border-dark-border font-bold">
               ID: {data.id}
             </span>
+            <span className="flex items-center gap-1 text-xs font-medium" title="Plantilla">
+              <LayoutGrid className="w-3.5 h-3.5 shrink-0" />
+              {template.name}
+            </span>
+            {source && (
+              <span className="flex items-center gap-1 text-xs font-medium truncate max-w-[16rem]" title={describeSource(source)}>
+                <FileText className="w-3.5 h-3.5 shrink-0" />
+                {describeSource(source)}
+              </span>
+            )}
             <span className="hidden md:inline text-gray-300 dark:text-gray-600">•</span>
             <span className="text-google-yellow flex items-center gap-1 font-bold">
               <AlertTriangle className="w-4 h-4" /> 
@@ -235,6 +269,37 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
                {showImage ? "Ocultar Imagen" : "Ver Imagen"}
             </button>
           </div>
+          {metadata && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center gap-1" title={metadata.capturedAtSource === 'exif' ? 'Fecha de la foto (EXIF)' : 'Fecha del archivo'}>
+                <Clock className="w-3.5 h-3.5" /> {formatCaptureTime(metadata.capturedAt)}
+              </span>
+              {metadata.location ? (
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${metadata.location.lat}&mlon=${metadata.location.lng}#map=14/${metadata.location.lat}/${metadata.location.lng}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  title={metadata.location.source === 'exif' ? 'Ubicación de la foto (EXIF)' : 'Ubicación del dispositivo al subir'}
+                  className="flex items-center gap-1 font-mono hover:text-black dark:hover:text-white hover:underline"
+                >
+                  <MapPin className="w-3.5 h-3.5" /> {formatCoordinates(metadata.location)}
+                  {metadata.location.accuracyM !== undefined && ` ±${metadata.location.accuracyM} m`}
+                </a>
+              ) : (
+                <span className="flex items-center gap-1"><MapPin className="w-3.5 h-3.5" /> Sin ubicación</span>
+              )}
+              {metadata.device && (
+                <span className="flex items-center gap-1 truncate max-w-[16rem]" title={metadata.device}>
+                  <Smartphone className="w-3.5 h-3.5 shrink-0" /> {metadata.device}
+                </span>
+              )}
+            </div>
+          )}
+          {zoneWarning && (
+            <p className="text-xs font-bold text-google-yellow flex items-center gap-1">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> {zoneWarning}
+            </p>
+          )}
         </div>
         <div className="flex gap-3 w-full md:w-auto fixed bottom-20 right-4 md:static md:bottom-auto md:right-auto z-40 justify-end md:justify-start pointer-events-none md:pointer-events-auto">
            {/* Mobile Floating Action Buttons or Desktop Static Buttons */}
@@ -248,6 +313,7 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
           </button>
           
           {/* BOTÓN ENVIAR A DATASET (HUMAN IN THE LOOP) */}
+          {can('send_to_dataset') && (
           <button 
             onClick={handleSendFeedback}
             disabled={isTraining}
@@ -261,7 +327,9 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
             )}
             <span className="hidden md:inline">Enviar a Dataset</span>
           </button>
+          )}
 
+          {can('validate') && (
           <button 
             onClick={handleConfirm}
             disabled={isSaving}
@@ -275,6 +343,7 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
             <span className="hidden md:inline">Confirmar</span>
             <span className="md:hidden">Guardar</span>
           </button>
+          )}
         </div>
       </div>
 
@@ -311,7 +380,23 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
 
         {/* Right Column: Data Editor */}
         <div className="flex-1 w-full min-w-0">
+
+          <div ref={headerRef} className="scroll-mt-40 md:scroll-mt-24">
+            <PlanillaHeaderForm
+              header={header}
+              onChange={handleHeaderChange}
+              errors={showHeaderErrors ? headerErrors : {}}
+              lowConfidence={lowConfidenceHeader}
+            />
+          </div>
           
+          {outsideCount > 0 && (
+            <div className="mb-4 p-3 rounded-lg border border-google-yellow/30 bg-yellow-50 dark:bg-yellow-900/10 text-xs font-medium text-gray-700 dark:text-gray-300 flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0 text-google-yellow" />
+              {outsideCount === 1 ? '1 celda leída' : `${outsideCount} celdas leídas`} por el OCR no {outsideCount === 1 ? 'cabe' : 'caben'} en la plantilla "{template.name}". Se enviarán sin cambios; si la planilla es de otro tipo, elija la plantilla correcta al subirla.
+            </div>
+          )}
+
           {/* --- MOBILE CARD VIEW (Block on md-, Hidden on md+) --- */}
           <div className="md:hidden space-y-4">
             {gridRows.map((row) => (
@@ -321,36 +406,25 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
                   <span className="text-xs font-mono text-gray-400">R#{row.index}</span>
                 </div>
                 
-                <div className="space-y-4">
-                  <div className="grid grid-cols-2 gap-3">
-                    <div className="space-y-1">
-                      <label className="text-[10px] font-bold uppercase text-gray-500 tracking-wide">N° Nidos</label>
-                      {renderMobileInput(row, 0, handleValueChange, originalCells)}
-                    </div>
-                    <div className="space-y-1">
-                      <label className="text-[10px] font-bold uppercase text-gray-500 tracking-wide">N° Cuevas</label>
-                      {renderMobileInput(row, 1, handleValueChange, originalCells)}
+                <div className="grid grid-cols-2 gap-3">
+                  {sections.map((section) => section.kind === 'column' ? (
+                    <div key={section.column.column.key} className={`space-y-1 ${section.column.column.type === 'text' ? 'col-span-2' : ''}`}>
+                      <label className="text-[10px] font-bold uppercase text-gray-500 tracking-wide">{section.column.column.label}</label>
+                      {renderMobileInput(row, section.column.index, section.column.column, handleValueChange, originalCells)}
                     </div>
-                  </div>
-                  
-                  <div className="bg-gray-50 dark:bg-dark-border/30 p-3 rounded-lg border border-gray-100 dark:border-dark-border">
-                    <label className="text-[10px] font-bold uppercase text-google-blue tracking-wide mb-2 block">Captura Hembras</label>
-                    <div className="grid grid-cols-2 gap-3">
-                       <div className="space-y-1">
-                          <label className="text-[10px] font-semibold text-gray-400">Nido</label>
-                          {renderMobileInput(row, 2, handleValueChange, originalCells)}
-                       </div>
-                       <div className="space-y-1">
-                          <label className="text-[10px] font-semibold text-gray-400">Cueva</label>
-                          {renderMobileInput(row, 3, handleValueChange, originalCells)}
-                       </div>
+                  ) : (
+                    <div key={section.group.key} className="col-span-2 bg-gray-50 dark:bg-dark-border/30 p-3 rounded-lg border border-gray-100 dark:border-dark-border">
+                      <label className="text-[10px] font-bold uppercase text-google-blue tracking-wide mb-2 block">{section.group.label}</label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {section.columns.map(({ column, index }) => (
+                          <div key={column.key} className={`space-y-1 ${column.type === 'text' ? 'col-span-2' : ''}`}>
+                            <label className="text-[10px] font-semibold text-gray-400">{column.label}</label>
+                            {renderMobileInput(row, index, column, handleValueChange, originalCells)}
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-
-                  <div className="space-y-1">
-                    <label className="text-[10px] font-bold uppercase text-gray-500 tracking-wide">Captura Total</label>
-                    {renderMobileInput(row, 4, handleValueChange, originalCells)}
-                  </div>
+                  ))}
                 </div>
               </div>
             ))}
@@ -361,46 +435,69 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
             <table className="w-full border-collapse min-w-[800px] lg:min-w-full">
               <thead className="bg-gray-50/50 dark:bg-dark-border/50 text-gray-700 dark:text-gray-300">
                 <tr>
-                  <th rowSpan={2} className="border-b border-r border-gray-200 dark:border-dark-border p-3 align-middle w-[18%]">
-                    <div className="text-sm font-black uppercase leading-snug text-gray-800 dark:text-gray-100">N° NIDOS</div>
-                    <div className="text-[11px] font-bold text-gray-400 uppercase mt-1 leading-tight">
-                      (Hembras c/ Huevos)
-                    </div>
-                  </th>
-                  <th rowSpan={2} className="border-b border-r border-gray-200 dark:border-dark-border p-3 align-middle w-[18%]">
-                    <div className="text-sm font-black uppercase leading-snug text-gray-800 dark:text-gray-100">N° CUEVAS<br/>CUBIERTAS</div>
-                  </th>
-                  <th colSpan={2} className="border-b border-r border-gray-200 dark:border-dark-border p-2 align-middle w-[40%]">
-                    <div className="text-sm font-black uppercase text-gray-800 dark:text-gray-100">CAPTURA HEMBRAS</div>
-                    <div className="text-[11px] font-bold text-gray-400 uppercase mt-0.5">(Marque)</div>
-                  </th>
-                  <th rowSpan={2} className="border-b border-gray-200 dark:border-dark-border p-3 align-middle w-[24%]">
-                    <div className="text-sm font-black uppercase leading-snug text-gray-800 dark:text-gray-100">CAPTURA<br/>N° TOTAL PULPOS</div>
-                  </th>
-                </tr>
-                <tr>
-                  <th className="border-b border-r border-gray-200 dark:border-dark-border p-2 align-middle w-[20%] bg-gray-100/50 dark:bg-dark-bg/50">
-                    <div className="text-xs font-black uppercase text-gray-600 dark:text-gray-400">NIDO</div>
-                  </th>
-                  <th className="border-b border-r border-gray-200 dark:border-dark-border p-2 align-middle w-[20%] bg-gray-100/50 dark:bg-dark-bg/50">
-                    <div className="text-xs font-black uppercase text-gray-600 dark:text-gray-400">CUEVA</div>
-                  </th>
+                  {sections.map((section, i) => {
+                    const isLastSection = i === sections.length - 1;
+                    if (section.kind === 'column') {
+                      const { column } = section.column;
+                      return (
+                        <th
+                          key={column.key}
+                          rowSpan={hasGroups ? 2 : 1}
+                          title={VALUE_TYPE_HINTS[column.type]}
+                          style={{ width: `${100 / template.columns.length}%` }}
+                          className={`border-b ${!isLastSection ? 'border-r' : ''} border-gray-200 dark:border-dark-border p-3 align-middle`}
+                        >
+                          <div className="text-sm font-black uppercase leading-snug text-gray-800 dark:text-gray-100">{column.label}</div>
+                          {column.hint && (
+                            <div className="text-[11px] font-bold text-gray-400 uppercase mt-1 leading-tight">{column.hint}</div>
+                          )}
+                        </th>
+                      );
+                    }
+                    return (
+                      <th
+                        key={section.group.key}
+                        colSpan={section.columns.length}
+                        className={`border-b ${!isLastSection ? 'border-r' : ''} border-gray-200 dark:border-dark-border p-2 align-middle`}
+                      >
+                        <div className="text-sm font-black uppercase text-gray-800 dark:text-gray-100">{section.group.label}</div>
+                        {section.group.hint && (
+                          <div className="text-[11px] font-bold text-gray-400 uppercase mt-0.5">{section.group.hint}</div>
+                        )}
+                      </th>
+                    );
+                  })}
                 </tr>
+                {hasGroups && (
+                  <tr>
+                    {sections.flatMap(section => section.kind === 'group' ? section.columns : []).map(({ column, index }) => (
+                      <th
+                        key={column.key}
+                        title={VALUE_TYPE_HINTS[column.type]}
+                        style={{ width: `${100 / template.columns.length}%` }}
+                        className={`border-b ${index < template.columns.length - 1 ? 'border-r' : ''} border-gray-200 dark:border-dark-border p-2 align-middle bg-gray-100/50 dark:bg-dark-bg/50`}
+                      >
+                        <div className="text-xs font-black uppercase text-gray-600 dark:text-gray-400">{column.label}</div>
+                      </th>
+                    ))}
+                  </tr>
+                )}
               </thead>
               
               <tbody className="divide-y divide-gray-100 dark:divide-dark-border/50">
                 {gridRows.map((row) => (
                   <tr key={`row-${row.index}`} className="hover:bg-gray-50/80 dark:hover:bg-dark-hover/50 transition-colors group">
                     {row.columns.map((cell, colIndex) => {
+                      const column = template.columns[colIndex];
                       // Check strictly for low confidence
-                      const isLowConfidence = cell ? cell.confianza < 0.85 : false;
+                      const isLowConfidence = cell ? cell.confianza < LOW_CONFIDENCE_THRESHOLD : false;
                       const cellValue = cell ? cell.valor : "";
-                      const isLastCol = colIndex === 4;
+                      const isInvalid = !isValidCellValue(column.type, cellValue);
+                      const isLastCol = colIndex === template.columns.length - 1;
                       
                       // Find original value for data-original attribute
                       const originalCell = originalCells.find(oc => 
-                         (typeof oc.fila === 'string' ? parseInt(oc.fila.match(/(\d+)/)?.[1] || "0") - 1 : oc.fila) === row.index && 
-                         Number(oc.col) === colIndex
+                         parseRowIndex(oc.fila) === row.index && Number(oc.col) === colIndex
                       );
 
                       return (
@@ -408,28 +505,35 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
                           key={`cell-${row.index}-${colIndex}`} 
                           className={`
                             border-b ${!isLastCol ? 'border-r' : ''} border-gray-200 dark:border-dark-border p-0 h-16 relative
-                            ${isLowConfidence ? 'bg-yellow-50 dark:bg-yellow-900/10' : 'bg-white dark:bg-dark-card'}
+                            ${isInvalid ? 'bg-red-50 dark:bg-red-900/10' : isLowConfidence ? 'bg-yellow-50 dark:bg-yellow-900/10' : 'bg-white dark:bg-dark-card'}
                           `}
                         >
                           <input
                             type="text"
+                            inputMode={inputModeFor(column.type)}
                             value={cellValue}
                             onChange={(e) => handleValueChange(row.index, colIndex, e.target.value)}
                             // Metadata for DOM scraping / Training feedback
                             data-fila={row.index}
                             data-col={colIndex}
+                            data-key={column.key}
                             data-original={originalCell?.valor || ""}
                             data-ref-id={cell?.ref_id || ""}
                             // Removed data-img as per new lightweight architecture
                             className={`
-                              w-full h-full text-center text-xl font-bold font-mono bg-transparent 
+                              w-full h-full bg-transparent 
                               border-none outline-none focus:ring-2 focus:ring-inset focus:ring-black/10 dark:focus:ring-white/10 focus:bg-white dark:focus:bg-dark-hover
                               transition-all placeholder-gray-200 dark:placeholder-gray-700
-                              ${isLowConfidence ? 'text-google-yellow bg-yellow-100/20 dark:bg-yellow-900/10' : 'text-gray-800 dark:text-gray-100'}
-                              ${cellValue.toUpperCase() === 'X' ? 'text-2xl text-gray-600 dark:text-gray-400' : ''}
+                              ${column.type === 'text' ? 'text-left px-3 text-sm font-medium' : 'text-center text-xl font-bold font-mono'}
+                              ${isInvalid ? 'text-google-red' : isLowConfidence ? 'text-google-yellow bg-yellow-100/20 dark:bg-yellow-900/10' : 'text-gray-800 dark:text-gray-100'}
+                              ${column.type === 'mark' && cellValue.toUpperCase() === 'X' ? 'text-2xl text-gray-600 dark:text-gray-400' : ''}
                             `}
                           />
-                          {isLowConfidence && cellValue !== "" && (
+                          {isInvalid ? (
+                            <div className="absolute top-1.5 right-1.5 z-10" title={`Valor no válido: ${VALUE_TYPE_HINTS[column.type]}`}>
+                              <AlertCircle className="w-3.5 h-3.5 text-google-red" />
+                            </div>
+                          ) : isLowConfidence && cellValue !== "" && (
                             <div className="absolute top-1.5 right-1.5 z-10" title={`Confianza baja: ${Math.round((cell?.confianza || 0) * 100)}%`}>
                               <AlertCircle className="w-3.5 h-3.5 text-google-yellow" />
                             </div>
@@ -443,6 +547,15 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
             </table>
           </div>
 
+          {template.rows === null && (
+            <button
+              onClick={() => setMinRows(rowCount + 1)}
+              className="mt-4 w-full inline-flex items-center justify-center gap-2 rounded-lg border border-dashed border-gray-300 dark:border-dark-border text-sm font-bold text-gray-600 dark:text-gray-300 hover:bg-white dark:hover:bg-dark-card hover:text-black dark:hover:text-white h-11 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Agregar fila
+            </button>
+          )}
+
           <div className="mt-6 rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card p-4 flex items-start gap-3 shadow-sm transition-colors">
             <div className="p-2 bg-gray-50 dark:bg-dark-border rounded-full shrink-0">
                <AlertCircle className="h-5 w-5 text-gray-600 dark:text-gray-400" />
@@ -452,6 +565,7 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
               <p className="leading-relaxed">
                 Compare los datos extraídos con la imagen de referencia.
                 Las celdas marcadas en <span className="inline-flex items-center bg-yellow-100 dark:bg-yellow-900/30 text-gray-800 dark:text-yellow-200 px-2 py-0.5 rounded-md border border-yellow-200 dark:border-yellow-700 font-bold text-xs mx-1">AMARILLO</span> indican baja confianza del sistema OCR.
+                Las marcadas en <span className="inline-flex items-center bg-red-50 dark:bg-red-900/20 text-google-red px-2 py-0.5 rounded-md border border-google-red/30 font-bold text-xs mx-1">ROJO</span> tienen un valor que no corresponde a su columna.
               </p>
             </div>
           </div>
@@ -465,41 +579,51 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ data, imageFile, onSave, on
 function renderMobileInput(
   row: {index: number, columns: (MatrixCell | null)[]}, 
   colIndex: number, 
+  column: TemplateColumn,
   onChange: (r: number, c: number, v: string) => void,
   originalCells: MatrixCell[]
 ) {
   const cell = row.columns[colIndex];
-  const isLowConfidence = cell ? cell.confianza < 0.85 : false;
+  const isLowConfidence = cell ? cell.confianza < LOW_CONFIDENCE_THRESHOLD : false;
   const val = cell ? cell.valor : "";
+  const isInvalid = !isValidCellValue(column.type, val);
   
   // Find original value for data-original attribute
   const originalCell = originalCells.find(oc => 
-     (typeof oc.fila === 'string' ? parseInt(oc.fila.match(/(\d+)/)?.[1] || "0") - 1 : oc.fila) === row.index && 
-     Number(oc.col) === colIndex
+     parseRowIndex(oc.fila) === row.index && Number(oc.col) === colIndex
   );
 
   return (
     <div className="relative">
       <input
         type="text"
+        inputMode={inputModeFor(column.type)}
         value={val}
         onChange={(e) => onChange(row.index, colIndex, e.target.value)}
         // Metadata for DOM scraping / Training feedback
         data-fila={row.index}
         data-col={colIndex}
+        data-key={column.key}
         data-original={originalCell?.valor || ""}
         data-ref-id={cell?.ref_id || ""}
         // Removed data-img for lightweight architecture
         className={`
-          w-full h-12 text-center text-lg font-bold font-mono rounded-lg border 
+          w-full h-12 rounded-lg border 
           focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white transition-all
-          ${isLowConfidence 
-            ? 'bg-yellow-50 dark:bg-yellow-900/10 border-yellow-200 dark:border-yellow-800 text-google-yellow' 
-            : 'bg-gray-50 dark:bg-dark-bg border-gray-200 dark:border-dark-border text-black dark:text-white'
+          ${column.type === 'text' ? 'text-left px-3 text-sm font-medium' : 'text-center text-lg font-bold font-mono'}
+          ${isInvalid
+            ? 'bg-red-50 dark:bg-red-900/10 border-google-red/40 text-google-red'
+            : isLowConfidence 
+              ? 'bg-yellow-50 dark:bg-yellow-900/10 border-yellow-200 dark:border-yellow-800 text-google-yellow' 
+              : 'bg-gray-50 dark:bg-dark-bg border-gray-200 dark:border-dark-border text-black dark:text-white'
           }
         `}
       />
-      {isLowConfidence && val !== "" && (
+      {isInvalid ? (
+        <div className="absolute top-1 right-1" title={`Valor no válido: ${VALUE_TYPE_HINTS[column.type]}`}>
+          <AlertCircle className="w-3 h-3 text-google-red" />
+        </div>
+      ) : isLowConfidence && val !== "" && (
         <div className="absolute top-1 right-1">
           <AlertCircle className="w-3 h-3 text-google-yellow" />
         </div>
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Inbox, FileImage, ClipboardCheck, RefreshCw, Trash2, Eye, AlertCircle } from 'lucide-react';
+import { ZoneOption } from '../types';
+import { Outbox, OutboxItem, OutboxStatus, OutboxUpload } from '../services/outbox';
+
+interface OutboxPanelProps {
+  outbox: Outbox;
+  zones: ZoneOption[];
+  // Opens a processed upload in the editor
+  onReview: (item: OutboxUpload) => void;
+}
+
+const STATUS_LABELS: Record<OutboxStatus, { label: string; className: string }> = {
+  pending: { label: 'En espera', className: 'bg-gray-100 dark:bg-dark-border text-gray-600 dark:text-gray-300' },
+  syncing: { label: 'Enviando...', className: 'bg-blue-50 dark:bg-blue-900/20 text-google-blue' },
+  error: { label: 'Error', className: 'bg-red-50 dark:bg-red-900/20 text-google-red' },
+  ready: { label: 'Lista para revisar', className: 'bg-green-50 dark:bg-green-900/20 text-google-green' },
+};
+
+const describeItem = (item: OutboxItem) =>
+  item.kind === 'upload' ? item.file.name : `Validación registro #${item.registroId}`;
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ outbox, zones, onReview }) => {
+  if (outbox.items.length === 0) return null;
+
+  const zoneName = (id: string) => zones.find(z => z.id === id)?.name ?? `Zona ${id}`;
+  const isSyncing = outbox.items.some(i => i.status === 'syncing');
+
+  return (
+    <div className="mt-6 rounded-xl border border-black/10 dark:border-dark-border bg-white dark:bg-dark-card shadow-sm overflow-hidden transition-colors">
+      <div className="flex items-center justify-between px-4 md:px-6 py-4 border-b border-gray-100 dark:border-dark-border">
+        <div className="flex items-center gap-2">
+          <Inbox className="w-5 h-5 text-black dark:text-white" />
+          <h3 className="font-bold text-black dark:text-white">Bandeja de Salida</h3>
+          {outbox.pendingCount > 0 && (
+            <span className="text-xs font-bold bg-black dark:bg-white text-white dark:text-black rounded-full px-2 py-0.5">
+              {outbox.pendingCount} pendiente{outbox.pendingCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={outbox.syncNow}
+          disabled={isSyncing}
+          className="inline-flex items-center gap-1.5 text-xs font-bold text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isSyncing ? 'animate-spin' : ''}`} />
+          Sincronizar
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-dark-border">
+        {outbox.items.map(item => {
+          const status = STATUS_LABELS[item.status];
+          return (
+            <li key={item.id} className="px-4 md:px-6 py-3 flex items-start gap-3">
+              <div className="p-2 rounded-lg bg-gray-50 dark:bg-dark-border shrink-0">
+                {item.kind === 'upload'
+                  ? <FileImage className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                  : <ClipboardCheck className="w-4 h-4 text-gray-600 dark:text-gray-300" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-bold text-black dark:text-white truncate">{describeItem(item)}</span>
+                  <span className={`text-[10px] font-bold uppercase tracking-wide rounded px-1.5 py-0.5 ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  {zoneName(item.zonaId)} · {new Date(item.createdAt).toLocaleString()}
+                  {item.attempts > 0 && ` · ${item.attempts} intento${item.attempts === 1 ? '' : 's'}`}
+                </p>
+                {item.lastError && item.status !== 'ready' && (
+                  <p className="text-xs text-google-red mt-1 flex items-start gap-1">
+                    <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                    {item.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {item.kind === 'upload' && item.status === 'ready' && (
+                  <button
+                    onClick={() => onReview(item)}
+                    className="inline-flex items-center gap-1 h-8 px-3 rounded-md text-xs font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors"
+                  >
+                    <Eye className="w-3.5 h-3.5" /> Revisar
+                  </button>
+                )}
+                {(item.status === 'error' || item.status === 'pending') && (
+                  <button
+                    onClick={() => outbox.retry(item.id)}
+                    className="p-2 rounded-md text-gray-500 hover:text-black dark:hover:text-white hover:bg-gray-100 dark:hover:bg-dark-hover transition-colors"
+                    title="Reintentar"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                )}
+                {item.status !== 'syncing' && (
+                  <button
+                    onClick={() => {
+                      if (confirm(`¿Eliminar "${describeItem(item)}" de la bandeja? Se perderá lo que no se haya enviado.`)) {
+                        outbox.remove(item.id);
+                      }
+                    }}
+                    className="p-2 rounded-md text-gray-400 hover:text-google-red hover:bg-red-50 dark:hover:bg-red-900/10 transition-colors"
+                    title="Eliminar"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default OutboxPanel;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, X, Check } from 'lucide-react';
+import { PdfDocument, PdfPage, openPdf } from '../services/pdf';
+import { debugError } from '../services/logger';
+
+interface PdfPagePickerProps {
+  file: File;
+  // Selected pages rendered as images, in page order
+  onConfirm: (pages: PdfPage[]) => void;
+  onCancel: () => void;
+}
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, onConfirm, onCancel }) => {
+  const [pdf, setPdf] = useState<PdfDocument | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const pdfRef = useRef<PdfDocument | null>(null);
+
+  // Open the document, then render thumbnails one by one so the grid fills progressively
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const doc = await openPdf(file);
+        if (cancelled) {
+          doc.close();
+          return;
+        }
+        pdfRef.current = doc;
+        setPdf(doc);
+        setSelected(new Set(Array.from({ length: doc.pageCount }, (_, i) => i + 1)));
+        for (let page = 1; page <= doc.pageCount && !cancelled; page++) {
+          const url = await doc.renderThumbnail(page);
+          if (!cancelled) setThumbnails(prev => ({ ...prev, [page]: url }));
+        }
+      } catch (err) {
+        debugError("[PDF] No se pudo abrir el archivo:", err);
+        if (!cancelled) setError("No se pudo abrir el PDF. Verifica que no esté dañado ni protegido con contraseña.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+      pdfRef.current?.close();
+      pdfRef.current = null;
+    };
+  }, [file]);
+
+  const togglePage = (page: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(page)) next.delete(page);
+      else next.add(page);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!pdf || selected.size === 0) return;
+    const pages = Array.from(selected).sort((a, b) => a - b);
+    try {
+      const rendered = await pdf.renderPages(pages, (done, total) => setProgress({ done, total }));
+      onConfirm(rendered);
+    } catch (err) {
+      debugError("[PDF] Error renderizando páginas:", err);
+      setError("No se pudieron preparar las páginas seleccionadas.");
+      setProgress(null);
+    }
+  };
+
+  const pageNumbers = pdf ? Array.from({ length: pdf.pageCount }, (_, i) => i + 1) : [];
+  const isRendering = progress !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-2 md:p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-3xl max-h-[95vh] flex flex-col overflow-hidden border border-black/10 dark:border-dark-border transition-colors">
+        <div className="px-4 md:px-6 py-4 border-b border-black/5 dark:border-dark-border flex items-center justify-between shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-black dark:text-white flex items-center gap-2">
+              <FileText className="w-5 h-5 shrink-0" />
+              Seleccionar páginas
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {file.name}{pdf && ` · ${pdf.pageCount} página${pdf.pageCount === 1 ? '' : 's'}`}
+            </p>
+          </div>
+          <button onClick={onCancel} disabled={isRendering} className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover disabled:opacity-50 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-6">
+          {error ? (
+            <p className="text-sm font-medium text-google-red">{error}</p>
+          ) : !pdf ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="w-8 h-8 border-2 border-black dark:border-white border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4 text-xs">
+                <span className="font-medium text-gray-500 dark:text-gray-400">
+                  Cada página seleccionada se procesa como una planilla independiente.
+                </span>
+                <div className="flex gap-3 shrink-0 font-bold">
+                  <button onClick={() => setSelected(new Set(pageNumbers))} className="text-google-blue hover:underline">Todas</button>
+                  <button onClick={() => setSelected(new Set())} className="text-gray-500 hover:underline">Ninguna</button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                {pageNumbers.map(page => {
+                  const isSelected = selected.has(page);
+                  return (
+                    <button
+                      key={page}
+                      onClick={() => togglePage(page)}
+                      disabled={isRendering}
+                      className={`relative rounded-lg border-2 overflow-hidden bg-gray-50 dark:bg-dark-bg aspect-[3/4] flex items-center justify-center transition-all ${
+                        isSelected ? 'border-black dark:border-white' : 'border-transparent opacity-60 hover:opacity-100'
+                      }`}
+                    >
+                      {thumbnails[page]
+                        ? <img src={thumbnails[page]} alt={`Página ${page}`} className="max-w-full max-h-full object-contain" />
+                        : <div className="w-5 h-5 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />}
+                      <span className="absolute bottom-1 left-1 text-[10px] font-bold bg-black/70 text-white rounded px-1.5 py-0.5">
+                        {page}
+                      </span>
+                      {isSelected && (
+                        <span className="absolute top-1 right-1 h-5 w-5 rounded-full bg-black dark:bg-white text-white dark:text-black flex items-center justify-center">
+                          <Check className="w-3 h-3" />
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-4 md:px-6 py-4 border-t border-black/5 dark:border-dark-border flex flex-col-reverse sm:flex-row sm:items-center sm:justify-end gap-2 shrink-0">
+          {isRendering && (
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 sm:mr-auto">
+              Preparando página {Math.min(progress.done + 1, progress.total)} de {progress.total}...
+            </span>
+          )}
+          <button
+            onClick={onCancel}
+            disabled={isRendering}
+            className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 disabled:opacity-50 h-10 px-4 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!pdf || selected.size === 0 || isRendering}
+            className="inline-flex items-center justify-center rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50 disabled:pointer-events-none h-10 px-5 transition-colors"
+          >
+            Procesar {selected.size} página{selected.size === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { AlertCircle, ClipboardList } from 'lucide-react';
+import { PlanillaHeader, SeaCondition } from '../types';
+import { HeaderErrors, MAX_DEPTH_M, MAX_OBSERVATIONS_LENGTH, SEA_CONDITIONS, toDateInput } from '../services/planillaHeader';
+
+interface PlanillaHeaderFormProps {
+  header: PlanillaHeader;
+  onChange: (header: PlanillaHeader) => void;
+  // Only shown once the user tried to confirm
+  errors: HeaderErrors;
+  // Fields prefilled by a doubtful OCR read
+  lowConfidence: Set<keyof PlanillaHeader>;
+}
+
+const PlanillaHeaderForm: React.FC<PlanillaHeaderFormProps> = ({ header, onChange, errors, lowConfidence }) => {
+  const set = <K extends keyof PlanillaHeader>(key: K, value: PlanillaHeader[K]) => onChange({ ...header, [key]: value });
+
+  const inputClass = (key: keyof PlanillaHeader) => `
+    flex h-10 w-full rounded-md border px-3 py-2 text-sm text-black dark:text-white
+    focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white
+    ${errors[key]
+      ? 'border-google-red bg-white dark:bg-dark-bg'
+      : lowConfidence.has(key)
+        ? 'border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/10'
+        : 'border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg'}
+  `;
+
+  const field = (key: keyof PlanillaHeader, label: string, input: React.ReactNode, className = '') => (
+    <div className={`space-y-1 ${className}`}>
+      <label className="text-[10px] font-bold uppercase text-gray-500 tracking-wide flex items-center gap-1">
+        {label}
+        {lowConfidence.has(key) && !errors[key] && (
+          <span title="Leído por OCR con confianza baja"><AlertCircle className="w-3 h-3 text-google-yellow" /></span>
+        )}
+      </label>
+      {input}
+      {errors[key] && <p className="text-xs font-medium text-google-red">{errors[key]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="mb-6 rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card shadow-sm p-4 transition-colors">
+      <h3 className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-2 uppercase tracking-wider mb-4">
+        <ClipboardList className="w-4 h-4" />
+        Encabezado de la Planilla
+      </h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {field('fecha_buceo', 'Fecha de buceo', (
+          <input
+            type="date"
+            value={header.fecha_buceo}
+            max={toDateInput(new Date())}
+            onChange={(e) => set('fecha_buceo', e.target.value)}
+            className={inputClass('fecha_buceo')}
+          />
+        ))}
+        {field('buzo', 'Buzo', (
+          <input
+            type="text"
+            value={header.buzo}
+            onChange={(e) => set('buzo', e.target.value)}
+            className={inputClass('buzo')}
+          />
+        ))}
+        {field('embarcacion', 'Embarcación', (
+          <input
+            type="text"
+            value={header.embarcacion}
+            onChange={(e) => set('embarcacion', e.target.value)}
+            className={inputClass('embarcacion')}
+          />
+        ))}
+        {field('profundidad_m', 'Profundidad (m)', (
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={MAX_DEPTH_M}
+            step={0.5}
+            value={header.profundidad_m ?? ''}
+            onChange={(e) => set('profundidad_m', e.target.value === '' ? null : Number(e.target.value))}
+            className={`${inputClass('profundidad_m')} font-mono`}
+          />
+        ))}
+        {field('condiciones_mar', 'Condiciones del mar', (
+          <select
+            value={header.condiciones_mar}
+            onChange={(e) => set('condiciones_mar', e.target.value as SeaCondition | '')}
+            className={inputClass('condiciones_mar')}
+          >
+            <option value="">Seleccione...</option>
+            {SEA_CONDITIONS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+        ))}
+        {field('observaciones', 'Observaciones', (
+          <>
+            <textarea
+              rows={2}
+              value={header.observaciones}
+              onChange={(e) => set('observaciones', e.target.value)}
+              className={`${inputClass('observaciones')} h-auto resize-y`}
+            />
+            <p className={`text-[10px] text-right ${header.observaciones.length > MAX_OBSERVATIONS_LENGTH ? 'text-google-red font-bold' : 'text-gray-400'}`}>
+              {header.observaciones.length}/{MAX_OBSERVATIONS_LENGTH}
+            </p>
+          </>
+        ), 'sm:col-span-2 lg:col-span-3')}
+      </div>
+    </div>
+  );
+};
+
+export default PlanillaHeaderForm;
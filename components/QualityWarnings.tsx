@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertTriangle, Camera, CheckCircle2 } from 'lucide-react';
+import { QualityReport } from '../services/imageQuality';
+
+interface QualityWarningsProps {
+  // null while the photo is being analyzed
+  report: QualityReport | null;
+  overridden: boolean;
+  onRetake: () => void;
+  onOverride: () => void;
+}
+
+const QualityWarnings: React.FC<QualityWarningsProps> = ({ report, overridden, onRetake, onOverride }) => {
+  if (!report) {
+    return (
+      <div className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <div className="w-3.5 h-3.5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+        Revisando calidad de la imagen...
+      </div>
+    );
+  }
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs font-medium text-google-green">
+        <CheckCircle2 className="w-4 h-4" />
+        Calidad de imagen adecuada ({report.width}×{report.height}).
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/10 border border-google-yellow/30 text-sm p-4 rounded-lg animate-in fade-in">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0 text-google-yellow" />
+        <div className="flex-1 space-y-1">
+          <p className="font-bold text-black dark:text-white">
+            {overridden ? "Se subirá pese a los problemas de calidad:" : "La foto podría no leerse bien:"}
+          </p>
+          <ul className="list-disc pl-4 space-y-0.5 text-gray-700 dark:text-gray-300">
+            {report.issues.map(issue => <li key={issue.kind}>{issue.message}</li>)}
+          </ul>
+        </div>
+      </div>
+      {!overridden && (
+        <div className="flex flex-col sm:flex-row gap-2 mt-3 sm:pl-8">
+          <button
+            onClick={onRetake}
+            className="inline-flex items-center justify-center gap-1.5 rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-9 px-4 transition-colors"
+          >
+            <Camera className="w-4 h-4" /> Tomar otra foto
+          </button>
+          <button
+            onClick={onOverride}
+            className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-100 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-9 px-4 transition-colors"
+          >
+            Subir de todas formas
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityWarnings;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Clock, LogOut } from 'lucide-react';
+
+interface SessionTimeoutModalProps {
+  secondsLeft: number;
+  onStayLoggedIn: () => void;
+  onLogout: () => void;
+}
+
+const SessionTimeoutModal: React.FC<SessionTimeoutModalProps> = ({
+  secondsLeft,
+  onStayLoggedIn,
+  onLogout,
+}) => {
+  return (
+    <div className="fixed inset-0 z-[3000] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-sm overflow-hidden border border-black/10 dark:border-dark-border transition-colors">
+        <div className="p-6 space-y-4 text-center">
+          <div className="mx-auto h-14 w-14 rounded-full bg-yellow-50 dark:bg-yellow-900/20 flex items-center justify-center">
+            <Clock className="w-7 h-7 text-google-yellow" />
+          </div>
+          <div className="space-y-1">
+            <h2 className="text-lg font-bold text-black dark:text-white">¿Sigues ahí?</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Por inactividad, tu sesión se cerrará en
+            </p>
+          </div>
+          <div className="text-4xl font-black font-mono text-black dark:text-white">
+            {Math.max(secondsLeft, 0)}s
+          </div>
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onLogout}
+              className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-bg hover:bg-gray-50 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-10 px-4 py-2 w-full gap-2"
+            >
+              <LogOut className="w-4 h-4" />
+              Salir
+            </button>
+            <button
+              onClick={onStayLoggedIn}
+              autoFocus
+              className="inline-flex items-center justify-center rounded-md text-sm font-bold transition-colors bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 py-2 w-full shadow-sm"
+            >
+              Seguir conectado
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeoutModal;
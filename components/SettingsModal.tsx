@@ -1,79 +1,232 @@
 import React, { useState, useEffect } from 'react';
-import { Server, CheckCircle2, XCircle, Save, Activity } from 'lucide-react';
+import { Server, CheckCircle2, XCircle, Save, Activity, Plus, Trash2, FlaskConical } from 'lucide-react';
+import { createApiClient, describeApiError, normalizeBaseUrl } from '../services/apiClient';
+import {
+  BackendProfile, CompressionSettings, MIN_UPLOAD_TIMEOUT_S, MIN_COMPRESSION_SIDE, MIN_COMPRESSION_QUALITY,
+} from '../services/settings';
+import { debugError, debugLog } from '../services/logger';
+
+export interface SettingsValues {
+  profiles: BackendProfile[];
+  activeProfileId: string;
+  idleMinutes: number;
+  uploadTimeoutSeconds: number;
+  compression: CompressionSettings;
+}
 
 interface SettingsModalProps {
   isOpen: boolean;
-  currentUrl: string;
-  onSave: (url: string) => void;
+  profiles: BackendProfile[];
+  activeProfileId: string;
+  idleTimeoutMinutes: number;
+  uploadTimeoutSeconds: number;
+  compression: CompressionSettings;
+  onSave: (values: SettingsValues) => void;
   onClose: () => void;
   canClose: boolean;
 }
 
+const inputClass = "flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white focus-visible:border-transparent transition-all";
+const labelClass = "text-sm font-bold leading-none text-black dark:text-white";
+const hintClass = "text-[0.8rem] text-gray-500 dark:text-gray-400";
+
+// Headers are edited as "Nombre: valor" lines
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const parseHeaders = (text: string): Record<string, string> | null => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return null;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
-  currentUrl,
+  profiles,
+  activeProfileId,
+  idleTimeoutMinutes,
+  uploadTimeoutSeconds,
+  compression,
   onSave,
   onClose,
   canClose,
 }) => {
-  const [urlInput, setUrlInput] = useState(currentUrl);
+  // Profiles are edited as a draft and only applied on "Guardar"
+  const [draftProfiles, setDraftProfiles] = useState<BackendProfile[]>(profiles);
+  const [headerDrafts, setHeaderDrafts] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState(activeProfileId);
+  const [idleInput, setIdleInput] = useState(String(idleTimeoutMinutes));
+  const [timeoutInput, setTimeoutInput] = useState(String(uploadTimeoutSeconds));
+  const [compressionEnabled, setCompressionEnabled] = useState(compression.enabled);
+  const [maxSideInput, setMaxSideInput] = useState(String(compression.maxSide));
+  const [qualityInput, setQualityInput] = useState(String(Math.round(compression.quality * 100)));
   const [status, setStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [statusMsg, setStatusMsg] = useState('');
 
   useEffect(() => {
-    setUrlInput(currentUrl);
-  }, [currentUrl]);
+    if (!isOpen) return;
+    setDraftProfiles(profiles);
+    setHeaderDrafts(Object.fromEntries(profiles.map(p => [p.id, formatHeaders(p.headers)])));
+    setSelectedId(activeProfileId);
+    setStatus('idle');
+    setStatusMsg('');
+  }, [profiles, activeProfileId, isOpen]);
+
+  useEffect(() => {
+    setIdleInput(String(idleTimeoutMinutes));
+  }, [idleTimeoutMinutes, isOpen]);
+
+  useEffect(() => {
+    setTimeoutInput(String(uploadTimeoutSeconds));
+  }, [uploadTimeoutSeconds, isOpen]);
+
+  useEffect(() => {
+    setCompressionEnabled(compression.enabled);
+    setMaxSideInput(String(compression.maxSide));
+    setQualityInput(String(Math.round(compression.quality * 100)));
+  }, [compression.enabled, compression.maxSide, compression.quality, isOpen]);
 
   if (!isOpen) return null;
 
+  const selected = draftProfiles.find(p => p.id === selectedId) ?? draftProfiles[0];
+
+  const resetStatus = () => {
+    setStatus('idle');
+    setStatusMsg('');
+  };
+
+  const updateSelected = (changes: Partial<BackendProfile>) => {
+    setDraftProfiles(prev => prev.map(p => p.id === selected.id ? { ...p, ...changes } : p));
+    resetStatus();
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setSelectedId(id);
+    resetStatus();
+  };
+
+  const handleAddProfile = () => {
+    const profile: BackendProfile = { id: `perfil-${Date.now().toString(36)}`, name: 'Nuevo perfil', url: '' };
+    setDraftProfiles(prev => [...prev, profile]);
+    setHeaderDrafts(prev => ({ ...prev, [profile.id]: '' }));
+    handleSelectProfile(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (draftProfiles.length <= 1 || selected.demo) return;
+    if (!confirm(`¿Eliminar el perfil "${selected.name}"?`)) return;
+    const remaining = draftProfiles.filter(p => p.id !== selected.id);
+    setDraftProfiles(remaining);
+    handleSelectProfile(remaining[0].id);
+  };
+
   const handleSmokeTest = async () => {
+    const headers = parseHeaders(headerDrafts[selected.id] ?? '');
+    if (!headers) {
+      setStatus('error');
+      setStatusMsg('Encabezados inválidos. Usa una línea "Nombre: valor" por encabezado.');
+      return;
+    }
+
     setStatus('testing');
     setStatusMsg('Conectando con el servidor...');
 
-    // Remove ANY trailing slashes using regex
-    const cleanUrl = urlInput.replace(/\/+$/, '');
+    // Remove ANY trailing slashes
+    const cleanUrl = normalizeBaseUrl(selected.url);
 
     try {
-      console.log(`[Config] Probando conexión: ${cleanUrl}/`);
-      
-      const response = await fetch(`${cleanUrl}/`, {
-        method: 'GET',
-        headers: { 'ngrok-skip-browser-warning': 'true' },
-      });
+      debugLog(`[Config] Probando conexión: ${cleanUrl}/`);
 
-      if (response.ok) {
+      const health = await createApiClient({ baseUrl: cleanUrl, headers, demo: selected.demo }).health();
+
+      if (health.ok) {
         setStatus('success');
-        setStatusMsg('Sistema En Línea: 200 OK');
+        setStatusMsg(`En Línea · ${health.latencyMs} ms · ${health.version ? `v${health.version}` : 'versión no informada'}`);
       } else {
         setStatus('error');
-        setStatusMsg(`Error: ${response.status} ${response.statusText}`);
+        setStatusMsg(`Error: ${health.status} (${health.latencyMs} ms)`);
       }
     } catch (err: any) {
       setStatus('error');
-      console.error("Error de conexión:", err);
-      
-      let displayMsg = 'Falló la conexión.';
-      if (err.message && (err.message.includes("Failed to fetch") || err.message.includes("NetworkError"))) {
-        displayMsg = "Error de conexión. Verifica Colab y la URL.";
-      }
-      setStatusMsg(displayMsg);
+      debugError("Error de conexión:", err);
+      setStatusMsg(describeApiError(err, "Error de conexión. Verifica Colab y la URL."));
     }
   };
 
   const handleSave = () => {
-    const cleanUrl = urlInput.replace(/\/+$/, '');
-    
+    const idleMinutes = parseInt(idleInput, 10);
+    const timeoutSeconds = parseInt(timeoutInput, 10);
+    const maxSide = parseInt(maxSideInput, 10);
+    const qualityPercent = parseInt(qualityInput, 10);
+
+    const cleaned: BackendProfile[] = [];
+    for (const profile of draftProfiles) {
+      const url = normalizeBaseUrl(profile.url);
+      const headers = parseHeaders(headerDrafts[profile.id] ?? '');
+      let problem = '';
+      if (!profile.name.trim()) problem = 'Cada perfil necesita un nombre.';
+      else if (!profile.demo && !/^https?:\/\//i.test(url)) problem = `La URL del perfil "${profile.name}" debe comenzar con http:// o https://.`;
+      else if (!headers) problem = `Encabezados inválidos en el perfil "${profile.name}".`;
+      if (problem) {
+        setSelectedId(profile.id);
+        setStatus('error');
+        setStatusMsg(problem);
+        return;
+      }
+      cleaned.push({
+        id: profile.id,
+        name: profile.name.trim(),
+        url,
+        headers: headers && Object.keys(headers).length > 0 ? headers : undefined,
+        demo: profile.demo || undefined,
+      });
+    }
+
+    if (!idleMinutes || idleMinutes < 1) {
+      setStatus('error');
+      setStatusMsg('El tiempo de inactividad debe ser al menos 1 minuto.');
+      return;
+    }
+    if (!timeoutSeconds || timeoutSeconds < MIN_UPLOAD_TIMEOUT_S) {
+      setStatus('error');
+      setStatusMsg(`El tiempo de espera debe ser al menos ${MIN_UPLOAD_TIMEOUT_S} segundos.`);
+      return;
+    }
+    if (compressionEnabled && (!maxSide || maxSide < MIN_COMPRESSION_SIDE)) {
+      setStatus('error');
+      setStatusMsg(`La resolución máxima debe ser al menos ${MIN_COMPRESSION_SIDE} px para que el OCR lea bien.`);
+      return;
+    }
+    if (compressionEnabled && (!qualityPercent || qualityPercent < MIN_COMPRESSION_QUALITY * 100 || qualityPercent > 100)) {
+      setStatus('error');
+      setStatusMsg(`La calidad JPEG debe estar entre ${MIN_COMPRESSION_QUALITY * 100} y 100.`);
+      return;
+    }
+
     if (status !== 'success') {
       if (!confirm("La prueba de conexión no fue exitosa. ¿Guardar de todos modos?")) return;
     }
-    
-    onSave(cleanUrl);
+
+    // The profile being edited becomes the active one
+    onSave({
+      profiles: cleaned,
+      activeProfileId: selected.id,
+      idleMinutes,
+      uploadTimeoutSeconds: timeoutSeconds,
+      compression: compressionEnabled
+        ? { enabled: true, maxSide, quality: qualityPercent / 100 }
+        : { ...compression, enabled: false },
+    });
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-      <div className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-md overflow-hidden border border-black/10 dark:border-dark-border transition-colors">
-        <div className="px-6 py-4 border-b border-black/5 dark:border-dark-border flex items-center justify-between bg-white dark:bg-dark-card">
+      <div className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden border border-black/10 dark:border-dark-border transition-colors">
+        <div className="px-6 py-4 border-b border-black/5 dark:border-dark-border flex items-center justify-between bg-white dark:bg-dark-card shrink-0">
           <h2 className="text-lg font-bold text-black dark:text-white flex items-center gap-2">
             <Server className="w-5 h-5 text-black dark:text-white" />
             Configuración de API
@@ -85,23 +238,169 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           )}
         </div>
 
-        <div className="p-6 space-y-5">
+        <div className="p-6 space-y-5 overflow-y-auto">
           <div className="space-y-2">
-            <label className="text-sm font-bold leading-none text-black dark:text-white">
-              URL Base (Ngrok)
+            <label className={labelClass}>Perfil de Backend</label>
+            <div className="flex flex-wrap gap-2">
+              {draftProfiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => handleSelectProfile(profile.id)}
+                  className={`h-8 px-3 rounded-full text-xs font-bold border transition-colors ${
+                    profile.id === selected.id
+                      ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                      : 'bg-white dark:bg-dark-bg text-gray-600 dark:text-gray-300 border-gray-200 dark:border-dark-border hover:border-gray-400'
+                  }`}
+                >
+                  {profile.name || 'Sin nombre'}
+                  {profile.id === activeProfileId && <span className="ml-1.5 opacity-60">(activo)</span>}
+                </button>
+              ))}
+              <button
+                onClick={handleAddProfile}
+                className="h-8 px-3 rounded-full text-xs font-bold border border-dashed border-gray-300 dark:border-dark-border text-gray-500 hover:text-black dark:hover:text-white inline-flex items-center gap-1 transition-colors"
+              >
+                <Plus className="w-3 h-3" /> Nuevo
+              </button>
+            </div>
+          </div>
+
+          {selected.demo ? (
+          <div className="p-4 rounded-lg border border-purple-200 dark:border-purple-900/50 bg-purple-50 dark:bg-purple-900/10 text-sm flex items-start gap-3">
+            <FlaskConical className="w-5 h-5 text-purple-600 dark:text-purple-400 shrink-0 mt-0.5" />
+            <div className="space-y-1 text-gray-700 dark:text-gray-300 leading-relaxed">
+              <p className="font-bold text-black dark:text-white">Modo demo</p>
+              <p>
+                Un servidor simulado en el navegador responde la carga, validación y feedback con matrices de ejemplo.
+                Nada se envía a un servidor real.
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Inicia sesión con cualquier contraseña: usuarios con "admin" o "super" en el nombre obtienen esos roles; el resto entra como buzo.
+              </p>
+            </div>
+          </div>
+          ) : (
+          <div className="space-y-4 p-4 rounded-lg border border-gray-200 dark:border-dark-border bg-gray-50/50 dark:bg-dark-bg/50">
+            <div className="flex gap-3">
+              <div className="space-y-2 flex-1">
+                <label className={labelClass}>Nombre</label>
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  placeholder="Staging"
+                  className={inputClass}
+                />
+              </div>
+              {draftProfiles.length > 1 && (
+                <button
+                  onClick={handleDeleteProfile}
+                  className="self-end h-10 w-10 inline-flex items-center justify-center rounded-md border border-gray-200 dark:border-dark-border text-gray-400 hover:text-google-red hover:border-google-red/40 transition-colors"
+                  title="Eliminar perfil"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>URL Base</label>
+              <input
+                type="text"
+                value={selected.url}
+                onChange={(e) => updateSelected({ url: e.target.value })}
+                placeholder="https://xxxx.ngrok-free.app"
+                className={inputClass}
+              />
+              <p className={hintClass}>
+                URL pública de Ngrok, servidor local o staging.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className={labelClass}>Encabezados (opcional)</label>
+              <textarea
+                value={headerDrafts[selected.id] ?? ''}
+                onChange={(e) => {
+                  setHeaderDrafts(prev => ({ ...prev, [selected.id]: e.target.value }));
+                  resetStatus();
+                }}
+                rows={2}
+                placeholder="X-Api-Key: abc123"
+                className={`${inputClass} h-auto font-mono text-xs resize-none`}
+              />
+              <p className={hintClass}>
+                Un encabezado por línea, en formato "Nombre: valor".
+              </p>
+            </div>
+          </div>
+          )}
+
+          <div className="space-y-2">
+            <label className={labelClass}>
+              Cierre por Inactividad (minutos)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={idleInput}
+              onChange={(e) => setIdleInput(e.target.value)}
+              className={inputClass}
+            />
+            <p className={hintClass}>
+              La sesión se cierra tras este periodo sin actividad en este dispositivo.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>
+              Tiempo de Espera de Carga (segundos)
             </label>
             <input
-              type="text"
-              value={urlInput}
-              onChange={(e) => {
-                setUrlInput(e.target.value);
-                setStatus('idle');
-              }}
-              placeholder="https://xxxx.ngrok-free.app"
-              className="flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white focus-visible:border-transparent transition-all"
+              type="number"
+              min={MIN_UPLOAD_TIMEOUT_S}
+              value={timeoutInput}
+              onChange={(e) => setTimeoutInput(e.target.value)}
+              className={inputClass}
             />
-            <p className="text-[0.8rem] text-gray-500 dark:text-gray-400">
-              Ingresa la URL pública generada por Ngrok.
+            <p className={hintClass}>
+              Cada intento de procesar una planilla se corta tras este tiempo y se reintenta automáticamente.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-bold text-black dark:text-white">
+              <input type="checkbox" checked={compressionEnabled} onChange={(e) => setCompressionEnabled(e.target.checked)} />
+              Comprimir fotos antes de subir
+            </label>
+            {compressionEnabled && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <span className={hintClass}>Lado mayor (px)</span>
+                  <input
+                    type="number"
+                    min={MIN_COMPRESSION_SIDE}
+                    step={100}
+                    value={maxSideInput}
+                    onChange={(e) => setMaxSideInput(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <span className={hintClass}>Calidad JPEG (%)</span>
+                  <input
+                    type="number"
+                    min={MIN_COMPRESSION_QUALITY * 100}
+                    max={100}
+                    value={qualityInput}
+                    onChange={(e) => setQualityInput(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+            <p className={hintClass}>
+              Reduce fotos de varios MB para enviarlas con mala señal. La orientación de la cámara se conserva.
             </p>
           </div>
 
@@ -122,7 +421,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           <div className="flex gap-3 pt-2">
             <button
               onClick={handleSmokeTest}
-              disabled={!urlInput || status === 'testing'}
+              disabled={!selected.url || status === 'testing'}
               className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white disabled:opacity-50 disabled:pointer-events-none border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-bg hover:bg-gray-50 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white h-10 px-4 py-2 w-full text-gray-700 dark:text-gray-300"
             >
               Probar Conexión
@@ -132,7 +431,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               className="inline-flex items-center justify-center rounded-md text-sm font-bold transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white disabled:opacity-50 disabled:pointer-events-none bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 py-2 w-full gap-2 shadow-sm"
             >
               <Save className="w-4 h-4" />
-              Guardar
+              Guardar y Usar
             </button>
           </div>
         </div>
@@ -141,4 +440,4 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   );
 };
 
-export default SettingsModal;
\ No newline at end of file
+export default SettingsModal;
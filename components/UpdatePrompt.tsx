@@ -0,0 +1,44 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdatePromptProps {
+  // Reloading mid-upload would lose the request
+  isBusy?: boolean;
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ isBusy, onUpdate, onDismiss }) => (
+  <div
+    className="fixed top-20 left-4 right-4 md:top-auto md:bottom-6 md:left-6 md:right-auto z-[100] md:w-full md:max-w-sm flex items-center gap-4 rounded-lg border border-zinc-200 bg-white p-4 shadow-xl animate-in fade-in dark:border-zinc-800 dark:bg-zinc-950"
+    role="status"
+  >
+    <div className="flex-shrink-0">
+      <RefreshCw className="h-5 w-5 text-google-blue" />
+    </div>
+
+    <div className="flex-1">
+      <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">Nueva versión disponible</h3>
+      <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-1 leading-relaxed">
+        {isBusy ? "Podrás actualizar cuando termine el envío en curso." : "Actualiza para usar la última versión de Bluegrid."}
+      </p>
+      <button
+        onClick={onUpdate}
+        disabled={isBusy}
+        className="mt-3 inline-flex items-center justify-center rounded-md text-xs font-bold h-8 px-3 bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50 disabled:pointer-events-none transition-colors"
+      >
+        Actualizar ahora
+      </button>
+    </div>
+
+    <button
+      onClick={onDismiss}
+      className="-my-1.5 -mr-1.5 ml-auto flex h-8 w-8 flex-shrink-0 items-center justify-center self-start rounded-md text-zinc-400 hover:bg-zinc-100 hover:text-zinc-900 dark:text-zinc-500 dark:hover:bg-zinc-800 dark:hover:text-zinc-50"
+    >
+      <span className="sr-only">Después</span>
+      <X className="h-4 w-4" />
+    </button>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -0,0 +1,538 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, UserPlus, RefreshCw, Pencil, KeyRound, Ban, CheckCircle2, AlertCircle, X, Save, Inbox, Check } from 'lucide-react';
+import { User, UserFormData, UserRole, ZoneOption, PendingSignUp } from '../types';
+import { ApiClient, UnauthorizedError, describeApiError } from '../services/apiClient';
+import { debugError } from '../services/logger';
+
+interface UserManagementProps {
+  api: ApiClient;
+  currentUsername: string;
+  zones: ZoneOption[];
+  onNotify: (message: string, type: 'success' | 'error') => void;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  supervisor: 'Supervisor',
+  buzo: 'Buzo',
+};
+
+const EMPTY_FORM: UserFormData = { username: '', name: '', email: '', role: 'buzo', zonas: [] };
+
+// Nothing is preselected: the admin decides role and zones for every new account
+interface PendingAssignment {
+  role: UserRole | '';
+  zonas: string[];
+}
+
+const EMPTY_ASSIGNMENT: PendingAssignment = { role: '', zonas: [] };
+
+const formatLastLogin = (value?: string | null) => {
+  if (!value) return 'Nunca';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString('es-CL');
+};
+
+const UserManagement: React.FC<UserManagementProps> = ({ api, currentUsername, zones, onNotify }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Sign-up requests awaiting approval, with the role and zones chosen for each
+  const [pending, setPending] = useState<PendingSignUp[]>([]);
+  const [assignments, setAssignments] = useState<Record<number, PendingAssignment>>({});
+
+  // Create / edit form state. `editingUser` null + isFormOpen = creating
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [form, setForm] = useState<UserFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Temporary password shown once after a reset
+  const [resetResult, setResetResult] = useState<{ username: string; password: string } | null>(null);
+
+  const handleError = (err: unknown, context: string) => {
+    // The API client already logged the user out
+    if (err instanceof UnauthorizedError) return;
+    debugError(`[Usuarios] ${context}:`, err);
+    onNotify(`${context}: ${describeApiError(err)}`, 'error');
+  };
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const [userList, pendingList] = await Promise.all([
+        api.listUsers(),
+        api.listPendingSignUps()
+      ]);
+      setUsers(userList);
+      setPending(pendingList);
+    } catch (err) {
+      if (err instanceof UnauthorizedError) return;
+      debugError("[Usuarios] Error cargando usuarios:", err);
+      setLoadError(describeApiError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const openCreate = () => {
+    setEditingUser(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (u: User) => {
+    setEditingUser(u);
+    setForm({ username: u.username, name: u.name, email: u.email || '', role: u.role, zonas: u.zonas || [] });
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const toggleZone = (zoneId: string) => {
+    setForm(prev => {
+      const current = prev.zonas || [];
+      return {
+        ...prev,
+        zonas: current.includes(zoneId) ? current.filter(z => z !== zoneId) : [...current, zoneId]
+      };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!form.username.trim() || !form.name.trim()) {
+      setFormError('Usuario y nombre son obligatorios.');
+      return;
+    }
+
+    // Admins always see every zone, so never send a scope for them
+    const payload: UserFormData = {
+      ...form,
+      username: form.username.trim().toLowerCase(),
+      name: form.name.trim(),
+      email: form.email?.trim() || undefined,
+      zonas: form.role === 'admin' ? undefined : form.zonas,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingUser) {
+        const { username, ...changes } = payload;
+        const updated = await api.updateUser(editingUser.username, changes);
+        setUsers(prev => prev.map(u => (u.username === editingUser.username ? { ...u, ...updated } : u)));
+        onNotify(`Usuario ${editingUser.username} actualizado`, 'success');
+      } else {
+        const created = await api.createUser(payload);
+        setUsers(prev => [...prev, created]);
+        onNotify(`Usuario ${created.username} creado`, 'success');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      if (err instanceof UnauthorizedError) return;
+      setFormError(describeApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (u: User) => {
+    const nextActive = u.active === false;
+    if (!nextActive && !confirm(`¿Deshabilitar a ${u.username}? No podrá iniciar sesión.`)) return;
+
+    try {
+      const updated = await api.updateUser(u.username, { active: nextActive });
+      setUsers(prev => prev.map(x => (x.username === u.username ? { ...x, ...updated, active: nextActive } : x)));
+      onNotify(`Usuario ${u.username} ${nextActive ? 'habilitado' : 'deshabilitado'}`, 'success');
+    } catch (err) {
+      handleError(err, 'Error al cambiar estado');
+    }
+  };
+
+  const handleResetPassword = async (u: User) => {
+    if (!confirm(`¿Restablecer la contraseña de ${u.username}?`)) return;
+
+    try {
+      const result = await api.resetUserPassword(u.username);
+      setResetResult({ username: u.username, password: result.password_temporal });
+    } catch (err) {
+      handleError(err, 'Error al restablecer contraseña');
+    }
+  };
+
+  const assignmentFor = (requestId: number) => assignments[requestId] || EMPTY_ASSIGNMENT;
+
+  const updateAssignment = (requestId: number, changes: Partial<PendingAssignment>) =>
+    setAssignments(prev => ({ ...prev, [requestId]: { ...assignmentFor(requestId), ...changes } }));
+
+  const togglePendingZone = (requestId: number, zoneId: string) => {
+    const current = assignmentFor(requestId).zonas;
+    updateAssignment(requestId, {
+      zonas: current.includes(zoneId) ? current.filter(z => z !== zoneId) : [...current, zoneId]
+    });
+  };
+
+  // Admins see every zone; anyone else needs at least one before approval
+  const isAssignmentComplete = ({ role, zonas }: PendingAssignment) =>
+    role === 'admin' || (role !== '' && zonas.length > 0);
+
+  const handleApprove = async (request: PendingSignUp) => {
+    const { role, zonas } = assignmentFor(request.id);
+    if (role === '' || !isAssignmentComplete({ role, zonas })) {
+      onNotify('Seleccione el rol y al menos una zona antes de aprobar', 'error');
+      return;
+    }
+    try {
+      const created = await api.approveSignUp(request.id, { role, zonas: role === 'admin' ? undefined : zonas });
+      setPending(prev => prev.filter(p => p.id !== request.id));
+      setAssignments(prev => {
+        const { [request.id]: _, ...rest } = prev;
+        return rest;
+      });
+      setUsers(prev => [...prev, created]);
+      onNotify(`Cuenta de ${request.username} aprobada como ${ROLE_LABELS[role]}`, 'success');
+    } catch (err) {
+      handleError(err, 'Error al aprobar solicitud');
+    }
+  };
+
+  const handleReject = async (request: PendingSignUp) => {
+    if (!confirm(`¿Rechazar la solicitud de ${request.username}?`)) return;
+    try {
+      await api.rejectSignUp(request.id);
+      setPending(prev => prev.filter(p => p.id !== request.id));
+      onNotify(`Solicitud de ${request.username} rechazada`, 'success');
+    } catch (err) {
+      handleError(err, 'Error al rechazar solicitud');
+    }
+  };
+
+  const isSelf = (u: User) => u.username === currentUsername;
+
+  return (
+    <div className="animate-in fade-in zoom-in duration-300 w-full pb-20 pt-2">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-black tracking-tight text-black dark:text-white mb-1 flex items-center gap-3">
+            <Users className="w-7 h-7" />
+            Gestión de Usuarios
+          </h2>
+          <p className="text-gray-500 text-base">Cuentas, roles y zonas asignadas.</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={loadUsers}
+            disabled={isLoading}
+            className="inline-flex items-center justify-center rounded-lg text-sm font-medium transition-colors border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-50 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-200 h-10 px-4 gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <button
+            onClick={openCreate}
+            className="inline-flex items-center justify-center rounded-lg text-sm font-bold transition-colors bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 gap-2 shadow-sm"
+          >
+            <UserPlus className="w-4 h-4" />
+            Nuevo Usuario
+          </button>
+        </div>
+      </div>
+
+      {/* Temporary password banner */}
+      {resetResult && (
+        <div className="mb-6 rounded-xl border border-google-green/30 bg-green-50 dark:bg-green-900/10 p-4 flex items-start gap-3">
+          <KeyRound className="w-5 h-5 text-google-green mt-0.5 shrink-0" />
+          <div className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+            <p className="font-bold text-black dark:text-white mb-1">Contraseña temporal para {resetResult.username}</p>
+            <p>
+              Entrégala al usuario; deberá cambiarla al ingresar:{' '}
+              <span className="font-mono font-bold bg-white dark:bg-dark-card px-2 py-0.5 rounded border border-gray-200 dark:border-dark-border select-all">
+                {resetResult.password}
+              </span>
+            </p>
+          </div>
+          <button onClick={() => setResetResult(null)} className="text-gray-400 hover:text-black dark:hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {loadError && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/10 border border-google-red/30 text-google-red text-sm p-4 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+          <div className="font-medium leading-relaxed">No se pudieron cargar los usuarios: {loadError}</div>
+        </div>
+      )}
+
+      {/* Pending Sign-up Requests */}
+      {pending.length > 0 && (
+        <div className="mb-6 rounded-xl border border-google-yellow/40 bg-white dark:bg-dark-card shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 dark:border-dark-border flex items-center gap-2 text-sm font-bold text-black dark:text-white">
+            <Inbox className="w-4 h-4 text-google-yellow" />
+            Solicitudes Pendientes ({pending.length})
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-dark-border/50">
+            {pending.map(request => {
+              const assignment = assignmentFor(request.id);
+              return (
+              <div key={request.id} className="p-4 flex flex-col md:flex-row md:items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-sm text-black dark:text-white">
+                    {request.name} <span className="font-mono text-xs text-gray-500">({request.username})</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {request.email} · {formatLastLogin(request.solicitado)}
+                  </p>
+                  {request.motivo && <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 italic">"{request.motivo}"</p>}
+                  {assignment.role !== '' && assignment.role !== 'admin' && (
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                      {zones.map(z => {
+                        const selected = assignment.zonas.includes(z.id);
+                        return (
+                          <button
+                            key={z.id}
+                            type="button"
+                            onClick={() => togglePendingZone(request.id, z.id)}
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                              selected
+                                ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                                : 'border-gray-300 dark:border-dark-border text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-hover'
+                            }`}
+                          >
+                            {z.name}
+                          </button>
+                        );
+                      })}
+                      {zones.length === 0 && <p className="text-xs text-gray-500">No hay zonas para asignar.</p>}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={assignment.role}
+                    onChange={(e) => updateAssignment(request.id, { role: e.target.value as UserRole | '' })}
+                    className="h-9 rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-2 text-sm text-black dark:text-white"
+                  >
+                    <option value="">Rol...</option>
+                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleApprove(request)}
+                    disabled={!isAssignmentComplete(assignment)}
+                    title={isAssignmentComplete(assignment) ? undefined : 'Seleccione el rol y al menos una zona'}
+                    className="inline-flex items-center justify-center rounded-md text-sm font-bold bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-9 px-3 gap-1 disabled:opacity-50"
+                  >
+                    <Check className="w-4 h-4" /> Aprobar
+                  </button>
+                  <button
+                    onClick={() => handleReject(request)}
+                    className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-200 dark:border-dark-border text-google-red hover:bg-red-50 dark:hover:bg-red-900/10 h-9 px-3"
+                  >
+                    Rechazar
+                  </button>
+                </div>
+              </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Users Table */}
+      <div className="rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card shadow-sm overflow-x-auto transition-colors">
+        <table className="w-full border-collapse min-w-[760px] text-sm">
+          <thead className="bg-gray-50/50 dark:bg-dark-border/50 text-gray-500 dark:text-gray-400 text-xs uppercase tracking-wide">
+            <tr>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Usuario</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Rol</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Zonas</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Último Acceso</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Estado</th>
+              <th className="text-right font-bold p-3 border-b border-gray-200 dark:border-dark-border">Acciones</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-dark-border/50">
+            {users.length === 0 && !isLoading && (
+              <tr>
+                <td colSpan={6} className="p-8 text-center text-gray-400">No hay usuarios registrados.</td>
+              </tr>
+            )}
+            {users.map(u => (
+              <tr key={u.username} className={`hover:bg-gray-50/80 dark:hover:bg-dark-hover/50 transition-colors ${u.active === false ? 'opacity-60' : ''}`}>
+                <td className="p-3">
+                  <p className="font-bold text-black dark:text-white">{u.name}</p>
+                  <p className="text-xs text-gray-500 font-mono">{u.username}{u.email ? ` · ${u.email}` : ''}</p>
+                </td>
+                <td className="p-3">
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-full text-white ${
+                    u.role === 'admin' ? 'bg-purple-600' :
+                    u.role === 'supervisor' ? 'bg-blue-600' : 'bg-teal-600'
+                  }`}>
+                    {ROLE_LABELS[u.role]}
+                  </span>
+                </td>
+                <td className="p-3 text-gray-600 dark:text-gray-300">
+                  {u.role === 'admin' || !u.zonas || u.zonas.length === 0
+                    ? <span className="text-gray-400">Todas</span>
+                    : u.zonas.map(id => zones.find(z => z.id === id)?.name || id).join(', ')}
+                </td>
+                <td className="p-3 text-gray-600 dark:text-gray-300 font-mono text-xs">{formatLastLogin(u.lastLogin)}</td>
+                <td className="p-3">
+                  {u.active === false ? (
+                    <span className="text-xs font-bold text-google-red">Deshabilitado</span>
+                  ) : (
+                    <span className="text-xs font-bold text-google-green">Activo</span>
+                  )}
+                </td>
+                <td className="p-3">
+                  <div className="flex items-center justify-end gap-1">
+                    <button onClick={() => openEdit(u)} className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white" title="Editar">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleResetPassword(u)} className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white" title="Restablecer contraseña">
+                      <KeyRound className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(u)}
+                      disabled={isSelf(u)}
+                      className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white disabled:opacity-30 disabled:pointer-events-none"
+                      title={u.active === false ? 'Habilitar' : 'Deshabilitar'}
+                    >
+                      {u.active === false ? <CheckCircle2 className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-md overflow-hidden border border-black/10 dark:border-dark-border transition-colors"
+          >
+            <div className="px-6 py-4 border-b border-black/5 dark:border-dark-border flex items-center justify-between">
+              <h3 className="text-lg font-bold text-black dark:text-white">
+                {editingUser ? `Editar ${editingUser.username}` : 'Nuevo Usuario'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-black dark:hover:text-white transition-colors">
+                ✕
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-black dark:text-white">Usuario</label>
+                <input
+                  type="text"
+                  value={form.username}
+                  disabled={!!editingUser}
+                  onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white disabled:opacity-60"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-black dark:text-white">Nombre</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-black dark:text-white">Email</label>
+                <input
+                  type="email"
+                  value={form.email || ''}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-black dark:text-white">Rol</label>
+                <select
+                  value={form.role}
+                  disabled={!!editingUser && isSelf(editingUser)}
+                  onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                  className="flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white disabled:opacity-60"
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {form.role !== 'admin' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-bold text-black dark:text-white">Zonas Permitidas</label>
+                  <div className="space-y-1.5 rounded-md border border-gray-200 dark:border-dark-border p-3">
+                    {zones.map(z => (
+                      <label key={z.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={(form.zonas || []).includes(z.id)}
+                          onChange={() => toggleZone(z.id)}
+                          className="rounded border-gray-300"
+                        />
+                        {z.name}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-[0.8rem] text-gray-500 dark:text-gray-400">Sin zonas marcadas el usuario ve todas.</p>
+                </div>
+              )}
+
+              {formError && (
+                <div className="text-google-red text-xs font-medium flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/10 border border-google-red/20 rounded-md">
+                  <AlertCircle className="w-4 h-4 shrink-0" />
+                  {formError}
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-black/5 dark:border-dark-border flex gap-3">
+              <button
+                type="button"
+                onClick={() => setIsFormOpen(false)}
+                className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-bg hover:bg-gray-50 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-10 px-4 w-full"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center justify-center rounded-md text-sm font-bold transition-colors bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 w-full gap-2 shadow-sm disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <div className="w-4 h-4 border-2 border-white dark:border-black border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4" />
+                )}
+                Guardar
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { MapPin, Plus, RefreshCw, Pencil, Archive, ArchiveRestore, AlertCircle, Save } from 'lucide-react';
+import { Zone, ZoneFormData } from '../types';
+import { ApiClient, UnauthorizedError, describeApiError } from '../services/apiClient';
+import { ZoneCatalog } from '../services/zones';
+import { DEFAULT_TEMPLATE_ID, PLANILLA_TEMPLATES, resolveTemplate } from '../services/templates';
+import { debugError } from '../services/logger';
+
+interface ZoneManagementProps {
+  api: ApiClient;
+  catalog: ZoneCatalog;
+  onNotify: (message: string, type: 'success' | 'error') => void;
+}
+
+// Coordinates are typed as text so partial input ("-41.") can be edited freely
+interface ZoneForm {
+  name: string;
+  lat: string;
+  lng: string;
+  templateId: string;
+}
+
+const EMPTY_FORM: ZoneForm = { name: '', lat: '', lng: '', templateId: DEFAULT_TEMPLATE_ID };
+
+const parseCoordinate = (value: string, limit: number) => {
+  const num = Number(value.replace(',', '.'));
+  return value.trim() !== '' && Number.isFinite(num) && Math.abs(num) <= limit ? num : null;
+};
+
+const ZoneManagement: React.FC<ZoneManagementProps> = ({ api, catalog, onNotify }) => {
+  // Create / edit form state. `editingZone` null + isFormOpen = creating
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<Zone | null>(null);
+  const [form, setForm] = useState<ZoneForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleError = (err: unknown, context: string) => {
+    // The API client already logged the user out
+    if (err instanceof UnauthorizedError) return;
+    debugError(`[Zonas] ${context}:`, err);
+    onNotify(`${context}: ${describeApiError(err)}`, 'error');
+  };
+
+  const openCreate = () => {
+    setEditingZone(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (z: Zone) => {
+    setEditingZone(z);
+    setForm({ name: z.name, lat: String(z.coords[0]), lng: String(z.coords[1]), templateId: resolveTemplate(z.templateId).id });
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const name = form.name.trim();
+    const lat = parseCoordinate(form.lat, 90);
+    const lng = parseCoordinate(form.lng, 180);
+    if (!name) {
+      setFormError('El nombre es obligatorio.');
+      return;
+    }
+    if (lat === null || lng === null) {
+      setFormError('Ingresa latitud (-90 a 90) y longitud (-180 a 180) en grados decimales.');
+      return;
+    }
+    const duplicate = catalog.zones.find(z => z.id !== editingZone?.id && z.name.toLowerCase() === name.toLowerCase());
+    if (duplicate) {
+      setFormError(`Ya existe una zona llamada "${duplicate.name}".`);
+      return;
+    }
+
+    const payload: ZoneFormData = { name, lat, lng, plantilla_id: form.templateId };
+    setIsSaving(true);
+    try {
+      const saved = editingZone
+        ? await api.updateZone(editingZone.id, payload)
+        : await api.createZone(payload);
+      catalog.upsert(saved);
+      onNotify(`Zona ${saved.name} ${editingZone ? 'actualizada' : 'creada'}`, 'success');
+      setIsFormOpen(false);
+    } catch (err) {
+      if (err instanceof UnauthorizedError) return;
+      setFormError(describeApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (z: Zone) => {
+    const nextActive = !z.active;
+    if (!nextActive && !confirm(`¿Archivar ${z.name}? Ya no se podrán subir planillas a esta zona; su historial se conserva.`)) return;
+
+    try {
+      const updated = await api.updateZone(z.id, { active: nextActive });
+      catalog.upsert({ ...updated, active: nextActive });
+      onNotify(`Zona ${z.name} ${nextActive ? 'restaurada' : 'archivada'}`, 'success');
+    } catch (err) {
+      handleError(err, 'Error al cambiar estado');
+    }
+  };
+
+  const zones = [...catalog.activeZones, ...catalog.zones.filter(z => !z.active)];
+  const inputClass = "flex h-10 w-full rounded-md border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg px-3 py-2 text-sm text-black dark:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-black dark:focus-visible:ring-white";
+
+  return (
+    <div className="animate-in fade-in zoom-in duration-300 w-full pb-20 pt-2">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-black tracking-tight text-black dark:text-white mb-1 flex items-center gap-3">
+            <MapPin className="w-7 h-7" />
+            Gestión de Zonas
+          </h2>
+          <p className="text-gray-500 text-base">Centros de cultivo disponibles para subir planillas y en el mapa.</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={catalog.reload}
+            disabled={catalog.isLoading}
+            className="inline-flex items-center justify-center rounded-lg text-sm font-medium transition-colors border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card hover:bg-gray-50 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-200 h-10 px-4 gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${catalog.isLoading ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <button
+            onClick={openCreate}
+            className="inline-flex items-center justify-center rounded-lg text-sm font-bold transition-colors bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 gap-2 shadow-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Nueva Zona
+          </button>
+        </div>
+      </div>
+
+      {catalog.error && (
+        <div className="mb-6 bg-red-50 dark:bg-red-900/10 border border-google-red/30 text-google-red text-sm p-4 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+          <div className="font-medium leading-relaxed">No se pudieron cargar las zonas: {catalog.error}</div>
+        </div>
+      )}
+
+      {/* Zones Table */}
+      <div className="rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-card shadow-sm overflow-x-auto transition-colors">
+        <table className="w-full border-collapse min-w-[600px] text-sm">
+          <thead className="bg-gray-50/50 dark:bg-dark-border/50 text-gray-500 dark:text-gray-400 text-xs uppercase tracking-wide">
+            <tr>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Zona</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Coordenadas</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Plantilla</th>
+              <th className="text-left font-bold p-3 border-b border-gray-200 dark:border-dark-border">Estado</th>
+              <th className="text-right font-bold p-3 border-b border-gray-200 dark:border-dark-border">Acciones</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-dark-border/50">
+            {zones.length === 0 && !catalog.isLoading && (
+              <tr>
+                <td colSpan={5} className="p-8 text-center text-gray-400">No hay zonas registradas.</td>
+              </tr>
+            )}
+            {zones.map(z => (
+              <tr key={z.id} className={`hover:bg-gray-50/80 dark:hover:bg-dark-hover/50 transition-colors ${z.active ? '' : 'opacity-60'}`}>
+                <td className="p-3">
+                  <p className="font-bold text-black dark:text-white">{z.name}</p>
+                  <p className="text-xs text-gray-500 font-mono">ID {z.id}</p>
+                </td>
+                <td className="p-3 text-gray-600 dark:text-gray-300 font-mono text-xs">
+                  {z.coords[0].toFixed(4)}, {z.coords[1].toFixed(4)}
+                </td>
+                <td className="p-3 text-gray-600 dark:text-gray-300 text-xs">
+                  {resolveTemplate(z.templateId).name}
+                </td>
+                <td className="p-3">
+                  {z.active ? (
+                    <span className="text-xs font-bold text-google-green">Activa</span>
+                  ) : (
+                    <span className="text-xs font-bold text-gray-500">Archivada</span>
+                  )}
+                </td>
+                <td className="p-3">
+                  <div className="flex items-center justify-end gap-1">
+                    <button onClick={() => openEdit(z)} className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white" title="Editar">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleArchived(z)}
+                      className="p-2 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-hover hover:text-black dark:hover:text-white"
+                      title={z.active ? 'Archivar' : 'Restaurar'}
+                    >
+                      {z.active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-dark-card rounded-xl shadow-2xl w-full max-w-md overflow-hidden border border-black/10 dark:border-dark-border transition-colors"
+          >
+            <div className="px-6 py-4 border-b border-black/5 dark:border-dark-border flex items-center justify-between">
+              <h3 className="text-lg font-bold text-black dark:text-white">
+                {editingZone ? `Editar ${editingZone.name}` : 'Nueva Zona'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-black dark:hover:text-white transition-colors">
+                ✕
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-black dark:text-white">Nombre</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-bold text-black dark:text-white">Latitud</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="-41.4700"
+                    value={form.lat}
+                    onChange={(e) => setForm({ ...form, lat: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-bold text-black dark:text-white">Longitud</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="-72.9400"
+                    value={form.lng}
+                    onChange={(e) => setForm({ ...form, lng: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+              </div>
+              <p className="text-[0.8rem] text-gray-500 dark:text-gray-400">Grados decimales; el sur y el oeste son negativos.</p>
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-black dark:text-white">Plantilla</label>
+                <select
+                  value={form.templateId}
+                  onChange={(e) => setForm({ ...form, templateId: e.target.value })}
+                  className={inputClass}
+                >
+                  {PLANILLA_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <p className="text-[0.8rem] text-gray-500 dark:text-gray-400">Formato de planilla que se usa al subir a esta zona; se puede cambiar en cada subida.</p>
+              </div>
+
+              {formError && (
+                <div className="text-google-red text-xs font-medium flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/10 border border-google-red/20 rounded-md">
+                  <AlertCircle className="w-4 h-4 shrink-0" />
+                  {formError}
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-black/5 dark:border-dark-border flex gap-3">
+              <button
+                type="button"
+                onClick={() => setIsFormOpen(false)}
+                className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-bg hover:bg-gray-50 dark:hover:bg-dark-hover text-gray-700 dark:text-gray-300 h-10 px-4 w-full"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center justify-center rounded-md text-sm font-bold transition-colors bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-200 h-10 px-4 w-full gap-2 shadow-sm disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <div className="w-4 h-4 border-2 border-white dark:border-black border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4" />
+                )}
+                Guardar
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZoneManagement;
@@ -0,0 +1,219 @@
+// Bluegrid OCR service worker.
+//
+// - App shell (index.html): served from cache so the app opens at sea, then
+//   revalidated in the background. When the deployed shell changed, open tabs
+//   are told an update is available.
+// - Same-origin assets: hashed build files are immutable (cache-first); the
+//   rest is network-first with the cached copy as fallback. Every file of the
+//   build is precached from Vite's manifest, and files of builds no longer
+//   deployed are deleted.
+// - CDN styles, scripts and fonts referenced by index.html: cache-first.
+// - OpenStreetMap tiles: cache-first, keeping only the most recent ones.
+// - API calls are never cached (other origins and /api/ pass straight through).
+//
+// Bump CACHE_VERSION when this file changes in a way that invalidates caches.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `bluegrid-shell-${CACHE_VERSION}`;
+const CDN_CACHE = `bluegrid-cdn-${CACHE_VERSION}`;
+const TILE_CACHE = `bluegrid-tiles-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, CDN_CACHE, TILE_CACHE];
+
+const SHELL_URL = '/index.html';
+// Vite's build manifest (build.manifest in vite.config.ts). Unlike index.html it
+// also lists the chunks loaded on demand, such as the PDF reader.
+const BUILD_MANIFEST_URL = '/asset-manifest.json';
+const MAX_TILES = 250;
+
+const CDN_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'unpkg.com',
+  'aistudiocdn.com',
+];
+const TILE_HOST_PATTERN = /(^|\.)tile\.openstreetmap\.org$/;
+
+// External resources loaded by index.html, cached up front so the first
+// offline launch already renders with styles. `mode` mirrors how the page
+// requests them (the Leaflet stylesheet is loaded with CORS + SRI).
+const CDN_PRECACHE = [
+  { url: 'https://cdn.tailwindcss.com', mode: 'no-cors' },
+  { url: 'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;900&display=swap', mode: 'no-cors' },
+  { url: 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css', mode: 'cors' },
+];
+
+const isCacheable = (response) => response && (response.ok || response.type === 'opaque');
+
+// Same-origin files referenced by the shell (scripts, styles, manifest, icons)
+const shellAssets = (html) =>
+  Array.from(html.matchAll(/(?:src|href)="(\/[^"/][^"]*)"/g), (m) => m[1])
+    .filter((path) => !path.startsWith('/api/'));
+
+const manifestAssets = (manifest) =>
+  Object.values(manifest)
+    .flatMap((entry) => [entry.file, ...(entry.css || []), ...(entry.assets || [])])
+    .map((file) => `/${file}`);
+
+// Files of the build the cached manifest describes; null when none is cached
+const cachedBuildAssets = async (cache) => {
+  const response = await cache.match(BUILD_MANIFEST_URL);
+  return response ? manifestAssets(await response.json()) : null;
+};
+
+// Caches the deployed manifest and every file it lists; null without a manifest
+const precacheBuild = async (cache) => {
+  const response = await fetch(BUILD_MANIFEST_URL, { cache: 'no-cache' });
+  if (!response.ok) return null;
+  const assets = manifestAssets(await response.clone().json());
+  await cache.put(BUILD_MANIFEST_URL, response);
+  await Promise.allSettled(assets.map((path) => cache.add(path)));
+  return assets;
+};
+
+// Deletes cached /assets/ files that are not in `keep`
+const pruneAssets = async (cache, keep) => {
+  const wanted = new Set(keep);
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter((request) => {
+      const { pathname } = new URL(request.url);
+      return pathname.startsWith('/assets/') && !wanted.has(pathname);
+    })
+    .map((request) => cache.delete(request)));
+};
+
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch(SHELL_URL, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Shell no disponible (${response.status})`);
+  const html = await response.clone().text();
+  await cache.put(SHELL_URL, response);
+  await Promise.allSettled([
+    ...shellAssets(html).map((path) => cache.add(path)),
+    precacheBuild(cache),
+  ]);
+};
+
+const precacheCdn = async () => {
+  const cache = await caches.open(CDN_CACHE);
+  await Promise.allSettled(CDN_PRECACHE.map(async ({ url, mode }) => {
+    const response = await fetch(new Request(url, { mode }));
+    if (isCacheable(response)) await cache.put(url, response);
+  }));
+};
+
+self.addEventListener('install', (event) => {
+  // CDN failures must not block installing the worker
+  event.waitUntil(Promise.all([precacheShell(), precacheCdn()]));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((n) => n.startsWith('bluegrid-') && !CACHES.includes(n)).map((n) => caches.delete(n)));
+    // Only the build this worker installed stays cached
+    const shell = await caches.open(SHELL_CACHE);
+    const current = await cachedBuildAssets(shell);
+    if (current) await pruneAssets(shell, current);
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+};
+
+const revalidateShell = async (cached) => {
+  try {
+    const response = await fetch(SHELL_URL, { cache: 'no-cache' });
+    if (!response.ok) return response;
+    const cache = await caches.open(SHELL_CACHE);
+    const [next, previous] = await Promise.all([response.clone().text(), cached ? cached.text() : null]);
+    await cache.put(SHELL_URL, response.clone());
+    if (previous !== null && next !== previous) {
+      // Open tabs may still load chunks of the build they run, so keep that
+      // one and the new one; anything older goes
+      const running = await cachedBuildAssets(cache);
+      await Promise.allSettled(shellAssets(next).map((path) => cache.add(path)));
+      const deployed = await precacheBuild(cache).catch(() => null);
+      if (running && deployed) await pruneAssets(cache, [...running, ...deployed]);
+      notifyClients({ type: 'UPDATE_AVAILABLE' });
+    }
+    return response;
+  } catch (err) {
+    return null;
+  }
+};
+
+const handleNavigation = async (event) => {
+  const cached = await caches.match(SHELL_URL);
+  if (cached) {
+    event.waitUntil(revalidateShell(cached.clone()));
+    return cached;
+  }
+  const fresh = await revalidateShell(null);
+  return fresh || Response.error();
+};
+
+const cacheFirst = async (request, cacheName, onStore) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) {
+    await cache.put(request, response.clone());
+    if (onStore) await onStore(cache);
+  }
+  return response;
+};
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Cache keys keep insertion order, so the oldest tiles go first
+const trimTiles = async (cache) => {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_TILES;
+  if (excess > 0) await Promise.all(keys.slice(0, excess).map((key) => cache.delete(key)));
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    if (request.mode === 'navigate') {
+      event.respondWith(handleNavigation(event));
+    } else if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    } else {
+      event.respondWith(networkFirst(request, SHELL_CACHE));
+    }
+    return;
+  }
+
+  if (TILE_HOST_PATTERN.test(url.hostname)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, trimTiles));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, CDN_CACHE));
+  }
+});
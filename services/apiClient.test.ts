@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ApiError, RequestCancelledError, TimeoutError, UnauthorizedError, createApiClient, describeApiError, normalizeBaseUrl,
+} from './apiClient';
+import { ContractError } from './contract';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Never answers; rejects like fetch does once the request is aborted
+const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+
+const zone = { id: 1, name: 'Ancud', lat: -41.87, lng: -73.83 };
+
+describe('describeApiError', () => {
+  it('uses the network message only for requests that never reached the server', () => {
+    expect(describeApiError(new ApiError(0, 'Failed to fetch'), 'Sin conexión.')).toBe('Sin conexión.');
+    expect(describeApiError(new ApiError(500, 'Error Servidor (500): boom'), 'Sin conexión.')).toBe('Error Servidor (500): boom');
+  });
+
+  it('keeps the timeout message', () => {
+    expect(describeApiError(new TimeoutError(30_000), 'Sin conexión.')).toBe('El servidor no respondió en 30 s.');
+  });
+
+  it('narrows unknown values', () => {
+    expect(describeApiError(new Error('algo falló'))).toBe('algo falló');
+    expect(describeApiError('texto')).toBe('texto');
+    expect(describeApiError({ message: 'no es un Error' })).toBe('Error desconocido.');
+    expect(describeApiError(undefined)).toBe('Error desconocido.');
+  });
+});
+
+describe('normalizeBaseUrl', () => {
+  it('trims whitespace and trailing slashes', () => {
+    expect(normalizeBaseUrl('  https://x.ngrok-free.app//  ')).toBe('https://x.ngrok-free.app');
+  });
+});
+
+describe('createApiClient', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  const session = {
+    accessToken: 'tok',
+    user: { username: 'ana', name: 'Ana', role: 'admin' as const, session: { issuedAt: 0, expiresAt: Infinity } },
+  };
+
+  it('sends the bearer token, profile headers and JSON body', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(201, zone));
+    const api = createApiClient({ baseUrl: 'https://api.test/', headers: { 'X-Extra': '1' }, getSession: () => session });
+
+    const created = await api.createZone({ name: 'Ancud', lat: -41.87, lng: -73.83, plantilla_id: '' });
+
+    expect(created).toMatchObject({ id: '1', name: 'Ancud', coords: [-41.87, -73.83] });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.test/api/v1/zonas');
+    expect(init?.method).toBe('POST');
+    expect(init?.headers).toMatchObject({
+      Authorization: 'Bearer tok',
+      'X-Extra': '1',
+      'ngrok-skip-browser-warning': 'true',
+      'Content-Type': 'application/json',
+    });
+    expect(JSON.parse(String(init?.body))).toMatchObject({ name: 'Ancud' });
+  });
+
+  it('reports a rejected token and notifies the app', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(401, { detail: 'expired' }));
+    const onUnauthorized = vi.fn();
+    const api = createApiClient({ baseUrl: 'https://api.test', getSession: () => session, onUnauthorized });
+
+    await expect(api.listZones()).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(onUnauthorized).toHaveBeenCalledOnce();
+  });
+
+  it('turns a failed login into a credentials message without logging out', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(401, { detail: 'bad credentials' }));
+    const onUnauthorized = vi.fn();
+    const api = createApiClient({ baseUrl: 'https://api.test', onUnauthorized });
+
+    await expect(api.login('ana', 'x')).rejects.toThrow('Usuario o contraseña incorrectos.');
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it('includes the FastAPI detail in server errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(422, { detail: 'zona_id requerido' }));
+    const api = createApiClient({ baseUrl: 'https://api.test' });
+
+    const err = await api.listZones().catch(e => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.status).toBe(422);
+    expect(err.message).toBe('Error Servidor (422): zona_id requerido');
+  });
+
+  it('maps fetch failures to network errors', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const api = createApiClient({ baseUrl: 'https://api.test' });
+
+    const err = await api.listZones().catch(e => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.isNetworkError).toBe(true);
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    fetchMock.mockResolvedValue(new Response('<html>ngrok</html>', { status: 200 }));
+    const api = createApiClient({ baseUrl: 'https://api.test' });
+
+    await expect(api.listZones()).rejects.toBeInstanceOf(ContractError);
+  });
+
+  it('tells timeouts and cancellations apart', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+    const api = createApiClient({ baseUrl: 'https://api.test' });
+
+    await expect(api.getRegistro(1, { timeoutMs: 10 })).rejects.toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    const pending = api.getRegistro(1, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  describe('password recovery and sign-up', () => {
+    it('requests a reset link without sending the session token', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+      const api = createApiClient({ baseUrl: 'https://api.test', getSession: () => session });
+
+      await expect(api.requestPasswordReset('ana@bluegrid.cl')).resolves.toBeUndefined();
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test/api/v1/auth/password-reset');
+      expect(init?.method).toBe('POST');
+      expect(init?.headers).not.toHaveProperty('Authorization');
+      expect(JSON.parse(String(init?.body))).toEqual({ identificador: 'ana@bluegrid.cl' });
+    });
+
+    it('confirms the new password with the emailed token', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, { ok: true }));
+      const api = createApiClient({ baseUrl: 'https://api.test' });
+
+      await api.confirmPasswordReset('abc123', 'nueva-clave');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test/api/v1/auth/password-reset/confirm');
+      expect(JSON.parse(String(init?.body))).toEqual({ token: 'abc123', password: 'nueva-clave' });
+    });
+
+    it('reports an expired reset token without logging anyone out', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(401, { detail: 'Token expirado' }));
+      const onUnauthorized = vi.fn();
+      const api = createApiClient({ baseUrl: 'https://api.test', onUnauthorized });
+
+      const err = await api.confirmPasswordReset('viejo', 'nueva-clave').catch(e => e);
+      expect(err).not.toBeInstanceOf(UnauthorizedError);
+      expect(err.message).toBe('Error Servidor (401): Token expirado');
+      expect(onUnauthorized).not.toHaveBeenCalled();
+    });
+
+    it('sends sign-up requests and surfaces the reason they were refused', async () => {
+      const form = { username: 'pedro', name: 'Pedro', email: 'pedro@bluegrid.cl', password: 'clave-segura', motivo: 'buzo Calbuco' };
+      fetchMock.mockResolvedValueOnce(jsonResponse(201, { id: 4 }));
+      const api = createApiClient({ baseUrl: 'https://api.test' });
+
+      await api.requestSignUp(form);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test/api/v1/auth/registro');
+      expect(JSON.parse(String(init?.body))).toEqual(form);
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(409, { detail: 'El usuario ya existe' }));
+      await expect(api.requestSignUp(form)).rejects.toThrow('Error Servidor (409): El usuario ya existe');
+    });
+
+    it('shows the connection message when the server cannot be reached', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+      const api = createApiClient({ baseUrl: 'https://api.test' });
+
+      const err = await api.requestPasswordReset('ana').catch(e => e);
+      expect(describeApiError(err, 'Error de conexión con el servidor.')).toBe('Error de conexión con el servidor.');
+    });
+  });
+});
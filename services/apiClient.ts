@@ -0,0 +1,374 @@
+import {
+  OCRResponse, PendingRegistro, ValidationRequest, TrainingFeedbackRequest,
+  UserFormData, UserRole, SignUpFormData, ZoneFormData
+} from '../types';
+import { AuthSession, sessionFromTokenResponse } from './auth';
+import {
+  ContractError, parseAcknowledgement, parseTokenResponse, parseRegistro, parseUserResponse, parseUserList,
+  parsePasswordReset, parsePendingSignUps, parseZoneList, parseZoneResponse
+} from './contract';
+import { mockFetch, simulateUploadProgress } from './mockBackend';
+import { debugWarn } from './logger';
+
+// Single typed client for every Bluegrid backend call. It owns the base URL,
+// the ngrok header, the bearer token and the error parsing so call sites only
+// deal with typed results and `ApiError`s.
+
+export class ApiError extends Error {
+  // 0 means the request never reached the server (network / CORS failure)
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+// The request did not finish within its timeout. Counts as a network failure
+// (status 0) so it is retried like one.
+export class TimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(0, `El servidor no respondió en ${Math.round(timeoutMs / 1000)} s.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The caller aborted the request (e.g. the user pressed "Cancelar").
+// Not an `ApiError`: it is never retried nor shown as a failure.
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Solicitud cancelada.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// The backend rejected the bearer token. The client has already notified
+// `onUnauthorized`, so call sites can usually ignore it.
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Sesión no autorizada.') {
+    super(401, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export interface ApiClientConfig {
+  baseUrl: string;
+  headers?: Record<string, string>; // Extra headers from the backend profile
+  demo?: boolean; // Answer every call from the in-browser mock backend
+  getSession?: () => AuthSession | null;
+  onUnauthorized?: () => void;
+}
+
+interface RequestOptions {
+  method?: string;
+  body?: unknown; // FormData is sent as-is, anything else as JSON
+  auth?: boolean; // Attach the bearer token and treat 401 as session expiry (default true)
+  signal?: AbortSignal;
+  timeoutMs?: number; // Covers the whole exchange, including reading the body
+}
+
+// Per-call controls for long-running requests such as uploads
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface UploadCallOptions extends CallOptions {
+  // Fraction of the request body sent so far (0..1); 1 once the server has it all
+  onUploadProgress?: (fraction: number) => void;
+}
+
+export interface HealthResult {
+  ok: boolean;
+  status: number;
+  latencyMs: number;
+  version?: string; // As reported by `GET /`, when the backend exposes it
+}
+
+// Extracts the FastAPI `detail` / generic `message` from an error body
+const errorDetail = (errorBody: string, statusText: string): string => {
+  if (!errorBody) return statusText;
+  try {
+    const jsonError = JSON.parse(errorBody);
+    const detail = jsonError.detail ?? jsonError.message;
+    return typeof detail === 'string' ? detail : JSON.stringify(detail ?? jsonError);
+  } catch {
+    return errorBody;
+  }
+};
+
+const parseErrorResponse = async (response: Response): Promise<string> => {
+  let errorBody = '';
+  try {
+    errorBody = await response.text();
+  } catch (e) {}
+  return errorDetail(errorBody, response.statusText);
+};
+
+// Parsers that validate a response body at runtime (see contract.ts)
+type Parser<T> = (raw: unknown) => T;
+
+// Every body goes through a parser; endpoints whose answer is ignored use `parseAcknowledgement`
+const parseBody = <T>(text: string, parse: Parser<T>): T => {
+  // 204 No Content and empty bodies
+  let body: unknown = undefined;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ContractError('respuesta', 'no es JSON válido');
+    }
+  }
+  return parse(body);
+};
+
+// User-facing message for any error thrown by the client
+export const describeApiError = (err: unknown, networkMessage = 'Error de conexión.'): string => {
+  if (err instanceof TimeoutError) return err.message;
+  if (err instanceof ApiError && err.isNetworkError) return networkMessage;
+  if (err instanceof Error && err.message) return err.message;
+  if (typeof err === 'string' && err) return err;
+  return 'Error desconocido.';
+};
+
+export const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// `GET /` answers e.g. {"message": "Bluegrid OCR API", "version": "2.1.0"}
+const parseBackendVersion = (text: string): string | undefined => {
+  try {
+    const body = JSON.parse(text);
+    const version = body?.version ?? body?.api_version ?? body?.app_version;
+    return version === undefined || version === null ? undefined : String(version);
+  } catch {
+    return undefined;
+  }
+};
+
+export const createApiClient = ({ baseUrl, headers: extraHeaders, demo = false, getSession, onUnauthorized }: ApiClientConfig) => {
+  const root = normalizeBaseUrl(baseUrl);
+  const transport: typeof fetch = demo ? (input, init) => mockFetch(String(input), init) : fetch;
+
+  const baseHeaders = (auth: boolean): Record<string, string> => {
+    const headers: Record<string, string> = { 'ngrok-skip-browser-warning': 'true', ...extraHeaders };
+    const session = auth ? getSession?.() : null;
+    if (session) headers['Authorization'] = `Bearer ${session.accessToken}`;
+    return headers;
+  };
+
+  const send = async (path: string, { method = 'GET', body, auth = true, signal }: RequestOptions = {}): Promise<Response> => {
+    const headers = baseHeaders(auth);
+
+    let payload: BodyInit | undefined;
+    if (body instanceof FormData) {
+      payload = body;
+    } else if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      payload = JSON.stringify(body);
+    }
+
+    let response: Response;
+    try {
+      response = await transport(`${root}${path}`, { method, headers, body: payload, signal });
+    } catch (err: any) {
+      debugWarn(`[API] ${method} ${path} sin respuesta:`, err);
+      throw new ApiError(0, err?.message || 'Failed to fetch');
+    }
+
+    if (auth && response.status === 401) {
+      onUnauthorized?.();
+      throw new UnauthorizedError();
+    }
+    if (!response.ok) {
+      throw new ApiError(response.status, `Error Servidor (${response.status}): ${await parseErrorResponse(response)}`);
+    }
+    return response;
+  };
+
+  // Reads the whole response as text, honouring the caller's signal and timeout
+  const fetchText = async (path: string, options: RequestOptions = {}): Promise<{ status: number; text: string }> => {
+    const { signal, timeoutMs } = options;
+    if (signal?.aborted) throw new RequestCancelledError();
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = timeoutMs ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : undefined;
+
+    try {
+      const response = await send(path, { ...options, signal: controller.signal });
+      return { status: response.status, text: await response.text() };
+    } catch (err) {
+      // `send` reports an aborted fetch as a network error; tell the two causes apart
+      if (timedOut) throw new TimeoutError(timeoutMs!);
+      if (signal?.aborted) throw new RequestCancelledError();
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  const request = async <T>(path: string, options: RequestOptions, parse: Parser<T>): Promise<T> =>
+    parseBody((await fetchText(path, options)).text, parse);
+
+  // XMLHttpRequest transport for multipart uploads: fetch cannot report how much
+  // of the request body has been sent. Errors map exactly like `fetchText`.
+  const uploadText = (path: string, body: FormData, { signal, timeoutMs, onUploadProgress }: UploadCallOptions): Promise<string> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new RequestCancelledError());
+
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${root}${path}`);
+      Object.entries(baseHeaders(true)).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      if (timeoutMs) xhr.timeout = timeoutMs;
+
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable && e.total > 0) onUploadProgress?.(e.loaded / e.total);
+      };
+      xhr.upload.onload = () => onUploadProgress?.(1);
+
+      const abort = () => xhr.abort();
+      signal?.addEventListener('abort', abort);
+      xhr.onloadend = () => signal?.removeEventListener('abort', abort);
+
+      xhr.onload = () => {
+        if (xhr.status === 401) {
+          onUnauthorized?.();
+          reject(new UnauthorizedError());
+        } else if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new ApiError(xhr.status, `Error Servidor (${xhr.status}): ${errorDetail(xhr.responseText, xhr.statusText)}`));
+        } else {
+          resolve(xhr.responseText);
+        }
+      };
+      xhr.onerror = () => {
+        debugWarn(`[API] POST ${path} sin respuesta`);
+        reject(new ApiError(0, 'Failed to fetch'));
+      };
+      xhr.ontimeout = () => reject(new TimeoutError(timeoutMs!));
+      xhr.onabort = () => reject(new RequestCancelledError());
+
+      xhr.send(body);
+    });
+
+  const userPath = (username: string) => `/api/v1/usuarios/${encodeURIComponent(username)}`;
+
+  return {
+    baseUrl: root,
+
+    // --- Connectivity ---
+    health: async (call: CallOptions = {}): Promise<HealthResult> => {
+      const startedAt = performance.now();
+      const elapsed = () => Math.round(performance.now() - startedAt);
+      try {
+        const { status, text } = await fetchText('/', { auth: false, ...call });
+        return { ok: true, status, latencyMs: elapsed(), version: parseBackendVersion(text) };
+      } catch (err) {
+        if (err instanceof ApiError && !err.isNetworkError) return { ok: false, status: err.status, latencyMs: elapsed() };
+        throw err;
+      }
+    },
+
+    // --- Auth ---
+    login: async (username: string, password: string): Promise<AuthSession> => {
+      try {
+        const body = await request('/api/v1/auth/login', {
+          method: 'POST', body: { username, password }, auth: false
+        }, parseTokenResponse);
+        return sessionFromTokenResponse(body);
+      } catch (err) {
+        if (err instanceof ApiError && (err.status === 401 || err.status === 403)) {
+          throw new ApiError(err.status, 'Usuario o contraseña incorrectos.');
+        }
+        throw err;
+      }
+    },
+
+    refreshSession: async (session: AuthSession): Promise<AuthSession> => {
+      const body = await request('/api/v1/auth/refresh', {
+        method: 'POST', body: { refresh_token: session.refreshToken }, auth: false
+      }, parseTokenResponse);
+      return sessionFromTokenResponse(body, session);
+    },
+
+    // Sends a reset link to the account's email. The backend answers the same
+    // whether or not the account exists, so we never reveal which users exist.
+    requestPasswordReset: (identifier: string) =>
+      request('/api/v1/auth/password-reset', { method: 'POST', body: { identificador: identifier }, auth: false }, parseAcknowledgement),
+
+    confirmPasswordReset: (token: string, password: string) =>
+      request('/api/v1/auth/password-reset/confirm', { method: 'POST', body: { token, password }, auth: false }, parseAcknowledgement),
+
+    // Creates an inactive account that an admin must approve before it can log in
+    requestSignUp: (data: SignUpFormData) =>
+      request('/api/v1/auth/registro', { method: 'POST', body: data, auth: false }, parseAcknowledgement),
+
+    // --- Registros (OCR) ---
+    // Returns the response already validated and adapted to the internal shape.
+    // Async backends answer with a `PendingRegistro` to be polled via `getRegistro`.
+    // `fields` are sent as extra multipart fields (e.g. the source PDF and page)
+    uploadRegistro: async (
+      file: File, zonaId: string, call: UploadCallOptions = {}, fields: Record<string, string> = {}
+    ): Promise<OCRResponse | PendingRegistro> => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('zona_id', zonaId);
+      Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+      if (demo) {
+        await simulateUploadProgress(file.size, call.onUploadProgress, call.signal)
+          .catch(err => { throw call.signal?.aborted ? new RequestCancelledError() : err; });
+        return request('/api/v1/registros', { method: 'POST', body: formData, ...call }, parseRegistro);
+      }
+      return parseBody(await uploadText('/api/v1/registros', formData, call), parseRegistro);
+    },
+
+    getRegistro: (registroId: number, call: CallOptions = {}) =>
+      request(`/api/v1/registros/${registroId}`, call, parseRegistro),
+
+    validateRegistro: (registroId: number, body: ValidationRequest) =>
+      request(`/api/v1/registros/${registroId}/validacion`, { method: 'PUT', body }, parseAcknowledgement),
+
+    sendTrainingFeedback: (body: TrainingFeedbackRequest) =>
+      request('/api/v1/training/feedback', { method: 'POST', body }, parseAcknowledgement),
+
+    // --- Users (admin) ---
+    listUsers: () => request('/api/v1/usuarios', {}, parseUserList),
+
+    createUser: (data: UserFormData) =>
+      request('/api/v1/usuarios', { method: 'POST', body: data }, parseUserResponse),
+
+    updateUser: (username: string, changes: Partial<UserFormData> & { active?: boolean }) =>
+      request(userPath(username), { method: 'PATCH', body: changes }, parseUserResponse),
+
+    // The backend generates a temporary password that must be handed to the user
+    resetUserPassword: (username: string) =>
+      request(`${userPath(username)}/reset-password`, { method: 'POST' }, parsePasswordReset),
+
+    listPendingSignUps: () => request('/api/v1/usuarios/solicitudes', {}, parsePendingSignUps),
+
+    approveSignUp: (requestId: number, assignment: { role: UserRole; zonas?: string[] }) =>
+      request(`/api/v1/usuarios/solicitudes/${requestId}/aprobar`, { method: 'POST', body: assignment }, parseUserResponse),
+
+    rejectSignUp: (requestId: number) =>
+      request(`/api/v1/usuarios/solicitudes/${requestId}/rechazar`, { method: 'POST' }, parseAcknowledgement),
+
+    // --- Zones ---
+    // Includes archived zones (active: false) so old registros keep their names
+    listZones: () => request('/api/v1/zonas', {}, parseZoneList),
+
+    createZone: (data: ZoneFormData) =>
+      request('/api/v1/zonas', { method: 'POST', body: data }, parseZoneResponse),
+
+    // Archiving is `{ active: false }`; zones are never deleted
+    updateZone: (zoneId: string, changes: Partial<ZoneFormData> & { active?: boolean }) =>
+      request(`/api/v1/zonas/${encodeURIComponent(zoneId)}`, { method: 'PATCH', body: changes }, parseZoneResponse),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AuthSession, decodeTokenClaims, sessionFromTokenResponse } from './auth';
+
+const base64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Unsigned JWT; the frontend never verifies signatures
+const makeToken = (claims: Record<string, unknown>) =>
+  `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}.firma`;
+
+describe('decodeTokenClaims', () => {
+  it('decodes UTF-8 claims from the payload', () => {
+    const claims = decodeTokenClaims(makeToken({ sub: 'jperez', name: 'José Peña', role: 'buzo' }));
+    expect(claims).toEqual({ sub: 'jperez', name: 'José Peña', role: 'buzo' });
+  });
+
+  it('rejects tokens that are not three segments', () => {
+    expect(() => decodeTokenClaims('abc.def')).toThrow('Token inválido');
+  });
+
+  it('rejects payloads that are not JSON', () => {
+    expect(() => decodeTokenClaims(`x.${base64Url('no json')}.y`)).toThrow('No se pudo leer el token');
+  });
+});
+
+describe('sessionFromTokenResponse', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('builds the user and session window from the claims', () => {
+    const token = makeToken({ sub: 'ana', name: 'Ana', role: 'supervisor', zonas: [1, '2'], iat: 1_700_000_000, exp: 1_700_003_600 });
+    const session = sessionFromTokenResponse({ access_token: token, refresh_token: 'r1' });
+
+    expect(session.accessToken).toBe(token);
+    expect(session.refreshToken).toBe('r1');
+    expect(session.user).toEqual({
+      username: 'ana',
+      name: 'Ana',
+      role: 'supervisor',
+      zonas: ['1', '2'],
+      session: { issuedAt: 1_700_000_000_000, expiresAt: 1_700_003_600_000 },
+    });
+  });
+
+  it('falls back to expires_in when the token has no exp claim', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const session = sessionFromTokenResponse({ access_token: makeToken({ sub: 'ana', role: 'admin' }), expires_in: 120 });
+    expect(session.user.session).toEqual({ issuedAt: 1_000_000, expiresAt: 1_120_000 });
+  });
+
+  it('keeps the previous refresh token when the backend does not rotate it', () => {
+    const previous = sessionFromTokenResponse({ access_token: makeToken({ sub: 'ana', role: 'admin' }), refresh_token: 'r1' });
+    const renewed: AuthSession = sessionFromTokenResponse({ access_token: makeToken({ sub: 'ana', role: 'admin' }) }, previous);
+    expect(renewed.refreshToken).toBe('r1');
+  });
+
+  it('rejects unknown roles and responses without a token', () => {
+    expect(() => sessionFromTokenResponse({ access_token: makeToken({ sub: 'x', role: 'root' }) })).toThrow('Rol no reconocido');
+    expect(() => sessionFromTokenResponse({ access_token: '' })).toThrow('sin token');
+  });
+});
@@ -0,0 +1,84 @@
+import { User, UserRole, SessionInfo } from '../types';
+
+// Token-based authentication against the Bluegrid backend.
+// The backend issues a signed JWT whose claims carry the user's role; the
+// frontend only decodes it to build the `User`, it never trusts local input.
+// The HTTP calls themselves live in the API client.
+
+const VALID_ROLES: UserRole[] = ['admin', 'supervisor', 'buzo'];
+
+// Refresh the token this long before it actually expires
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  user: User & { session: SessionInfo };
+}
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type?: string;
+  expires_in?: number; // seconds
+}
+
+interface TokenClaims {
+  sub?: string;
+  name?: string;
+  role?: string;
+  zonas?: string[];
+  exp?: number; // epoch seconds
+  iat?: number;
+}
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  // atob returns latin1; re-decode as UTF-8 so names with accents survive
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const decodeTokenClaims = (token: string): TokenClaims => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Token inválido recibido del servidor.');
+  }
+  try {
+    return JSON.parse(decodeBase64Url(parts[1]));
+  } catch {
+    throw new Error('No se pudo leer el token del servidor.');
+  }
+};
+
+export const sessionFromTokenResponse = (body: TokenResponse, previous?: AuthSession): AuthSession => {
+  if (!body || !body.access_token) {
+    throw new Error('Respuesta de autenticación sin token.');
+  }
+
+  const claims = decodeTokenClaims(body.access_token);
+  const role = claims.role as UserRole;
+  if (!VALID_ROLES.includes(role)) {
+    throw new Error(`Rol no reconocido en el token: ${claims.role ?? '(vacío)'}`);
+  }
+
+  const issuedAt = claims.iat ? claims.iat * 1000 : Date.now();
+  const expiresAt = claims.exp
+    ? claims.exp * 1000
+    : Date.now() + (body.expires_in ?? 3600) * 1000;
+
+  return {
+    accessToken: body.access_token,
+    // Backends that rotate refresh tokens send a new one; otherwise keep the old
+    refreshToken: body.refresh_token ?? previous?.refreshToken,
+    user: {
+      username: claims.sub || previous?.user.username || '',
+      name: claims.name || claims.sub || '',
+      role,
+      zonas: Array.isArray(claims.zonas) ? claims.zonas.map(String) : undefined,
+      session: { issuedAt, expiresAt },
+    },
+  };
+};
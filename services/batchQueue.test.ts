@@ -0,0 +1,105 @@
+// @vitest-environment happy-dom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OCRResponse } from '../types';
+import { ApiClient, ApiError, RequestCancelledError, UploadCallOptions } from './apiClient';
+import { useBatchQueue } from './batchQueue';
+
+// Compression and EXIF need a real browser; the queue only cares that they resolve
+vi.mock('./imageProcessing', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./imageProcessing')>(),
+  prepareUploadFile: async (file: File) => file,
+}));
+vi.mock('./photoMetadata', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./photoMetadata')>(),
+  collectPhotoMetadata: async () => ({ capturedAt: '2024-03-18T17:05:09.000Z', capturedAtSource: 'file' }),
+}));
+
+const result = (id: number): OCRResponse => ({
+  id, estado: 'pendiente_validacion', zona_id: 1,
+  resultado_ia: { status: 'ok', promedio_confianza: 0.9, matriz: [] },
+});
+
+type Behaviour = (signal?: AbortSignal) => Promise<OCRResponse>;
+
+// Uploads answer per file name; `running` tracks how many overlap
+const fakeApi = (behaviours: Record<string, Behaviour>) => {
+  let running = 0;
+  const overlaps: number[] = [];
+  const uploadRegistro = vi.fn(async (file: File, _zonaId: string, call: UploadCallOptions = {}) => {
+    overlaps.push(++running);
+    try {
+      return await behaviours[file.name](call.signal);
+    } finally {
+      running--;
+    }
+  });
+  return { api: { uploadRegistro } as unknown as ApiClient, uploadRegistro, overlaps };
+};
+
+const files = (...names: string[]) => names.map(name => new File(['x'], name, { type: 'image/jpeg' }));
+const statuses = (items: { file: File; status: string }[]) => items.map(i => `${i.file.name}:${i.status}`);
+
+// Never settles until the item is removed
+const hang: Behaviour = (signal) => new Promise((_, reject) => {
+  signal?.addEventListener('abort', () => reject(new RequestCancelledError()));
+});
+
+beforeEach(() => localStorage.clear());
+
+describe('useBatchQueue', () => {
+  it('uploads the planillas one at a time, in the order they were added', async () => {
+    const { api, uploadRegistro, overlaps } = fakeApi({
+      'a.jpg': async () => result(1), 'b.jpg': async () => result(2), 'c.jpg': async () => result(3),
+    });
+    const { result: queue } = renderHook(() => useBatchQueue(api));
+
+    act(() => queue.current.addFiles(files('a.jpg', 'b.jpg', 'c.jpg'), '1'));
+
+    await waitFor(() => expect(queue.current.readyItems).toHaveLength(3));
+    expect(uploadRegistro.mock.calls.map(([file]) => file.name)).toEqual(['a.jpg', 'b.jpg', 'c.jpg']);
+    expect(Math.max(...overlaps)).toBe(1);
+    expect(queue.current.readyItems.map(i => i.result?.id)).toEqual([1, 2, 3]);
+    expect(queue.current.pendingCount).toBe(0);
+  });
+
+  it('keeps going after an upload the backend rejects', async () => {
+    const { api } = fakeApi({
+      'a.jpg': async () => result(1),
+      'b.jpg': async () => { throw new ApiError(422, 'Imagen ilegible'); },
+      'c.jpg': async () => result(3),
+    });
+    const { result: queue } = renderHook(() => useBatchQueue(api));
+
+    act(() => queue.current.addFiles(files('a.jpg', 'b.jpg', 'c.jpg'), '1'));
+
+    await waitFor(() => expect(statuses(queue.current.items)).toEqual(['a.jpg:ready', 'b.jpg:error', 'c.jpg:ready']));
+    expect(queue.current.items[1].error).toBe('Imagen ilegible');
+  });
+
+  it('moves on to the next planilla when the running one is removed', async () => {
+    const { api, uploadRegistro } = fakeApi({ 'a.jpg': hang, 'b.jpg': async () => result(2) });
+    const { result: queue } = renderHook(() => useBatchQueue(api));
+
+    act(() => queue.current.addFiles(files('a.jpg', 'b.jpg'), '1'));
+    await waitFor(() => expect(uploadRegistro).toHaveBeenCalledOnce());
+
+    act(() => queue.current.remove(queue.current.items[0].id));
+
+    await waitFor(() => expect(statuses(queue.current.items)).toEqual(['b.jpg:ready']));
+  });
+
+  it('offers the next finished planilla once one is validated', async () => {
+    const { api } = fakeApi({ 'a.jpg': async () => result(1), 'b.jpg': async () => result(2) });
+    const { result: queue } = renderHook(() => useBatchQueue(api));
+
+    act(() => queue.current.addFiles(files('a.jpg', 'b.jpg'), '1'));
+    await waitFor(() => expect(queue.current.readyItems).toHaveLength(2));
+
+    act(() => queue.current.markValidated(queue.current.readyItems[0].id));
+    expect(queue.current.readyItems.map(i => i.file.name)).toEqual(['b.jpg']);
+
+    act(() => queue.current.clearFinished());
+    expect(statuses(queue.current.items)).toEqual(['b.jpg:ready']);
+  });
+});
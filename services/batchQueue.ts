@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OCRResponse, RegistroSource } from '../types';
+import { ApiClient, RequestCancelledError, UnauthorizedError, describeApiError } from './apiClient';
+import { withRetry } from './retry';
+import { waitForRegistro } from './registroJobs';
+import { prepareUploadFile } from './imageProcessing';
+import { sourceUploadFields } from './pdf';
+import { rememberRegistroMetadata, rememberRegistroSource, rememberRegistroTemplate } from './registroSources';
+import { templateUploadFields } from './templates';
+import { collectPhotoMetadata, metadataUploadFields } from './photoMetadata';
+import { UPLOAD_MAX_ATTEMPTS, UPLOAD_RETRY_BASE_MS, getUploadTimeoutSeconds } from './settings';
+import { debugError, debugLog } from './logger';
+
+// Batch digitization: several planillas selected at once are uploaded one
+// after another in the background while the user validates the ones already
+// processed. One upload at a time keeps a single Colab GPU from being flooded.
+// The queue lives in memory; the outbox is what survives reloads.
+
+export type BatchStatus =
+  | 'waiting'
+  | 'uploading'
+  | 'processing'
+  | 'ready'      // OCR result available, not validated yet
+  | 'validated'
+  | 'error';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  zonaId: string;
+  source?: RegistroSource; // Set for pages extracted from a PDF
+  templateId?: string;     // Template picked for this upload instead of the zone's
+  status: BatchStatus;
+  percent: number;       // Upload progress while 'uploading'
+  estado?: string;       // Backend job state while 'processing'
+  attempt?: number;
+  result?: OCRResponse;
+  error?: string;
+}
+
+const newItemId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isBatchItemActive = (item: BatchItem) => item.status === 'uploading' || item.status === 'processing';
+
+export const useBatchQueue = (api: ApiClient) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const activeRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  // Mirrors activeRef so that the queue moves on when an upload ends without
+  // changing any item (e.g. the running one was removed)
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const update = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(i => (i.id === id ? { ...i, ...patch } : i)));
+  }, []);
+
+  const process = useCallback(async (item: BatchItem) => {
+    const controller = new AbortController();
+    activeRef.current = { id: item.id, controller };
+    setActiveId(item.id);
+    const timeoutMs = getUploadTimeoutSeconds() * 1000;
+    update(item.id, { status: 'uploading', percent: 0, error: undefined });
+
+    try {
+      // Before compression, which drops the EXIF; PDF pages have none
+      const metadata = item.source ? undefined : await collectPhotoMetadata(item.file);
+      const file = await prepareUploadFile(item.file);
+      const registro = await withRetry(
+        () => api.uploadRegistro(file, item.zonaId, {
+          signal: controller.signal,
+          timeoutMs,
+          onUploadProgress: (fraction) => update(item.id, fraction >= 1
+            ? { status: 'processing', percent: 100 }
+            : { percent: Math.round(fraction * 100) }),
+        }, { ...sourceUploadFields(item.source), ...metadataUploadFields(metadata), ...templateUploadFields(item.templateId) }),
+        {
+          maxAttempts: UPLOAD_MAX_ATTEMPTS,
+          baseDelayMs: UPLOAD_RETRY_BASE_MS,
+          signal: controller.signal,
+          onAttempt: (attempt) => update(item.id, { status: 'uploading', percent: 0, attempt }),
+        }
+      );
+      const result = await waitForRegistro(api, registro, {
+        signal: controller.signal,
+        timeoutMs,
+        onStatus: (estado) => update(item.id, { status: 'processing', estado }),
+      });
+      if (item.source) rememberRegistroSource(result.id, item.source);
+      if (metadata) rememberRegistroMetadata(result.id, metadata);
+      if (item.templateId) rememberRegistroTemplate(result.id, item.templateId);
+      update(item.id, { status: 'ready', result, estado: undefined });
+      debugLog(`[Batch] ${item.file.name} procesada (registro #${result.id}).`);
+    } catch (err) {
+      // Removed from the queue while running; nothing left to update
+      if (err instanceof RequestCancelledError) return;
+      debugError(`[Batch] Error procesando ${item.file.name}:`, err);
+      update(item.id, {
+        status: 'error',
+        estado: undefined,
+        error: err instanceof UnauthorizedError
+          ? 'La sesión expiró.'
+          : describeApiError(err, 'Sin conexión con el servidor.'),
+      });
+    } finally {
+      if (activeRef.current?.id === item.id) {
+        activeRef.current = null;
+        setActiveId(null);
+      }
+    }
+  }, [api, update]);
+
+  // Start the next waiting item whenever nothing is running
+  useEffect(() => {
+    if (activeRef.current) return;
+    const next = items.find(i => i.status === 'waiting');
+    if (next) process(next);
+  }, [items, activeId, process]);
+
+  // Abort whatever is running when the queue goes away (logout)
+  useEffect(() => () => activeRef.current?.controller.abort(), []);
+
+  // `sources[i]` tells where `files[i]` came from, when known
+  const addFiles = useCallback((
+    files: File[], zonaId: string, sources: (RegistroSource | undefined)[] = [], templateId?: string
+  ) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map((file, i) => ({ id: newItemId(), file, zonaId, source: sources[i], templateId, status: 'waiting' as const, percent: 0 })),
+    ]);
+  }, []);
+
+  // Only items not sent yet can change zone
+  const setZone = useCallback((id: string, zonaId: string) => {
+    setItems(prev => prev.map(i => (i.id === id && (i.status === 'waiting' || i.status === 'error') ? { ...i, zonaId } : i)));
+  }, []);
+
+  const retry = useCallback((id: string) => update(id, { status: 'waiting', error: undefined, attempt: undefined }), [update]);
+
+  const remove = useCallback((id: string) => {
+    if (activeRef.current?.id === id) activeRef.current.controller.abort();
+    setItems(prev => prev.filter(i => i.id !== id));
+  }, []);
+
+  const markValidated = useCallback((id: string) => update(id, { status: 'validated' }), [update]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(i => i.status !== 'validated'));
+  }, []);
+
+  const clear = useCallback(() => {
+    activeRef.current?.controller.abort();
+    setItems([]);
+  }, []);
+
+  const readyItems = items.filter(i => i.status === 'ready');
+
+  return {
+    items,
+    readyItems,
+    // Uploads still to be sent or processed
+    pendingCount: items.filter(i => i.status === 'waiting' || isBatchItemActive(i)).length,
+    addFiles,
+    setZone,
+    retry,
+    remove,
+    markValidated,
+    clearFinished,
+    clear,
+  };
+};
+
+export type BatchQueue = ReturnType<typeof useBatchQueue>;
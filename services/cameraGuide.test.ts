@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FramingState, SHEET_ASPECT, Tilt, analyzeFraming, guideRect, isTiltLevel } from './cameraGuide';
+import { Quad, detectDocumentCorners } from './imageProcessing';
+
+// Corner detection needs real pixels; these tests feed it synthetic quads
+vi.mock('./imageProcessing', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./imageProcessing')>(),
+  detectDocumentCorners: vi.fn(),
+}));
+
+describe('guideRect', () => {
+  it('centres a sheet-shaped guide limited by the narrow side', () => {
+    const portrait = guideRect(1000, 2000);
+    expect(portrait.width).toBeCloseTo(820);
+    expect(portrait.width / portrait.height).toBeCloseTo(SHEET_ASPECT);
+    expect(portrait.x).toBeCloseTo(90);
+    expect(portrait.y + portrait.height / 2).toBeCloseTo(1000);
+
+    const landscape = guideRect(2000, 1000);
+    expect(landscape.height).toBeCloseTo(820);
+    expect(landscape.x + landscape.width / 2).toBeCloseTo(1000);
+  });
+});
+
+describe('isTiltLevel', () => {
+  it('accepts a phone held roughly flat over the sheet', () => {
+    expect(isTiltLevel({ beta: 0, gamma: 0 })).toBe(true);
+    expect(isTiltLevel({ beta: -12, gamma: 12 })).toBe(true);
+    expect(isTiltLevel({ beta: 30, gamma: 0 })).toBe(false);
+    expect(isTiltLevel({ beta: 0, gamma: -15 })).toBe(false);
+  });
+});
+
+describe('analyzeFraming', () => {
+  const frame = { width: 400, height: 300 } as HTMLCanvasElement;
+  const level: Tilt = { beta: 2, gamma: -1 };
+
+  // The guide rectangle scaled by `scale` around its centre, shifted by `dx`
+  const sheetQuad = (scale = 1, dx = 0): Quad => {
+    const guide = guideRect(frame.width, frame.height);
+    const cx = guide.x + guide.width / 2 + dx;
+    const cy = guide.y + guide.height / 2;
+    const w = (guide.width * scale) / 2;
+    const h = (guide.height * scale) / 2;
+    return [{ x: cx - w, y: cy - h }, { x: cx + w, y: cy - h }, { x: cx + w, y: cy + h }, { x: cx - w, y: cy + h }];
+  };
+
+  const stateFor = (quad: Quad | null, previous: Quad | null = quad, tilt: Tilt | null = level): FramingState => {
+    vi.mocked(detectDocumentCorners).mockReturnValue(quad);
+    return analyzeFraming(frame, previous, tilt).state;
+  };
+
+  beforeEach(() => vi.mocked(detectDocumentCorners).mockReset());
+
+  it('keeps searching until a sheet is found', () => {
+    expect(stateFor(null)).toBe('searching');
+  });
+
+  it('asks to come closer or step back depending on how much of the guide the sheet fills', () => {
+    expect(stateFor(sheetQuad(0.7))).toBe('too-far');
+    expect(stateFor(sheetQuad(1.15))).toBe('too-close');
+    // Corners at the border of the preview are probably cut off
+    expect(stateFor(sheetQuad(1, -110))).toBe('too-close');
+  });
+
+  it('asks to hold the phone parallel to the sheet', () => {
+    expect(stateFor(sheetQuad(), sheetQuad(), { beta: 30, gamma: 0 })).toBe('tilted');
+    const [tl, tr, br, bl] = sheetQuad();
+    const keystone: Quad = [{ x: tl.x + 20, y: tl.y }, { x: tr.x - 20, y: tr.y }, br, bl];
+    expect(stateFor(keystone)).toBe('tilted');
+  });
+
+  it('waits for the framing to hold still before capturing', () => {
+    expect(stateFor(sheetQuad(), null)).toBe('moving');
+    expect(stateFor(sheetQuad(), sheetQuad(1, 20))).toBe('moving');
+    expect(stateFor(sheetQuad(), sheetQuad(1, 2))).toBe('ready');
+  });
+
+  it('is ready without tilt readings when the sheet looks square-on', () => {
+    expect(stateFor(sheetQuad(), sheetQuad(), null)).toBe('ready');
+  });
+});
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Point, Quad, detectDocumentCorners, quadArea } from './imageProcessing';
+import { debugWarn } from './logger';
+
+// Live guidance for the in-app camera: where the sheet is in the preview,
+// whether the phone is level and at a good distance, and when the framing has
+// been steady long enough to take the photo automatically.
+
+// Planilla proportions (A4 portrait) and the share of the preview the guide covers
+export const SHEET_ASPECT = 1 / Math.SQRT2;
+const GUIDE_FILL = 0.82;
+// Detected sheet area relative to the guide
+const MIN_GUIDE_COVERAGE = 0.6;
+const MAX_GUIDE_COVERAGE = 1.2;
+// Corners closer than this to the preview border are probably cut off
+const EDGE_MARGIN = 0.02;
+// Phone tilt (degrees from flat) and side-length ratio accepted as level
+const MAX_TILT_DEG = 12;
+const MAX_SIDE_RATIO = 1.15;
+// Corner movement between frames, as a share of the preview diagonal
+const MAX_JITTER = 0.015;
+// Analysis runs every ANALYSIS_INTERVAL_MS; this many steady frames trigger the shot
+export const ANALYSIS_INTERVAL_MS = 250;
+export const STEADY_FRAMES_TO_CAPTURE = 4;
+
+export type FramingState = 'searching' | 'too-far' | 'too-close' | 'tilted' | 'moving' | 'ready';
+
+export interface FramingFeedback {
+  state: FramingState;
+  message: string;
+  // Detected sheet in frame pixels, if any
+  quad: Quad | null;
+}
+
+export interface Tilt {
+  beta: number;  // Front-back, 0 when the phone lies flat
+  gamma: number; // Left-right, 0 when the phone lies flat
+}
+
+const MESSAGES: Record<FramingState, string> = {
+  searching: 'Encuadre la planilla dentro del marco.',
+  'too-far': 'Acérquese a la planilla.',
+  'too-close': 'Aléjese un poco, la planilla no cabe completa.',
+  tilted: 'Ponga el teléfono paralelo a la planilla.',
+  moving: 'Mantenga el teléfono quieto...',
+  ready: 'Listo, capturando...',
+};
+
+// Centered sheet-shaped rectangle the user aligns the planilla with
+export const guideRect = (width: number, height: number) => {
+  const w = Math.min(width * GUIDE_FILL, height * GUIDE_FILL * SHEET_ASPECT);
+  const h = w / SHEET_ASPECT;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+};
+
+const sideLength = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Opposite sides of very different length mean the sheet is seen at an angle
+const isQuadSkewed = ([tl, tr, br, bl]: Quad) => {
+  const ratio = (a: number, b: number) => Math.max(a, b) / Math.max(1, Math.min(a, b));
+  return ratio(sideLength(tl, tr), sideLength(bl, br)) > MAX_SIDE_RATIO
+    || ratio(sideLength(tl, bl), sideLength(tr, br)) > MAX_SIDE_RATIO;
+};
+
+export const isTiltLevel = (tilt: Tilt) => Math.abs(tilt.beta) <= MAX_TILT_DEG && Math.abs(tilt.gamma) <= MAX_TILT_DEG;
+
+// `frame` is a downscaled copy of the current video frame; `previous` is the
+// quad found in the last analyzed frame, used to tell whether the phone moved.
+export const analyzeFraming = (frame: HTMLCanvasElement, previous: Quad | null, tilt: Tilt | null): FramingFeedback => {
+  const { width, height } = frame;
+  const feedback = (state: FramingState, quad: Quad | null): FramingFeedback => ({ state, message: MESSAGES[state], quad });
+
+  const quad = detectDocumentCorners(frame);
+  if (!quad) return feedback('searching', null);
+
+  const guide = guideRect(width, height);
+  const coverage = quadArea(quad) / (guide.width * guide.height);
+  const touchesEdge = quad.some(p =>
+    p.x < width * EDGE_MARGIN || p.x > width * (1 - EDGE_MARGIN) ||
+    p.y < height * EDGE_MARGIN || p.y > height * (1 - EDGE_MARGIN));
+  if (touchesEdge || coverage > MAX_GUIDE_COVERAGE) return feedback('too-close', quad);
+  if (coverage < MIN_GUIDE_COVERAGE) return feedback('too-far', quad);
+
+  if ((tilt && !isTiltLevel(tilt)) || isQuadSkewed(quad)) return feedback('tilted', quad);
+
+  const jitter = previous
+    ? Math.max(...quad.map((p, i) => sideLength(p, previous[i]))) / Math.hypot(width, height)
+    : Infinity;
+  return feedback(jitter <= MAX_JITTER ? 'ready' : 'moving', quad);
+};
+
+// iOS only reports orientation after an explicit permission prompt, which must
+// come from a user gesture: call this from the click that opens the camera.
+export const requestOrientationAccess = () => {
+  const orientation = window.DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<string> } | undefined;
+  orientation?.requestPermission?.().catch(err => debugWarn("[Camera] Sin acceso a la orientación del dispositivo:", err));
+};
+
+export const canUseInAppCamera = () => window.isSecureContext && !!navigator.mediaDevices?.getUserMedia;
+
+// Latest phone tilt, or null when the device does not report orientation
+export const useDeviceTilt = (): Tilt | null => {
+  const [tilt, setTilt] = useState<Tilt | null>(null);
+
+  useEffect(() => {
+    const onOrientation = (event: DeviceOrientationEvent) => {
+      if (event.beta === null || event.gamma === null) return;
+      // Whole degrees are enough and avoid re-rendering on sensor noise
+      const next = { beta: Math.round(event.beta), gamma: Math.round(event.gamma) };
+      setTilt(prev => (prev && prev.beta === next.beta && prev.gamma === next.gamma ? prev : next));
+    };
+    window.addEventListener('deviceorientation', onOrientation);
+    return () => window.removeEventListener('deviceorientation', onOrientation);
+  }, []);
+
+  return tilt;
+};
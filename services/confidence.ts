@@ -0,0 +1,5 @@
+// OCR reads below this confidence are highlighted for the user to check, both
+// in the matrix and in the planilla header
+export const LOW_CONFIDENCE_THRESHOLD = 0.85;
+
+export const isLowConfidence = (confianza: number) => confianza < LOW_CONFIDENCE_THRESHOLD;
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContractError, parseAcknowledgement, parseOCRResponse, parsePasswordReset, parsePendingSignUps, parseRegistro,
+  parseRowIndex, parseTokenResponse, parseUserList, parseZoneList,
+} from './contract';
+
+const cell = (overrides: Record<string, unknown> = {}) => ({ fila: 'Fila 1', col: 0, valor: '3', confianza: 0.9, ...overrides });
+
+// Runs `fn` and returns the ContractError it throws
+const contractError = (fn: () => unknown): ContractError => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ContractError) return err;
+    throw err;
+  }
+  throw new Error('se esperaba un ContractError');
+};
+
+describe('parseRowIndex', () => {
+  it('reads "Fila N" as 1-based and bare numbers as 0-based', () => {
+    expect(parseRowIndex('Fila 1')).toBe(0);
+    expect(parseRowIndex('fila10')).toBe(9);
+    expect(parseRowIndex('3')).toBe(3);
+    expect(parseRowIndex(2)).toBe(2);
+  });
+
+  it('returns -1 for labels it cannot understand', () => {
+    expect(parseRowIndex('Total')).toBe(-1);
+    expect(parseRowIndex(1.5)).toBe(-1);
+  });
+});
+
+describe('parseOCRResponse', () => {
+  it('adapts the v2 layout and averages confidence when missing', () => {
+    const parsed = parseOCRResponse({
+      id: '12', estado: 'pendiente_validacion', zona_id: 1, plantilla_id: 'pulpo_nidos',
+      resultado_ia: { status: 'ok', matriz: [cell({ confianza: 0.8 }), cell({ col: 1, confianza: '1', valor: 4 })] },
+    });
+
+    expect(parsed.id).toBe(12);
+    expect(parsed.plantilla_id).toBe('pulpo_nidos');
+    expect(parsed.resultado_ia.promedio_confianza).toBeCloseTo(0.9);
+    expect(parsed.resultado_ia.matriz[1]).toMatchObject({ col: 1, valor: '4', confianza: 1 });
+  });
+
+  it('adapts the legacy flat layout', () => {
+    const parsed = parseOCRResponse({ id: 1, estado: 'x', zona_id: 2, matriz: [cell({ valor: null })] });
+    expect(parsed.resultado_ia.status).toBe('legacy');
+    expect(parsed.resultado_ia.matriz[0].valor).toBe('');
+  });
+
+  it('keeps scored header reads and drops empty ones', () => {
+    const parsed = parseOCRResponse({
+      id: 1, estado: 'x', zona_id: 1,
+      resultado_ia: {
+        status: 'ok', matriz: [],
+        encabezado: { buzo: { valor: ' Juan ', confianza: 0.6 }, profundidad_m: 12.5, embarcacion: '', desconocido: 'x' },
+      },
+    });
+    expect(parsed.resultado_ia.encabezado).toEqual({
+      buzo: { valor: 'Juan', confianza: 0.6 },
+      profundidad_m: { valor: '12.5', confianza: 1 },
+    });
+  });
+
+  it('names the offending field', () => {
+    const base = { id: 1, estado: 'x', zona_id: 1 };
+    expect(contractError(() => parseOCRResponse({ ...base, resultado_ia: { status: 'ok', matriz: [cell(), cell({ confianza: 2 })] } })).field)
+      .toBe('resultado_ia.matriz[1].confianza');
+    expect(contractError(() => parseOCRResponse({ ...base, resultado_ia: { status: 'ok', matriz: [cell({ fila: 'Total' })] } })).field)
+      .toBe('resultado_ia.matriz[0].fila');
+    expect(contractError(() => parseOCRResponse(base)).field).toBe('resultado_ia');
+    expect(contractError(() => parseOCRResponse([])).field).toBe('respuesta');
+  });
+});
+
+describe('parseRegistro', () => {
+  it('returns the job header while the OCR is still running', () => {
+    expect(parseRegistro({ id: 5, estado: 'en_cola', resultado_ia: null })).toEqual({ id: 5, estado: 'en_cola' });
+  });
+
+  it('returns the full result once available', () => {
+    const parsed = parseRegistro({ id: 5, estado: 'listo', zona_id: 1, resultado_ia: { status: 'ok', matriz: [] } });
+    expect('resultado_ia' in parsed).toBe(true);
+  });
+});
+
+describe('auth and user parsers', () => {
+  it('parses token responses', () => {
+    expect(parseTokenResponse({ access_token: 'a', expires_in: '3600', refresh_token: null }))
+      .toEqual({ access_token: 'a', refresh_token: undefined, token_type: undefined, expires_in: 3600 });
+    expect(contractError(() => parseTokenResponse({ token: 'a' })).field).toBe('access_token');
+  });
+
+  it('parses the temporary password of a reset', () => {
+    expect(parsePasswordReset({ password_temporal: 'Xy12' })).toEqual({ password_temporal: 'Xy12' });
+    expect(contractError(() => parsePasswordReset({})).field).toBe('password_temporal');
+  });
+
+  it('accepts any acknowledgement body', () => {
+    expect(parseAcknowledgement(undefined)).toBeUndefined();
+    expect(parseAcknowledgement({ ok: true })).toBeUndefined();
+  });
+
+  it('parses users and rejects unknown roles', () => {
+    const [user] = parseUserList([{ username: 'ana', name: 'Ana', role: 'buzo', zonas: [1, 2] }]);
+    expect(user).toMatchObject({ username: 'ana', role: 'buzo', zonas: ['1', '2'], lastLogin: null });
+    expect(contractError(() => parseUserList([{ username: 'x', name: 'X', role: 'root' }])).field).toBe('usuarios[0].role');
+  });
+
+  it('rejects loosely typed active flags and zone ids', () => {
+    const base = { username: 'ana', name: 'Ana', role: 'buzo' };
+    expect(parseUserList([{ ...base, active: false }])[0].active).toBe(false);
+    expect(contractError(() => parseUserList([{ ...base, active: 'false' }])).field).toBe('usuarios[0].active');
+    expect(contractError(() => parseUserList([{ ...base, active: 0 }])).field).toBe('usuarios[0].active');
+    expect(contractError(() => parseUserList([{ ...base, zonas: [1, { id: 2 }] }])).field).toBe('usuarios[0].zonas[1]');
+  });
+
+  it('parses pending sign-ups', () => {
+    const [request] = parsePendingSignUps([{ id: '3', username: 'u', name: 'U', email: 'u@x.cl', solicitado: '2024-03-01T10:00:00Z' }]);
+    expect(request).toMatchObject({ id: 3, username: 'u', motivo: undefined });
+  });
+});
+
+describe('parseZoneList', () => {
+  it('stringifies ids, reads coordinates and defaults to active', () => {
+    expect(parseZoneList([{ id: 4, name: 'Ancud', lat: '-41.8', lng: -73.8, plantilla_id: 'pulpo_transecta' }])).toEqual([
+      { id: '4', name: 'Ancud', coords: [-41.8, -73.8], active: true, templateId: 'pulpo_transecta' },
+    ]);
+  });
+
+  it('keeps archived zones archived', () => {
+    const zone = { id: 4, name: 'Ancud', lat: -41.8, lng: -73.8 };
+    expect(parseZoneList([{ ...zone, active: false }])[0].active).toBe(false);
+    expect(contractError(() => parseZoneList([{ ...zone, active: 'false' }])).field).toBe('zonas[0].active');
+  });
+
+  it('rejects zones without coordinates', () => {
+    expect(contractError(() => parseZoneList([{ id: 1, name: 'X', lat: -41 }])).field).toBe('zonas[0].lng');
+  });
+});
@@ -0,0 +1,316 @@
+import { OCRResponse, PendingRegistro, MatrixCell, IA_Result, OCRHeader, PlanillaHeader, User, UserRole, PendingSignUp, Zone } from '../types';
+import type { TokenResponse } from './auth';
+
+// Runtime validation of backend payloads. TypeScript types vanish at runtime,
+// so every response is checked here before the UI touches it. Versioned
+// adapters map each known response layout onto the single internal shape.
+
+export class ContractError extends Error {
+  // Dotted path of the offending field, e.g. "resultado_ia.matriz[3].confianza"
+  field: string;
+
+  constructor(field: string, problem: string) {
+    super(`Respuesta inválida del servidor: el campo "${field}" ${problem}.`);
+    this.name = 'ContractError';
+    this.field = field;
+  }
+}
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'ausente';
+  if (value === null) return 'null';
+  const json = JSON.stringify(value);
+  return `${typeof value} ${json && json.length > 40 ? json.slice(0, 40) + '…' : json}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectRecord = (value: unknown, field: string): Record<string, unknown> => {
+  if (!isRecord(value)) throw new ContractError(field, `debe ser un objeto (recibido: ${describe(value)})`);
+  return value;
+};
+
+const expectArray = (value: unknown, field: string): unknown[] => {
+  if (!Array.isArray(value)) throw new ContractError(field, `debe ser una lista (recibido: ${describe(value)})`);
+  return value;
+};
+
+const expectString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new ContractError(field, `debe ser texto (recibido: ${describe(value)})`);
+  return value;
+};
+
+const optionalString = (value: unknown, field: string): string | undefined =>
+  value === undefined || value === null ? undefined : expectString(value, field);
+
+// Accepts numbers and numeric strings ("3", "0.91"), which Python backends emit interchangeably
+const expectNumber = (value: unknown, field: string): number => {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    throw new ContractError(field, `debe ser un número (recibido: ${describe(value)})`);
+  }
+  return num;
+};
+
+const optionalBoolean = (value: unknown, field: string): boolean | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new ContractError(field, `debe ser verdadero o falso (recibido: ${describe(value)})`);
+  return value;
+};
+
+// Ids may come as numbers or strings; the app keys everything by string
+const expectId = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new ContractError(field, `debe ser texto o número (recibido: ${describe(value)})`);
+  }
+  return String(value);
+};
+
+// Parses "Fila X" (1-based) or a raw number (0-based) into a 0-based row index.
+// Returns -1 when the label cannot be understood.
+export const parseRowIndex = (rowLabel: string | number): number => {
+  if (typeof rowLabel === 'number') return Number.isInteger(rowLabel) ? rowLabel : -1;
+
+  // Check if it matches "Fila X" format specifically
+  const matchFila = rowLabel.match(/Fila\s*(\d+)/i);
+  if (matchFila) {
+    // "Fila 1" -> 0, "Fila 10" -> 9
+    return parseInt(matchFila[1], 10) - 1;
+  }
+
+  // If it's just a raw number string "0", "1", "10", treat as 0-based index directly
+  const matchNum = rowLabel.trim().match(/^(\d+)$/);
+  if (matchNum) {
+    return parseInt(matchNum[1], 10);
+  }
+
+  return -1;
+};
+
+const parseCell = (raw: unknown, field: string): MatrixCell => {
+  const cell = expectRecord(raw, field);
+
+  if (typeof cell.fila !== 'string' && typeof cell.fila !== 'number') {
+    throw new ContractError(`${field}.fila`, `debe ser "Fila N" o un número (recibido: ${describe(cell.fila)})`);
+  }
+  if (parseRowIndex(cell.fila) < 0) {
+    throw new ContractError(`${field}.fila`, `no es una fila reconocible (recibido: ${describe(cell.fila)})`);
+  }
+
+  const col = expectNumber(cell.col, `${field}.col`);
+  if (!Number.isInteger(col) || col < 0) {
+    throw new ContractError(`${field}.col`, `debe ser un entero ≥ 0 (recibido: ${describe(cell.col)})`);
+  }
+
+  const confianza = expectNumber(cell.confianza, `${field}.confianza`);
+  if (confianza < 0 || confianza > 1) {
+    throw new ContractError(`${field}.confianza`, `debe estar entre 0 y 1 (recibido: ${confianza})`);
+  }
+
+  // Empty OCR reads may come back as null; digits may come back as numbers
+  const valor = cell.valor === null || cell.valor === undefined
+    ? ''
+    : typeof cell.valor === 'number' ? String(cell.valor) : expectString(cell.valor, `${field}.valor`);
+
+  return {
+    fila: cell.fila,
+    col,
+    valor,
+    confianza,
+    ref_id: optionalString(cell.ref_id, `${field}.ref_id`),
+    recorte_base64: optionalString(cell.recorte_base64, `${field}.recorte_base64`),
+    valor_original: optionalString(cell.valor_original, `${field}.valor_original`),
+  };
+};
+
+const parseMatrix = (raw: unknown, field: string): MatrixCell[] =>
+  expectArray(raw, field).map((cell, i) => parseCell(cell, `${field}[${i}]`));
+
+const HEADER_FIELDS: (keyof PlanillaHeader)[] = ['fecha_buceo', 'buzo', 'embarcacion', 'profundidad_m', 'condiciones_mar', 'observaciones'];
+
+// Each field is `{ valor, confianza }`, or a bare value when the backend does
+// not score it. Unknown keys are ignored; empty reads are dropped.
+const parseOCRHeader = (raw: unknown, field: string): OCRHeader => {
+  const header = expectRecord(raw, field);
+  const parsed: OCRHeader = {};
+  for (const key of HEADER_FIELDS) {
+    const entry = header[key];
+    if (entry === undefined || entry === null) continue;
+    const reading = isRecord(entry) ? entry : { valor: entry };
+    const valor = typeof reading.valor === 'number'
+      ? String(reading.valor)
+      : optionalString(reading.valor, `${field}.${key}.valor`)?.trim();
+    if (!valor) continue;
+    const confianza = reading.confianza === undefined ? 1 : expectNumber(reading.confianza, `${field}.${key}.confianza`);
+    if (confianza < 0 || confianza > 1) {
+      throw new ContractError(`${field}.${key}.confianza`, `debe estar entre 0 y 1 (recibido: ${confianza})`);
+    }
+    parsed[key] = { valor, confianza };
+  }
+  return parsed;
+};
+
+const averageConfidence = (cells: MatrixCell[]) =>
+  cells.length ? cells.reduce((acc, c) => acc + c.confianza, 0) / cells.length : 0;
+
+// --- Versioned OCR response adapters ---
+
+interface OCRAdapter {
+  version: string;
+  matches: (raw: Record<string, unknown>) => boolean;
+  adapt: (raw: Record<string, unknown>) => OCRResponse;
+}
+
+const parseHeader = (raw: Record<string, unknown>) => ({
+  id: expectNumber(raw.id, 'id'),
+  estado: expectString(raw.estado, 'estado'),
+  zona_id: expectNumber(raw.zona_id, 'zona_id'),
+  plantilla_id: optionalString(raw.plantilla_id, 'plantilla_id'),
+});
+
+const OCR_ADAPTERS: OCRAdapter[] = [
+  {
+    // Bluegrid_OCRv2: matrix nested under `resultado_ia`
+    version: 'v2',
+    matches: (raw) => 'resultado_ia' in raw,
+    adapt: (raw) => {
+      const ia = expectRecord(raw.resultado_ia, 'resultado_ia');
+      const matriz = parseMatrix(ia.matriz, 'resultado_ia.matriz');
+      const resultado: IA_Result = {
+        status: expectString(ia.status, 'resultado_ia.status'),
+        promedio_confianza: ia.promedio_confianza === undefined
+          ? averageConfidence(matriz)
+          : expectNumber(ia.promedio_confianza, 'resultado_ia.promedio_confianza'),
+        matriz,
+        encabezado: ia.encabezado === undefined || ia.encabezado === null
+          ? undefined
+          : parseOCRHeader(ia.encabezado, 'resultado_ia.encabezado'),
+      };
+      return { ...parseHeader(raw), resultado_ia: resultado };
+    },
+  },
+  {
+    // Legacy: flat `matriz` at the top level
+    version: 'legacy',
+    matches: (raw) => 'matriz' in raw,
+    adapt: (raw) => {
+      const matriz = parseMatrix(raw.matriz, 'matriz');
+      return {
+        ...parseHeader(raw),
+        resultado_ia: {
+          status: typeof raw.status === 'string' ? raw.status : 'legacy',
+          promedio_confianza: raw.promedio_confianza === undefined
+            ? averageConfidence(matriz)
+            : expectNumber(raw.promedio_confianza, 'promedio_confianza'),
+          matriz,
+        },
+      };
+    },
+  },
+];
+
+export const parseOCRResponse = (raw: unknown): OCRResponse => {
+  const body = expectRecord(raw, 'respuesta');
+  const adapter = OCR_ADAPTERS.find(a => a.matches(body));
+  if (!adapter) {
+    throw new ContractError('resultado_ia', 'no está presente (tampoco el formato legacy "matriz")');
+  }
+  return adapter.adapt(body);
+};
+
+// Upload / status responses from async backends: either the finished OCR
+// result or just the job header while `resultado_ia` is still missing (or null)
+export const parseRegistro = (raw: unknown): OCRResponse | PendingRegistro => {
+  const body = expectRecord(raw, 'respuesta');
+  const hasResult = (body.resultado_ia !== undefined && body.resultado_ia !== null) || 'matriz' in body;
+  if (hasResult) return parseOCRResponse(body);
+  return {
+    id: expectNumber(body.id, 'id'),
+    estado: expectString(body.estado, 'estado'),
+  };
+};
+
+// --- Acknowledgements ---
+
+// Endpoints whose answer carries nothing the app uses (204, {"ok": true},
+// {"detail": "..."}). Any body is accepted and dropped, never passed on unchecked.
+export const parseAcknowledgement = (_raw: unknown): void => undefined;
+
+// --- Auth API ---
+
+export const parseTokenResponse = (raw: unknown): TokenResponse => {
+  const body = expectRecord(raw, 'token');
+  return {
+    access_token: expectString(body.access_token, 'access_token'),
+    refresh_token: optionalString(body.refresh_token, 'refresh_token'),
+    token_type: optionalString(body.token_type, 'token_type'),
+    expires_in: body.expires_in === undefined || body.expires_in === null
+      ? undefined
+      : expectNumber(body.expires_in, 'expires_in'),
+  };
+};
+
+// --- Users API ---
+
+const VALID_ROLES: UserRole[] = ['admin', 'supervisor', 'buzo'];
+
+const parseUser = (raw: unknown, field: string): User => {
+  const u = expectRecord(raw, field);
+  const role = expectString(u.role, `${field}.role`) as UserRole;
+  if (!VALID_ROLES.includes(role)) {
+    throw new ContractError(`${field}.role`, `no es un rol válido (recibido: ${describe(u.role)})`);
+  }
+  return {
+    username: expectString(u.username, `${field}.username`),
+    name: expectString(u.name, `${field}.name`),
+    role,
+    zonas: u.zonas === undefined || u.zonas === null
+      ? undefined
+      : expectArray(u.zonas, `${field}.zonas`).map((id, i) => expectId(id, `${field}.zonas[${i}]`)),
+    email: optionalString(u.email, `${field}.email`),
+    active: optionalBoolean(u.active, `${field}.active`),
+    lastLogin: optionalString(u.lastLogin, `${field}.lastLogin`) ?? null,
+  };
+};
+
+export const parseUserResponse = (raw: unknown): User => parseUser(raw, 'usuario');
+
+export const parseUserList = (raw: unknown): User[] =>
+  expectArray(raw, 'usuarios').map((u, i) => parseUser(u, `usuarios[${i}]`));
+
+export const parsePasswordReset = (raw: unknown): { password_temporal: string } => ({
+  password_temporal: expectString(expectRecord(raw, 'respuesta').password_temporal, 'password_temporal'),
+});
+
+export const parsePendingSignUps = (raw: unknown): PendingSignUp[] =>
+  expectArray(raw, 'solicitudes').map((item, i) => {
+    const field = `solicitudes[${i}]`;
+    const r = expectRecord(item, field);
+    return {
+      id: expectNumber(r.id, `${field}.id`),
+      username: expectString(r.username, `${field}.username`),
+      name: expectString(r.name, `${field}.name`),
+      email: expectString(r.email, `${field}.email`),
+      motivo: optionalString(r.motivo, `${field}.motivo`),
+      solicitado: expectString(r.solicitado, `${field}.solicitado`),
+    };
+  });
+
+// --- Zones API ---
+
+const parseZone = (raw: unknown, field: string): Zone => {
+  const z = expectRecord(raw, field);
+  return {
+    id: expectId(z.id, `${field}.id`),
+    name: expectString(z.name, `${field}.name`),
+    coords: [expectNumber(z.lat, `${field}.lat`), expectNumber(z.lng, `${field}.lng`)],
+    active: optionalBoolean(z.active, `${field}.active`) ?? true,
+    templateId: optionalString(z.plantilla_id, `${field}.plantilla_id`),
+  };
+};
+
+export const parseZoneResponse = (raw: unknown): Zone => parseZone(raw, 'zona');
+
+export const parseZoneList = (raw: unknown): Zone[] =>
+  expectArray(raw, 'zonas').map((z, i) => parseZone(z, `zonas[${i}]`));
@@ -0,0 +1,23 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatDraftTime } from './drafts';
+
+describe('formatDraftTime', () => {
+  const now = new Date(2024, 2, 15, 16, 0);
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  const minutesAgo = (minutes: number) => now.getTime() - minutes * 60000;
+
+  it('describes recent saves relative to now', () => {
+    expect(formatDraftTime(minutesAgo(0.5))).toBe('hace un momento');
+    expect(formatDraftTime(minutesAgo(5))).toBe('hace 5 min');
+  });
+
+  it('shows the time for earlier saves today and the date before that', () => {
+    expect(formatDraftTime(minutesAgo(90))).toMatch(/^hoy a las /);
+    expect(formatDraftTime(minutesAgo(24 * 60))).toContain(new Date(minutesAgo(24 * 60)).toLocaleDateString());
+  });
+});
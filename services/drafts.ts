@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MatrixCell, OCRResponse, PlanillaHeader } from '../types';
+import { STORE_DRAFTS, idbClear, idbDelete, idbGet, idbGetAll, idbPut } from './idb';
+
+// Local drafts of matrix validations in progress, one per registro. They keep
+// the edited cells together with the OCR result and the photo, so a reload or
+// a crashed tab can pick up exactly where the user left off. They are removed
+// once the validation is saved or the user discards them, and all of them on
+// logout, so the next person on a shared device cannot open them.
+
+export interface ValidationDraft {
+  registroId: number;
+  username: string;
+  zonaId: string;
+  ocrData: OCRResponse;
+  cells: MatrixCell[];
+  header?: PlanillaHeader; // Absent in drafts saved before the header form existed
+  image: File | null;
+  updatedAt: number;
+}
+
+// Edits are written after this much quiet time
+export const DRAFT_SAVE_DELAY_MS = 1000;
+
+export const loadDraft = async (registroId: number, username: string): Promise<ValidationDraft | null> => {
+  const draft = await idbGet<ValidationDraft>(STORE_DRAFTS, registroId);
+  return draft && draft.username === username ? draft : null;
+};
+
+// Called from `clearSession`; the hook's pending save must be cancelled first
+export const clearDrafts = () =>
+  idbClear(STORE_DRAFTS).catch(err => console.error("[Drafts] No se pudieron borrar los borradores:", err));
+
+// "hace 5 min", "hoy a las 14:32", or a full date for older drafts
+export const formatDraftTime = (timestamp: number): string => {
+  const elapsedMin = Math.floor((Date.now() - timestamp) / 60000);
+  if (elapsedMin < 1) return 'hace un momento';
+  if (elapsedMin < 60) return `hace ${elapsedMin} min`;
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return `hoy a las ${time}`;
+  return `${date.toLocaleDateString()} ${time}`;
+};
+
+export const useDrafts = (username: string | null) => {
+  const [drafts, setDrafts] = useState<ValidationDraft[]>([]);
+  const pendingRef = useRef<{ draft: ValidationDraft; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!username) {
+      setDrafts([]);
+      return;
+    }
+    const all = await idbGetAll<ValidationDraft>(STORE_DRAFTS);
+    setDrafts(all.filter(d => d.username === username).sort((a, b) => b.updatedAt - a.updatedAt));
+  }, [username]);
+
+  useEffect(() => {
+    refresh().catch(err => console.error("[Drafts] No se pudieron leer los borradores:", err));
+  }, [refresh]);
+
+  const write = useCallback(async (draft: ValidationDraft) => {
+    try {
+      await idbPut(STORE_DRAFTS, draft);
+      await refresh();
+    } catch (err) {
+      console.error("[Drafts] No se pudo guardar el borrador:", err);
+    }
+  }, [refresh]);
+
+  // Writes whatever is still waiting for the debounce
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingRef.current = null;
+    write(pending.draft);
+  }, [write]);
+
+  // Debounced save; successive edits of the same registro coalesce
+  const scheduleSave = useCallback((draft: Omit<ValidationDraft, 'username' | 'updatedAt'>) => {
+    if (!username) return;
+    if (pendingRef.current) clearTimeout(pendingRef.current.timer);
+    const full: ValidationDraft = { ...draft, username, updatedAt: Date.now() };
+    pendingRef.current = {
+      draft: full,
+      timer: setTimeout(() => {
+        pendingRef.current = null;
+        write(full);
+      }, DRAFT_SAVE_DELAY_MS),
+    };
+  }, [username, write]);
+
+  // Drops the edit waiting for the debounce instead of writing it (logout)
+  const cancelPending = useCallback(() => {
+    if (pendingRef.current) clearTimeout(pendingRef.current.timer);
+    pendingRef.current = null;
+  }, []);
+
+  // Don't lose the last second of edits when the tab is hidden or closed
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const remove = useCallback(async (registroId: number) => {
+    if (pendingRef.current?.draft.registroId === registroId) {
+      clearTimeout(pendingRef.current.timer);
+      pendingRef.current = null;
+    }
+    try {
+      await idbDelete(STORE_DRAFTS, registroId);
+      await refresh();
+    } catch (err) {
+      console.error("[Drafts] No se pudo eliminar el borrador:", err);
+    }
+  }, [refresh]);
+
+  return { drafts, scheduleSave, flush, cancelPending, remove };
+};
+
+export type Drafts = ReturnType<typeof useDrafts>;
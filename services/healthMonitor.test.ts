@@ -0,0 +1,42 @@
+// @vitest-environment happy-dom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { ApiClient, RequestCancelledError } from './apiClient';
+import { DEGRADED_LATENCY_MS, classifyHealth, useBackendHealth } from './healthMonitor';
+
+describe('classifyHealth', () => {
+  it('is online when the backend answers quickly', () => {
+    expect(classifyHealth({ ok: true, status: 200, latencyMs: 120, version: '2.1.0' }))
+      .toMatchObject({ status: 'online', latencyMs: 120, version: '2.1.0' });
+  });
+
+  it('treats 4xx on the root route as reachable', () => {
+    expect(classifyHealth({ ok: false, status: 404, latencyMs: 80 }).status).toBe('online');
+  });
+
+  it('is degraded on server errors', () => {
+    expect(classifyHealth({ ok: false, status: 502, latencyMs: 80 }))
+      .toMatchObject({ status: 'degraded', detail: 'El servidor responde con error 502.' });
+  });
+
+  it('is degraded when answers are too slow for uploads', () => {
+    expect(classifyHealth({ ok: true, status: 200, latencyMs: DEGRADED_LATENCY_MS + 500 }))
+      .toMatchObject({ status: 'degraded', detail: 'El servidor responde lento (3.5 s).' });
+  });
+});
+
+describe('useBackendHealth', () => {
+  it('keeps pinging after a ping is cancelled', async () => {
+    const health = vi.fn()
+      .mockRejectedValueOnce(new RequestCancelledError())
+      .mockResolvedValue({ ok: true, status: 200, latencyMs: 50 });
+    const api = { health } as unknown as ApiClient;
+    const { result, unmount } = renderHook(() => useBackendHealth(api));
+    await waitFor(() => expect(health).toHaveBeenCalledOnce());
+
+    await act(async () => { result.current.checkNow(); });
+    await waitFor(() => expect(result.current.status).toBe('online'));
+    expect(health).toHaveBeenCalledTimes(2);
+    unmount();
+  });
+});
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiClient, HealthResult, RequestCancelledError, describeApiError } from './apiClient';
+import { debugLog } from './logger';
+
+// Background connectivity monitor. Pings `GET /` periodically so the UI can
+// show whether the backend is reachable before the user starts photographing
+// a planilla, instead of finding out when the upload fails.
+
+export type BackendStatus = 'checking' | 'online' | 'degraded' | 'offline';
+
+export interface BackendHealth {
+  status: BackendStatus;
+  latencyMs?: number;
+  version?: string;
+  detail?: string; // Why the backend is degraded / offline
+  lastCheckedAt?: number;
+}
+
+export const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+// Check more often while the backend is not healthy so recovery shows up quickly
+export const HEALTH_RECHECK_INTERVAL_MS = 10 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 8 * 1000;
+// Slower than this the backend answers, but uploads will likely time out
+export const DEGRADED_LATENCY_MS = 3000;
+
+export const classifyHealth = (result: HealthResult): BackendHealth => {
+  const base = { latencyMs: result.latencyMs, version: result.version, lastCheckedAt: Date.now() };
+  // 4xx on `/` still proves the server is up (e.g. no root route); 5xx does not
+  if (result.status >= 500) {
+    return { ...base, status: 'degraded', detail: `El servidor responde con error ${result.status}.` };
+  }
+  if (result.latencyMs > DEGRADED_LATENCY_MS) {
+    return { ...base, status: 'degraded', detail: `El servidor responde lento (${(result.latencyMs / 1000).toFixed(1)} s).` };
+  }
+  return { ...base, status: 'online' };
+};
+
+// Restarts whenever the client changes (e.g. a different backend profile)
+export const useBackendHealth = (api: ApiClient): BackendHealth & { checkNow: () => void } => {
+  const [health, setHealth] = useState<BackendHealth>({ status: 'checking' });
+  const checkRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let inFlight = false;
+    let lastStatus: BackendStatus = 'checking';
+    setHealth({ status: 'checking' });
+
+    const check = async () => {
+      if (inFlight || controller.signal.aborted) return;
+      clearTimeout(timer);
+      // Skip pings while the tab is hidden; `handleVisibility` resumes them
+      if (document.visibilityState === 'hidden') return;
+      inFlight = true;
+
+      let next: BackendHealth;
+      try {
+        next = navigator.onLine
+          ? classifyHealth(await api.health({ signal: controller.signal, timeoutMs: HEALTH_CHECK_TIMEOUT_MS }))
+          : { status: 'offline', detail: 'El dispositivo no tiene conexión a internet.', lastCheckedAt: Date.now() };
+      } catch (err) {
+        if (err instanceof RequestCancelledError) return;
+        next = {
+          status: 'offline',
+          detail: describeApiError(err, 'No se pudo contactar al servidor.'),
+          lastCheckedAt: Date.now(),
+        };
+      } finally {
+        // Also after a cancelled ping, or later checks would be skipped for good
+        inFlight = false;
+      }
+      if (controller.signal.aborted) return;
+
+      if (next.status !== lastStatus) {
+        debugLog(`[Health] Backend ${lastStatus} -> ${next.status}`, next.detail ?? '');
+        lastStatus = next.status;
+      }
+      setHealth(next);
+      timer = setTimeout(check, next.status === 'online' ? HEALTH_CHECK_INTERVAL_MS : HEALTH_RECHECK_INTERVAL_MS);
+    };
+
+    // Check right away when the tab comes back into view
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    checkRef.current = check;
+    check();
+    window.addEventListener('online', check);
+    window.addEventListener('offline', check);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+      window.removeEventListener('online', check);
+      window.removeEventListener('offline', check);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [api]);
+
+  const checkNow = useCallback(() => checkRef.current(), []);
+
+  return { ...health, checkNow };
+};
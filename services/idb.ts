@@ -0,0 +1,61 @@
+// Minimal promise wrapper over IndexedDB, shared by every module that keeps
+// data too large or too structured for localStorage (images, queued uploads).
+// Bump DB_VERSION and add the store in `upgrade` when a new one is needed.
+
+const DB_NAME = 'bluegrid';
+const DB_VERSION = 2;
+
+export const STORE_OUTBOX = 'outbox';
+export const STORE_DRAFTS = 'drafts';
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORE_OUTBOX)) {
+    db.createObjectStore(STORE_OUTBOX, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORE_DRAFTS)) {
+    db.createObjectStore(STORE_DRAFTS, { keyPath: 'registroId' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGetAll = <T>(storeName: string) =>
+  run<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbGet = <T>(storeName: string, key: IDBValidKey) =>
+  run<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbPut = <T>(storeName: string, value: T) =>
+  run<IDBValidKey>(storeName, 'readwrite', store => store.put(value));
+
+export const idbDelete = (storeName: string, key: IDBValidKey) =>
+  run<undefined>(storeName, 'readwrite', store => store.delete(key));
+
+export const idbClear = (storeName: string) =>
+  run<undefined>(storeName, 'readwrite', store => store.clear());
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Quad, findSheetCorners, formatBytes, fullFrameQuad, luminance, measureSkew, quadArea, rectifiedSize,
+} from './imageProcessing';
+
+// Luminance image of `width` x `height` filled with `background`
+const grayImage = (width: number, height: number, background: number) => {
+  const gray = new Uint8Array(width * height).fill(background);
+  const set = (x: number, y: number, value: number) => {
+    if (x >= 0 && x < width && y >= 0 && y < height) gray[Math.round(y) * width + Math.round(x)] = value;
+  };
+  return { gray, set };
+};
+
+// Dark ruled lines across a white sheet, sloping `deg` degrees (down to the right)
+const ruledSheet = (deg: number, size = 300) => {
+  const { gray, set } = grayImage(size, size, 255);
+  const slope = Math.tan((deg * Math.PI) / 180);
+  for (let row = 40; row < size - 40; row += 20) {
+    for (let x = 0; x < size; x++) {
+      set(x, row + (x - size / 2) * slope, 0);
+      set(x, row + 1 + (x - size / 2) * slope, 0);
+    }
+  }
+  return gray;
+};
+
+describe('quadArea', () => {
+  it('measures the area whatever the winding', () => {
+    const square: Quad = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    expect(quadArea(square)).toBe(100);
+    expect(quadArea([...square].reverse() as Quad)).toBe(100);
+  });
+
+  it('handles perspective-distorted sheets', () => {
+    expect(quadArea([{ x: 2, y: 0 }, { x: 8, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }])).toBe(80);
+  });
+});
+
+describe('fullFrameQuad', () => {
+  it('frames the photo clockwise from the top-left, slightly inset', () => {
+    expect(fullFrameQuad(1000, 500)).toEqual([
+      { x: 40, y: 20 }, { x: 960, y: 20 }, { x: 960, y: 480 }, { x: 40, y: 480 },
+    ]);
+    expect(quadArea(fullFrameQuad(100, 100, 0))).toBe(10000);
+  });
+});
+
+describe('luminance', () => {
+  it('weights the channels like the eye and ignores alpha', () => {
+    const rgba = new Uint8ClampedArray([255, 255, 255, 0, 0, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+    expect(Array.from(luminance(rgba))).toEqual([255, 0, 149, 28]);
+  });
+});
+
+describe('formatBytes', () => {
+  it('shows KB below a megabyte and MB from there on', () => {
+    expect(formatBytes(512)).toBe('0.5 KB');
+    expect(formatBytes(1024 * 1024 - 1)).toBe('1024.0 KB');
+    expect(formatBytes(2.5 * 1024 * 1024)).toBe('2.5 MB');
+  });
+});
+
+describe('findSheetCorners', () => {
+  it('finds the corners of the bright sheet on a dark background', () => {
+    const { gray, set } = grayImage(100, 80, 30);
+    for (let y = 10; y < 70; y++) for (let x = 20; x < 80; x++) set(x, y, 220);
+    expect(findSheetCorners(gray, 100)).toEqual([{ x: 20, y: 10 }, { x: 79, y: 10 }, { x: 79, y: 69 }, { x: 20, y: 69 }]);
+  });
+
+  it('finds nothing in a photo without a sheet', () => {
+    expect(findSheetCorners(grayImage(100, 80, 30).gray, 100)).toBeNull();
+  });
+});
+
+describe('rectifiedSize', () => {
+  it('flattens a sheet seen in perspective to its longer sides', () => {
+    const quad: Quad = [{ x: 100, y: 50 }, { x: 900, y: 50 }, { x: 1000, y: 1250 }, { x: 0, y: 1250 }];
+    expect(rectifiedSize(quad)).toEqual({ width: 1000, height: 1204 });
+  });
+
+  it('caps the output size keeping the proportions', () => {
+    expect(rectifiedSize(fullFrameQuad(4000, 3000, 0))).toEqual({ width: 2400, height: 1800 });
+  });
+});
+
+describe('measureSkew', () => {
+  it('leaves level rows alone', () => {
+    expect(measureSkew(ruledSheet(0), 300, 300)).toBe(0);
+  });
+
+  it('measures rows that slope a few degrees', () => {
+    expect(measureSkew(ruledSheet(3), 300, 300)).toBeCloseTo((-3 * Math.PI) / 180, 3);
+    expect(measureSkew(ruledSheet(-2), 300, 300)).toBeCloseTo((2 * Math.PI) / 180, 3);
+  });
+});
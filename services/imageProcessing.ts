@@ -0,0 +1,449 @@
+// In-browser cleanup of planilla photos before upload: find the sheet,
+// rectify its perspective, straighten residual skew and optionally stretch
+// contrast. Plain canvas + typed arrays; no computer-vision dependency.
+
+import { getCompressionSettings } from './settings';
+import { debugLog, debugWarn } from './logger';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in source pixels: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface PreprocessOptions {
+  deskew: boolean;
+  enhanceContrast: boolean;
+}
+
+// Larger photos are scaled down first; the OCR gains nothing beyond this
+export const MAX_SOURCE_SIDE = 3000;
+const MAX_OUTPUT_SIDE = 2400;
+// Working size for corner detection and skew estimation
+const ANALYSIS_SIDE = 480;
+// A detected sheet must cover at least this share of the photo
+const MIN_SHEET_AREA = 0.15;
+const MAX_SKEW_DEG = 8;
+const SKEW_STEP_DEG = 0.25;
+
+// --- Canvas helpers ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+export const context2d = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('El navegador no permite procesar imágenes (canvas 2D no disponible).');
+  return ctx;
+};
+
+export const scaledCopy = (source: CanvasImageSource & { width: number; height: number }, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  const ctx = context2d(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { canvas, scale };
+};
+
+// Decodes the photo upright (EXIF orientation applied) and capped at MAX_SOURCE_SIDE
+export const loadSourceImage = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    return scaledCopy(bitmap, MAX_SOURCE_SIDE).canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const canvasToFile = (canvas: HTMLCanvasElement, name: string, quality = 0.92): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('No se pudo codificar la imagen procesada.'));
+      resolve(new File([blob], name, { type: 'image/jpeg', lastModified: Date.now() }));
+    }, 'image/jpeg', quality);
+  });
+
+export interface CompressOptions {
+  maxSide: number;
+  quality: number;
+}
+
+// Downscales and re-encodes as JPEG for upload. Decoding applies the EXIF
+// orientation to the pixels, so the result is upright even though the JPEG
+// written by the canvas carries no EXIF. Keeps the original when re-encoding
+// would not make it smaller.
+export const compressImage = async (file: File, { maxSide, quality }: CompressOptions): Promise<File> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = scaledCopy(bitmap, maxSide).canvas;
+  } finally {
+    bitmap.close();
+  }
+  const name = `${file.name.replace(/\.[^.]+$/, '')}.jpg`;
+  const compressed = await canvasToFile(canvas, name, quality);
+  return compressed.size < file.size ? compressed : file;
+};
+
+// Applies this device's compression settings. Compression is an optimization:
+// if the browser cannot decode the file, the original is uploaded instead.
+export const prepareUploadFile = async (file: File): Promise<File> => {
+  const settings = getCompressionSettings();
+  if (!settings.enabled || !file.type.startsWith('image/')) return file;
+  try {
+    const result = await compressImage(file, settings);
+    if (result !== file) debugLog(`[Compress] ${file.name}: ${formatBytes(file.size)} -> ${formatBytes(result.size)}`);
+    return result;
+  } catch (err) {
+    debugWarn("[Compress] No se pudo comprimir, se envía el original:", err);
+    return file;
+  }
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// --- Pixel statistics ---
+
+export const luminance = (data: Uint8ClampedArray) => {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
+  }
+  return gray;
+};
+
+const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * histogram[t];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// --- Corner detection ---
+
+export const quadArea = (q: Quad) => {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i];
+    const b = q[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+const isConvex = (q: Quad) => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i];
+    const b = q[(i + 1) % 4];
+    const c = q[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+// Default frame when detection fails: the whole photo, slightly inset
+export const fullFrameQuad = (width: number, height: number, inset = 0.04): Quad => {
+  const dx = width * inset;
+  const dy = height * inset;
+  return [
+    { x: dx, y: dy },
+    { x: width - dx, y: dy },
+    { x: width - dx, y: height - dy },
+    { x: dx, y: height - dy },
+  ];
+};
+
+// The sheet is the largest bright region; its corners are the extreme points
+// along both diagonals. Returns null when nothing sheet-like is found.
+export const detectDocumentCorners = (source: HTMLCanvasElement): Quad | null => {
+  const { canvas, scale } = scaledCopy(source, ANALYSIS_SIDE);
+  const gray = luminance(context2d(canvas).getImageData(0, 0, canvas.width, canvas.height).data);
+  const corners = findSheetCorners(gray, canvas.width);
+  if (!corners) return null;
+
+  const quad = corners.map(c => ({ x: c.x / scale, y: c.y / scale })) as Quad;
+  if (!isConvex(quad) || quadArea(quad) < source.width * source.height * MIN_SHEET_AREA) return null;
+  return quad;
+};
+
+// Corners of the largest bright region of a luminance image, in its pixels
+export const findSheetCorners = (gray: Uint8Array, width: number): Quad | null => {
+  const threshold = otsuThreshold(gray);
+
+  // Largest 4-connected component of bright pixels
+  const labels = new Int32Array(gray.length);
+  const stack = new Int32Array(gray.length);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] || gray[start] <= threshold) continue;
+    label++;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const p = stack[--top];
+      size++;
+      const x = p % width;
+      const neighbors = [
+        x > 0 ? p - 1 : -1,
+        x < width - 1 ? p + 1 : -1,
+        p - width,
+        p + width,
+      ];
+      for (const n of neighbors) {
+        if (n < 0 || n >= gray.length || labels[n] || gray[n] <= threshold) continue;
+        labels[n] = label;
+        stack[top++] = n;
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+  if (bestSize < gray.length * MIN_SHEET_AREA) return null;
+
+  let tl = { x: 0, y: 0, v: Infinity };
+  let br = { x: 0, y: 0, v: -Infinity };
+  let tr = { x: 0, y: 0, v: -Infinity };
+  let bl = { x: 0, y: 0, v: Infinity };
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] !== bestLabel) continue;
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x + y < tl.v) tl = { x, y, v: x + y };
+    if (x + y > br.v) br = { x, y, v: x + y };
+    if (x - y > tr.v) tr = { x, y, v: x - y };
+    if (x - y < bl.v) bl = { x, y, v: x - y };
+  }
+  return [tl, tr, br, bl].map(({ x, y }) => ({ x, y })) as Quad;
+};
+
+// --- Perspective warp ---
+
+// Gaussian elimination with partial pivoting
+const solveLinear = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error('Las esquinas seleccionadas no forman un cuadrilátero válido.');
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+// 3x3 homography (row-major, h[8] = 1) mapping each `from` corner onto `to`
+const computeHomography = (from: Quad, to: Quad): number[] => {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: X, y: Y } = to[i];
+    A.push([x, y, 1, 0, 0, 0, -x * X, -y * X]);
+    b.push(X);
+    A.push([0, 0, 0, x, y, 1, -x * Y, -y * Y]);
+    b.push(Y);
+  }
+  return [...solveLinear(A, b), 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Size of the flattened sheet: its longer opposite sides, capped at MAX_OUTPUT_SIDE
+export const rectifiedSize = ([tl, tr, br, bl]: Quad) => {
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Rectifies the sheet inside `quad` into a flat rectangle (bilinear sampling)
+export const warpPerspective = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const { width, height } = rectifiedSize(quad);
+
+  const target: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  // Maps output pixels back into the source photo
+  const h = computeHomography(target, quad);
+
+  const src = context2d(source).getImageData(0, 0, source.width, source.height);
+  const output = createCanvas(width, height);
+  const outCtx = context2d(output);
+  const dst = outCtx.createImageData(width, height);
+  const sw = source.width;
+  const sh = source.height;
+  const s = src.data;
+  const d = dst.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = Math.min(Math.max((h[0] * x + h[1] * y + h[2]) / w, 0), sw - 1);
+      const sy = Math.min(Math.max((h[3] * x + h[4] * y + h[5]) / w, 0), sh - 1);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, sw - 1);
+      const y1 = Math.min(y0 + 1, sh - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = s[i00 + c] + (s[i10 + c] - s[i00 + c]) * fx;
+        const bottom = s[i01 + c] + (s[i11 + c] - s[i01 + c]) * fx;
+        d[o + c] = top + (bottom - top) * fy;
+      }
+      d[o + 3] = 255;
+    }
+  }
+  outCtx.putImageData(dst, 0, 0);
+  return output;
+};
+
+// --- Deskew ---
+
+// Angle (radians) that makes the grid lines and handwriting rows horizontal:
+// the rotation whose row projection of dark pixels is the most peaked.
+export const estimateSkewAngle = (source: HTMLCanvasElement): number => {
+  const { canvas } = scaledCopy(source, ANALYSIS_SIDE * 1.5);
+  const gray = luminance(context2d(canvas).getImageData(0, 0, canvas.width, canvas.height).data);
+  return measureSkew(gray, canvas.width, canvas.height);
+};
+
+// Skew of the dark pixels (ink, grid lines) of a luminance image
+export const measureSkew = (gray: Uint8Array, width: number, height: number): number => {
+  const threshold = otsuThreshold(gray);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let p = 0; p < gray.length; p++) {
+    if (gray[p] > threshold) continue; // Otsu puts the threshold level itself in the dark class
+    const x = p % width;
+    xs.push(x - width / 2);
+    ys.push((p - x) / width - height / 2);
+  }
+  if (xs.length < 100) return 0;
+
+  const binCount = Math.ceil(Math.hypot(width, height)) + 2;
+  const offset = binCount / 2;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let deg = -MAX_SKEW_DEG; deg <= MAX_SKEW_DEG; deg += SKEW_STEP_DEG) {
+    const angle = (deg * Math.PI) / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    const bins = new Float64Array(binCount);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(xs[i] * sin + ys[i] * cos + offset)]++;
+    }
+    let score = 0;
+    for (let b = 0; b < binCount; b++) score += bins[b] * bins[b];
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return Math.abs(bestAngle) < (SKEW_STEP_DEG * Math.PI) / 180 ? 0 : bestAngle;
+};
+
+// Rotates around the center keeping the size; uncovered corners become white
+export const rotateCanvas = (source: HTMLCanvasElement, angle: number): HTMLCanvasElement => {
+  const output = createCanvas(source.width, source.height);
+  const ctx = context2d(output);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.translate(output.width / 2, output.height / 2);
+  ctx.rotate(angle);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return output;
+};
+
+// --- Contrast ---
+
+// Stretches levels so the darkest / brightest 1% become black / white
+export const enhanceContrast = (canvas: HTMLCanvasElement): HTMLCanvasElement => {
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = luminance(image.data);
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+
+  const clip = gray.length * 0.01;
+  let low = 0;
+  for (let acc = 0; low < 255 && acc + histogram[low] <= clip; low++) acc += histogram[low];
+  let high = 255;
+  for (let acc = 0; high > 0 && acc + histogram[high] <= clip; high--) acc += histogram[high];
+  if (high - low < 10) return canvas;
+
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = ((v - low) * 255) / (high - low);
+  const d = image.data;
+  for (let i = 0; i < d.length; i += 4) {
+    d[i] = lut[d[i]];
+    d[i + 1] = lut[d[i + 1]];
+    d[i + 2] = lut[d[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Full pipeline applied to the corners chosen by the user
+export const preprocessDocument = (source: HTMLCanvasElement, quad: Quad, options: PreprocessOptions): HTMLCanvasElement => {
+  let result = warpPerspective(source, quad);
+  if (options.deskew) {
+    const angle = estimateSkewAngle(result);
+    if (angle !== 0) {
+      debugLog(`[Preprocess] Enderezando ${((angle * 180) / Math.PI).toFixed(2)}°`);
+      result = rotateCanvas(result, angle);
+    }
+  }
+  if (options.enhanceContrast) result = enhanceContrast(result);
+  return result;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { assessQuality } from './imageQuality';
+
+const SIZE = 100;
+const PHOTO = { width: 3000, height: 4000 };
+
+// Paper of one shade with dark vertical strokes every fifth column, and
+// optionally a saturated patch covering the top `glare` share of the sheet
+const sheet = ({ paper = 180, ink = 60, strokes = true, glare = 0 } = {}) => {
+  const gray = new Uint8Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const value = y < SIZE * glare ? 255 : strokes && x % 5 === 0 ? ink : paper;
+      gray[y * SIZE + x] = value;
+    }
+  }
+  return gray;
+};
+
+const issueKinds = (gray: Uint8Array, photo = PHOTO) => assessQuality(gray, SIZE, photo).issues.map(i => i.kind);
+
+describe('assessQuality', () => {
+  it('passes a sharp, well lit photo', () => {
+    const report = assessQuality(sheet(), SIZE, PHOTO);
+    expect(report.issues).toEqual([]);
+    expect(report).toMatchObject({ width: 3000, height: 4000, brightness: 156, clipped: 0 });
+  });
+
+  it('flags a blurred photo', () => {
+    const report = assessQuality(sheet({ strokes: false }), SIZE, PHOTO);
+    expect(report.sharpness).toBe(0);
+    expect(report.issues).toEqual([
+      { kind: 'blur', message: 'Imagen borrosa, vuelva a tomar la foto con el teléfono firme y la planilla enfocada.' },
+    ]);
+  });
+
+  it('flags dark and overexposed photos', () => {
+    expect(issueKinds(sheet({ paper: 40, ink: 0 }))).toEqual(['dark']);
+    expect(issueKinds(sheet({ paper: 240, ink: 200 }))).toEqual(['overexposed']);
+  });
+
+  it('flags glare on an otherwise well exposed sheet', () => {
+    expect(issueKinds(sheet({ glare: 0.2 }))).toEqual(['glare']);
+  });
+
+  it('flags photos too small for handwritten digits', () => {
+    const report = assessQuality(sheet(), SIZE, { width: 800, height: 600 });
+    expect(report.issues.map(i => i.kind)).toEqual(['resolution']);
+    expect(report.issues[0].message).toContain('800×600');
+  });
+});
@@ -0,0 +1,96 @@
+import { context2d, luminance, scaledCopy } from './imageProcessing';
+
+// Quick checks run when a photo is selected, so obviously unusable shots are
+// retaken on deck instead of coming back from the OCR full of doubtful cells.
+
+export type QualityIssueKind = 'blur' | 'dark' | 'overexposed' | 'glare' | 'resolution';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  message: string;
+}
+
+export interface QualityReport {
+  width: number;
+  height: number;
+  sharpness: number;   // Variance of the Laplacian at ANALYSIS_WIDTH
+  brightness: number;  // Mean luminance, 0-255
+  clipped: number;     // Share of saturated pixels, 0-1
+  issues: QualityIssue[];
+}
+
+// Sharpness is measured at a fixed width so it does not depend on the camera
+const ANALYSIS_WIDTH = 1000;
+const MIN_SHARPNESS = 60;
+const MIN_BRIGHTNESS = 70;
+const MAX_BRIGHTNESS = 225;
+const CLIPPED_LEVEL = 252;
+const MAX_CLIPPED = 0.12;
+// Shorter side below this leaves handwritten digits a few pixels tall
+const MIN_SIDE_PX = 1000;
+
+const laplacianVariance = (gray: Uint8Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const value = gray[p - width] + gray[p + width] + gray[p - 1] + gray[p + 1] - 4 * gray[p];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+export const analyzeImageQuality = async (file: Blob): Promise<QualityReport> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const { width, height } = bitmap;
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = scaledCopy(bitmap, ANALYSIS_WIDTH * Math.max(width, height) / width).canvas;
+  } finally {
+    bitmap.close();
+  }
+
+  const gray = luminance(context2d(canvas).getImageData(0, 0, canvas.width, canvas.height).data);
+  return assessQuality(gray, canvas.width, { width, height });
+};
+
+// Grades the luminance of the photo scaled to ANALYSIS_WIDTH; the resolution
+// check uses the size of the photo itself
+export const assessQuality = (
+  gray: Uint8Array, analysisWidth: number, { width, height }: { width: number; height: number }
+): QualityReport => {
+  let total = 0;
+  let clippedCount = 0;
+  for (let i = 0; i < gray.length; i++) {
+    total += gray[i];
+    if (gray[i] >= CLIPPED_LEVEL) clippedCount++;
+  }
+  const brightness = total / gray.length;
+  const clipped = clippedCount / gray.length;
+  const sharpness = laplacianVariance(gray, analysisWidth, gray.length / analysisWidth);
+
+  const issues: QualityIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) {
+    issues.push({ kind: 'blur', message: 'Imagen borrosa, vuelva a tomar la foto con el teléfono firme y la planilla enfocada.' });
+  }
+  if (brightness < MIN_BRIGHTNESS) {
+    issues.push({ kind: 'dark', message: 'Imagen muy oscura, busque más luz o vuelva a tomar la foto.' });
+  } else if (brightness > MAX_BRIGHTNESS) {
+    issues.push({ kind: 'overexposed', message: 'Imagen sobreexpuesta, los trazos claros podrían perderse.' });
+  }
+  if (clipped > MAX_CLIPPED && brightness <= MAX_BRIGHTNESS) {
+    issues.push({ kind: 'glare', message: 'Hay reflejos fuertes sobre la planilla, cambie el ángulo para evitar el brillo.' });
+  }
+  if (Math.min(width, height) < MIN_SIDE_PX) {
+    issues.push({ kind: 'resolution', message: `Resolución baja (${width}×${height}), acérquese o use la cámara principal.` });
+  }
+
+  return { width, height, sharpness, brightness, clipped, issues };
+};
@@ -0,0 +1,28 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { debugLog, isDebugEnabled } from './logger';
+
+describe('debug logging', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it('is on in development', () => {
+    vi.stubEnv('DEV', true);
+    expect(isDebugEnabled()).toBe(true);
+  });
+
+  it('is off in production builds unless enabled on the device', () => {
+    vi.stubEnv('DEV', false);
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    debugLog('[Test] oculto');
+    expect(log).not.toHaveBeenCalled();
+
+    localStorage.setItem('bluegrid_debug', '1');
+    debugLog('[Test] visible');
+    expect(log).toHaveBeenCalledWith('[Test] visible');
+  });
+});
@@ -0,0 +1,28 @@
+// Diagnostic logging behind a single flag: always on in development, off in
+// production builds unless enabled on the device (handy on a field phone):
+//   localStorage.setItem('bluegrid_debug', '1')
+// Failures the UI does not show anywhere still go to console.error directly.
+
+const STORAGE_KEY_DEBUG = 'bluegrid_debug';
+
+export const isDebugEnabled = () => {
+  if (import.meta.env.DEV) return true;
+  try {
+    return localStorage.getItem(STORAGE_KEY_DEBUG) === '1';
+  } catch {
+    return false;
+  }
+};
+
+export const debugLog = (...args: unknown[]) => {
+  if (isDebugEnabled()) console.log(...args);
+};
+
+export const debugWarn = (...args: unknown[]) => {
+  if (isDebugEnabled()) console.warn(...args);
+};
+
+// Errors the user already sees (toast, inline message, item status)
+export const debugError = (...args: unknown[]) => {
+  if (isDebugEnabled()) console.error(...args);
+};
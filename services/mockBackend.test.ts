@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthSession } from './auth';
+import { ApiClient, RequestCancelledError, UnauthorizedError, createApiClient } from './apiClient';
+
+// The demo profile runs the real client (contract parsers included) against
+// the in-browser backend, so its answers must satisfy the same contract
+describe('demo backend', () => {
+  let session: AuthSession | null;
+  let api: ApiClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    session = null;
+    api = createApiClient({ baseUrl: 'demo://local', demo: true, getSession: () => session });
+  });
+  afterEach(() => vi.useRealTimers());
+
+  // Lets the simulated network and OCR delays elapse
+  const settle = async <T>(promise: Promise<T>): Promise<T> => {
+    const result = promise.then(value => ({ value }), error => ({ error }));
+    await vi.runAllTimersAsync();
+    const outcome = await result;
+    if ('error' in outcome) throw outcome.error;
+    return outcome.value;
+  };
+
+  it('logs in with a role picked from the username', async () => {
+    session = await settle(api.login('supervisor1', 'cualquiera'));
+    expect(session.user).toMatchObject({ username: 'supervisor1', role: 'supervisor' });
+  });
+
+  it('rejects calls without a token', async () => {
+    await expect(settle(api.listZones())).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('processes an upload with the chosen template and accepts its validation', async () => {
+    session = await settle(api.login('buzo1', 'x'));
+    const [zone] = await settle(api.listZones());
+
+    const file = new File(['jpeg'], 'planilla.jpg', { type: 'image/jpeg' });
+    const registro = await settle(api.uploadRegistro(file, zone.id, {}, { plantilla_id: 'pulpo_transecta' }));
+
+    if (!('resultado_ia' in registro)) throw new Error('se esperaba el resultado del OCR');
+    expect(registro.plantilla_id).toBe('pulpo_transecta');
+    expect(registro.resultado_ia.matriz.length).toBeGreaterThan(0);
+
+    await expect(settle(api.getRegistro(registro.id))).resolves.toMatchObject({ id: registro.id });
+    await expect(settle(api.validateRegistro(registro.id, { cambios: [] }))).resolves.toBeUndefined();
+  });
+
+  it('only lets admins create zones', async () => {
+    const zone = { name: 'Quellón', lat: -43.1, lng: -73.6, plantilla_id: '' };
+    session = await settle(api.login('buzo1', 'x'));
+    await expect(settle(api.createZone(zone))).rejects.toThrow('Solo un administrador');
+
+    session = await settle(api.login('admin', 'x'));
+    await expect(settle(api.createZone(zone))).resolves.toMatchObject({ name: 'Quellón', templateId: 'pulpo_nidos' });
+  });
+
+  it('reports a cancelled upload as cancelled', async () => {
+    session = await settle(api.login('buzo1', 'x'));
+    const controller = new AbortController();
+    const upload = api.uploadRegistro(new File(['x'], 'p.jpg'), '1', { signal: controller.signal });
+    const settled = expect(upload).rejects.toBeInstanceOf(RequestCancelledError);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    await settled;
+  });
+});
@@ -0,0 +1,271 @@
+import { MatrixCell, OCRHeader, OCRResponse, PlanillaTemplate, UserRole } from '../types';
+import { DEFAULT_TEMPLATE_ID, resolveTemplate } from './templates';
+import { debugLog } from './logger';
+
+// In-browser stand-in for the Bluegrid backend, used by the demo profile so
+// the whole flow (login, zones, upload, validation, feedback) works without a Colab
+// notebook. It answers with `Response` objects shaped exactly like the real
+// API, so everything above the transport (contract validation, retries,
+// progress) runs unchanged.
+
+const DEMO_VERSION = 'demo';
+// Simulated OCR processing time range
+const OCR_DELAY_MS: [number, number] = [1200, 2800];
+const NETWORK_DELAY_MS = 150;
+
+const registros = new Map<number, OCRResponse>();
+let nextRegistroId = 1001;
+
+const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// --- Auth ---
+
+const base64Url = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Unsigned token with the same claims the real backend puts in its JWT
+const issueToken = (username: string, role: UserRole) => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: username, name: `${username} (demo)`, role, iat: now, exp: now + 8 * 3600 };
+  return `${base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}.demo`;
+};
+
+// Any password works; the role is picked from the username
+const roleForUsername = (username: string): UserRole => {
+  if (username.includes('admin')) return 'admin';
+  if (username.includes('super')) return 'supervisor';
+  return 'buzo';
+};
+
+const readClaims = (token: string | undefined) => {
+  try {
+    return JSON.parse(atob(token!.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+};
+
+// --- Zones ---
+
+interface DemoZone {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  active: boolean;
+  plantilla_id: string;
+}
+
+const zones: DemoZone[] = [
+  { id: '1', name: 'Centro Norte', lat: -41.4, lng: -72.9, active: true, plantilla_id: DEFAULT_TEMPLATE_ID },
+  { id: '2', name: 'Arch. Calbuco', lat: -41.7, lng: -73.1, active: true, plantilla_id: DEFAULT_TEMPLATE_ID },
+  { id: '3', name: 'Centro Chiloé', lat: -42.5, lng: -73.8, active: true, plantilla_id: 'pulpo_transecta' },
+];
+
+// --- OCR ---
+
+// Mostly confident reads with a realistic share of doubtful cells to review
+const randomConfidence = () =>
+  Math.random() < 0.2
+    ? Number((0.45 + Math.random() * 0.39).toFixed(2))
+    : Number((0.86 + Math.random() * 0.13).toFixed(2));
+
+// Plausible reads for any other template, driven by its column types
+const buildTemplateMatrix = (registroId: number, template: PlanillaTemplate): MatrixCell[] => {
+  const cells: MatrixCell[] = [];
+  const rowCount = template.rows ?? randomInt(3, 8);
+  for (let row = 0; row < rowCount; row++) {
+    template.columns.forEach((column, col) => {
+      const valor = {
+        integer: () => String(randomInt(0, 12)),
+        decimal: () => (Math.random() * 20).toFixed(1).replace('.', ','),
+        mark: () => (Math.random() < 0.3 ? 'X' : ''),
+        text: () => (Math.random() < 0.2 ? 'roca' : ''),
+      }[column.type]();
+      cells.push({
+        fila: `Fila ${row + 1}`,
+        col,
+        valor,
+        confianza: valor === '' ? Number((0.9 + Math.random() * 0.09).toFixed(2)) : randomConfidence(),
+        ref_id: `demo-${registroId}-${row}-${col}`,
+      });
+    });
+  }
+  return cells;
+};
+
+const buildMatrix = (registroId: number): MatrixCell[] => {
+  const cells: MatrixCell[] = [];
+  for (let row = 0; row < 5; row++) {
+    const nidos = randomInt(0, 8);
+    const cuevas = randomInt(nidos, nidos + 12);
+    const marksNido = Math.random() < 0.4;
+    const marksCueva = !marksNido && Math.random() < 0.4;
+    const values = [
+      String(nidos),
+      String(cuevas),
+      marksNido ? 'X' : '',
+      marksCueva ? 'X' : '',
+      String(randomInt(0, cuevas)),
+    ];
+    values.forEach((valor, col) => {
+      cells.push({
+        fila: `Fila ${row + 1}`,
+        col,
+        valor,
+        confianza: valor === '' ? Number((0.9 + Math.random() * 0.09).toFixed(2)) : randomConfidence(),
+        ref_id: `demo-${registroId}-${row}-${col}`,
+      });
+    });
+  }
+  return cells;
+};
+
+const DEMO_DIVERS = ['Juan Pérez', 'Pedro Soto', 'Luis Oyarzún'];
+const DEMO_VESSELS = ['Don Lucho', 'Santa Rosa II', 'El Cholguán'];
+const DEMO_SEA = ['calma', 'marejadilla', 'marejada'];
+
+const pick = <T>(items: T[]) => items[randomInt(0, items.length - 1)];
+
+// Handwritten header as the OCR reads it: dd/mm/yyyy dates, depth with unit.
+// Observations are usually blank and the vessel name is sometimes illegible.
+const buildHeader = (): OCRHeader => {
+  const today = new Date();
+  const date = `${String(today.getDate()).padStart(2, '0')}/${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
+  const header: OCRHeader = {
+    fecha_buceo: { valor: date, confianza: randomConfidence() },
+    buzo: { valor: pick(DEMO_DIVERS), confianza: randomConfidence() },
+    profundidad_m: { valor: `${randomInt(6, 25)} m`, confianza: randomConfidence() },
+    condiciones_mar: { valor: pick(DEMO_SEA), confianza: randomConfidence() },
+  };
+  if (Math.random() < 0.7) header.embarcacion = { valor: pick(DEMO_VESSELS), confianza: randomConfidence() };
+  return header;
+};
+
+// The upload's `plantilla_id` wins over the zone's, like on the real backend
+const createRegistro = (zonaId: string, plantillaId: string | null): OCRResponse => {
+  const id = nextRegistroId++;
+  const template = resolveTemplate(plantillaId, zones.find(z => z.id === zonaId)?.plantilla_id);
+  const matriz = template.id === DEFAULT_TEMPLATE_ID ? buildMatrix(id) : buildTemplateMatrix(id, template);
+  const registro: OCRResponse = {
+    id,
+    estado: 'pendiente_validacion',
+    zona_id: Number(zonaId) || 1,
+    plantilla_id: template.id,
+    resultado_ia: {
+      status: 'ok',
+      promedio_confianza: Number((matriz.reduce((acc, c) => acc + c.confianza, 0) / matriz.length).toFixed(3)),
+      matriz,
+      encabezado: buildHeader(),
+    },
+  };
+  registros.set(id, registro);
+  return registro;
+};
+
+// --- Router ---
+
+const route = async (method: string, path: string, init: RequestInit, authorization?: string): Promise<Response> => {
+  if (method === 'GET' && path === '/') {
+    return json(200, { message: 'Bluegrid OCR API (modo demo)', version: DEMO_VERSION });
+  }
+
+  if (method === 'POST' && path === '/api/v1/auth/login') {
+    const { username } = JSON.parse(String(init.body ?? '{}'));
+    const user = String(username || 'demo').toLowerCase();
+    return json(200, { access_token: issueToken(user, roleForUsername(user)), refresh_token: 'demo-refresh', token_type: 'bearer' });
+  }
+
+  // Demo refresh tokens carry no identity; the session just ends with its 8 h token
+  if (method === 'POST' && path === '/api/v1/auth/refresh') {
+    return json(401, { detail: 'Sesión demo expirada. Inicia sesión nuevamente.' });
+  }
+
+  const claims = readClaims(authorization?.replace(/^Bearer\s+/i, ''));
+  if (!claims) return json(401, { detail: 'Token inválido.' });
+
+  if (method === 'POST' && path === '/api/v1/registros') {
+    const form = init.body as FormData;
+    await delay(randomInt(...OCR_DELAY_MS), init.signal);
+    const plantillaId = form.get('plantilla_id');
+    return json(201, createRegistro(String(form.get('zona_id') ?? '1'), typeof plantillaId === 'string' ? plantillaId : null));
+  }
+
+  const registroMatch = path.match(/^\/api\/v1\/registros\/(\d+)(\/validacion)?$/);
+  if (registroMatch) {
+    const registro = registros.get(Number(registroMatch[1]));
+    if (!registro) return json(404, { detail: `Registro ${registroMatch[1]} no encontrado.` });
+    if (method === 'GET' && !registroMatch[2]) return json(200, registro);
+    if (method === 'PUT' && registroMatch[2]) {
+      const { cambios } = JSON.parse(String(init.body ?? '{}'));
+      registro.estado = 'validado';
+      return json(200, { id: registro.id, estado: registro.estado, celdas: Array.isArray(cambios) ? cambios.length : 0 });
+    }
+  }
+
+  if (path === '/api/v1/zonas') {
+    if (method === 'GET') return json(200, zones);
+    if (method === 'POST') {
+      if (claims.role !== 'admin') return json(403, { detail: 'Solo un administrador puede crear zonas.' });
+      const { name, lat, lng, plantilla_id } = JSON.parse(String(init.body ?? '{}'));
+      const zone: DemoZone = {
+        id: String(Math.max(0, ...zones.map(z => Number(z.id))) + 1), name, lat, lng, active: true,
+        plantilla_id: plantilla_id || DEFAULT_TEMPLATE_ID,
+      };
+      zones.push(zone);
+      return json(201, zone);
+    }
+  }
+
+  const zoneMatch = path.match(/^\/api\/v1\/zonas\/([^/]+)$/);
+  if (zoneMatch && method === 'PATCH') {
+    if (claims.role !== 'admin') return json(403, { detail: 'Solo un administrador puede editar zonas.' });
+    const zone = zones.find(z => z.id === decodeURIComponent(zoneMatch[1]));
+    if (!zone) return json(404, { detail: `Zona ${zoneMatch[1]} no encontrada.` });
+    Object.assign(zone, JSON.parse(String(init.body ?? '{}')), { id: zone.id });
+    return json(200, zone);
+  }
+
+  if (method === 'POST' && path === '/api/v1/training/feedback') {
+    const { correcciones } = JSON.parse(String(init.body ?? '{}'));
+    return json(200, { recibidas: Array.isArray(correcciones) ? correcciones.length : 0 });
+  }
+
+  return json(501, { detail: 'Función no disponible en modo demo.' });
+};
+
+// Drop-in replacement for `fetch` scoped to the Bluegrid API paths
+export const mockFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const path = new URL(url, 'http://demo.local').pathname;
+  const headers = (init.headers ?? {}) as Record<string, string>;
+
+  await delay(NETWORK_DELAY_MS, init.signal);
+  debugLog(`[Demo] ${method} ${path}`);
+  return route(method, path, init, headers['Authorization']);
+};
+
+// Reports fake byte-level progress for an upload of `size` bytes
+export const simulateUploadProgress = async (size: number, onProgress?: (fraction: number) => void, signal?: AbortSignal) => {
+  const steps = Math.min(10, Math.max(3, Math.ceil(size / 200_000)));
+  for (let step = 1; step <= steps; step++) {
+    await delay(80, signal);
+    onProgress?.(step / steps);
+  }
+};
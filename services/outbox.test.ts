@@ -0,0 +1,71 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OCRResponse, PendingRegistro } from '../types';
+import { ApiClient } from './apiClient';
+import { OutboxUpload, OutboxValidation, sendOutboxItem } from './outbox';
+import { getRegistroTemplate } from './registroSources';
+
+const done: OCRResponse = {
+  id: 9, estado: 'pendiente_validacion', zona_id: 1,
+  resultado_ia: { status: 'ok', promedio_confianza: 0.9, matriz: [] },
+};
+const queued: PendingRegistro = { id: 9, estado: 'en_cola' };
+
+const upload = (overrides: Partial<OutboxUpload> = {}): OutboxUpload => ({
+  id: 'a', username: 'buzo1', zonaId: '1', createdAt: 1, status: 'pending', attempts: 0,
+  kind: 'upload', file: new File(['x'], 'planilla.jpg', { type: 'image/jpeg' }), ...overrides,
+});
+
+// Only the calls sendOutboxItem makes
+const fakeApi = (uploaded: OCRResponse | PendingRegistro, polled: OCRResponse = done) => {
+  const calls = {
+    uploadRegistro: vi.fn(async () => uploaded),
+    getRegistro: vi.fn(async () => polled),
+    validateRegistro: vi.fn(async () => undefined),
+  };
+  return { api: calls as unknown as ApiClient, ...calls };
+};
+
+beforeEach(() => localStorage.clear());
+afterEach(() => vi.useRealTimers());
+
+describe('sendOutboxItem', () => {
+  it('saves the registro id before waiting for the OCR', async () => {
+    const { api, uploadRegistro } = fakeApi(queued);
+    const saved: OutboxUpload[] = [];
+    const onUploaded = vi.fn(async (item: OutboxUpload) => { saved.push(item); });
+
+    vi.useFakeTimers();
+    const pending = sendOutboxItem(api, upload({ templateId: 'pulpo_transecta' }), onUploaded);
+    await vi.runAllTimersAsync();
+    const result = await pending;
+
+    expect(uploadRegistro).toHaveBeenCalledWith(expect.any(File), '1', expect.anything(), { plantilla_id: 'pulpo_transecta' });
+    expect(saved).toEqual([expect.objectContaining({ registroId: 9 })]);
+    expect(result).toMatchObject({ status: 'ready', registroId: 9, result: done });
+    expect(getRegistroTemplate(9)).toBe('pulpo_transecta');
+  });
+
+  it('only polls a registro that was already uploaded', async () => {
+    const { api, uploadRegistro, getRegistro } = fakeApi(done);
+    const onUploaded = vi.fn();
+
+    const result = await sendOutboxItem(api, upload({ registroId: 9, status: 'error', lastError: 'offline' }), onUploaded);
+
+    expect(uploadRegistro).not.toHaveBeenCalled();
+    expect(onUploaded).not.toHaveBeenCalled();
+    expect(getRegistro).toHaveBeenCalledWith(9, expect.anything());
+    expect(result).toMatchObject({ status: 'ready', result: done, lastError: undefined });
+  });
+
+  it('sends validations and drops them once accepted', async () => {
+    const { api, validateRegistro } = fakeApi(done);
+    const item: OutboxValidation = {
+      id: 'b', username: 'buzo1', zonaId: '1', createdAt: 1, status: 'pending', attempts: 0,
+      kind: 'validation', registroId: 9, payload: { cambios: [] },
+    };
+
+    await expect(sendOutboxItem(api, item, vi.fn())).resolves.toBeNull();
+    expect(validateRegistro).toHaveBeenCalledWith(9, { cambios: [] });
+  });
+});
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OCRResponse, PendingRegistro, RegistroSource, ValidationRequest } from '../types';
+import { ApiClient, UnauthorizedError, describeApiError } from './apiClient';
+import { isRetryableError } from './retry';
+import { waitForRegistro } from './registroJobs';
+import { getUploadTimeoutSeconds } from './settings';
+import { STORE_OUTBOX, idbDelete, idbGetAll, idbPut } from './idb';
+import { prepareUploadFile } from './imageProcessing';
+import { sourceUploadFields } from './pdf';
+import { rememberRegistroMetadata, rememberRegistroSource, rememberRegistroTemplate } from './registroSources';
+import { templateUploadFields } from './templates';
+import { PhotoMetadata, collectPhotoMetadata, metadataUploadFields } from './photoMetadata';
+import { debugLog, debugWarn } from './logger';
+
+// Offline outbox. Uploads and validations made without signal (at sea) are
+// stored in IndexedDB with their image / payload, and sent in order once the
+// backend is reachable again. Items belong to the user who created them and
+// are only synced with that user's session.
+
+export type OutboxStatus =
+  | 'pending'  // Waiting for connectivity
+  | 'syncing'
+  | 'error'    // Rejected by the backend; needs a manual retry or removal
+  | 'ready';   // Upload processed; OCR result waiting to be reviewed
+
+interface OutboxBase {
+  id: string;
+  username: string;
+  zonaId: string;
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: number;
+}
+
+export interface OutboxUpload extends OutboxBase {
+  kind: 'upload';
+  file: File;
+  source?: RegistroSource; // Set for pages extracted from a PDF
+  metadata?: PhotoMetadata; // Read before compression, which drops the EXIF
+  templateId?: string; // Template picked for this upload instead of the zone's
+  // Saved as soon as the backend accepts the file; later attempts only poll it,
+  // so a failure while waiting for the OCR never uploads a duplicate registro
+  registroId?: number;
+  result?: OCRResponse;
+}
+
+export interface OutboxValidation extends OutboxBase {
+  kind: 'validation';
+  registroId: number;
+  payload: ValidationRequest;
+}
+
+export type OutboxItem = OutboxUpload | OutboxValidation;
+
+// While items are pending, retry this often even if the health badge stays online
+export const OUTBOX_SYNC_INTERVAL_MS = 60 * 1000;
+
+const newItemId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const listOutbox = async (username: string): Promise<OutboxItem[]> => {
+  const items = await idbGetAll<OutboxItem>(STORE_OUTBOX);
+  return items.filter(i => i.username === username).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Sends one item. `onUploaded` must persist the upload with its new `registroId`
+// before the OCR is awaited. Returns the item to keep, or null when it is done.
+export const sendOutboxItem = async (
+  api: ApiClient, item: OutboxItem, onUploaded: (item: OutboxUpload) => Promise<void>
+): Promise<OutboxItem | null> => {
+  if (item.kind === 'validation') {
+    await api.validateRegistro(item.registroId, item.payload);
+    return null; // Nothing left to do
+  }
+  const timeoutMs = getUploadTimeoutSeconds() * 1000;
+  let registro: OCRResponse | PendingRegistro;
+  if (item.registroId !== undefined) {
+    registro = await api.getRegistro(item.registroId, { timeoutMs });
+  } else {
+    registro = await api.uploadRegistro(item.file, item.zonaId, { timeoutMs }, {
+      ...sourceUploadFields(item.source),
+      ...metadataUploadFields(item.metadata),
+      ...templateUploadFields(item.templateId),
+    });
+    if (item.source) rememberRegistroSource(registro.id, item.source);
+    if (item.metadata) rememberRegistroMetadata(registro.id, item.metadata);
+    if (item.templateId) rememberRegistroTemplate(registro.id, item.templateId);
+    item = { ...item, registroId: registro.id };
+    await onUploaded(item);
+  }
+  const result = await waitForRegistro(api, registro, { timeoutMs });
+  return { ...item, status: 'ready', result, lastError: undefined };
+};
+
+export const useOutbox = (api: ApiClient, username: string | null, canSync: boolean) => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const syncingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    setItems(username ? await listOutbox(username) : []);
+  }, [username]);
+
+  // Items left 'syncing' by a reload or a closed tab go back to the queue
+  useEffect(() => {
+    if (!username) {
+      setItems([]);
+      return;
+    }
+    listOutbox(username)
+      .then(async (stored) => {
+        const interrupted = stored.filter(i => i.status === 'syncing');
+        await Promise.all(interrupted.map(i => idbPut(STORE_OUTBOX, { ...i, status: 'pending' })));
+        await refresh();
+      })
+      .catch(err => console.error("[Outbox] No se pudo leer la bandeja:", err));
+  }, [username, refresh]);
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !username) return;
+    syncingRef.current = true;
+    try {
+      const queue = (await listOutbox(username)).filter(i => i.status === 'pending');
+      for (const item of queue) {
+        let attempt: OutboxItem = { ...item, status: 'syncing', attempts: item.attempts + 1, lastAttemptAt: Date.now() };
+        await idbPut(STORE_OUTBOX, attempt);
+        await refresh();
+
+        try {
+          const next = await sendOutboxItem(api, attempt, async (uploaded) => {
+            attempt = uploaded;
+            await idbPut(STORE_OUTBOX, uploaded);
+          });
+          if (next) await idbPut(STORE_OUTBOX, next);
+          else await idbDelete(STORE_OUTBOX, item.id);
+          debugLog(`[Outbox] ${item.kind} ${item.id} sincronizado.`);
+        } catch (err) {
+          const lastError = describeApiError(err, 'Sin conexión con el servidor.');
+          // Transient failures stay queued; anything else needs the user's attention
+          const status: OutboxStatus = isRetryableError(err) || err instanceof UnauthorizedError ? 'pending' : 'error';
+          await idbPut(STORE_OUTBOX, { ...attempt, status, lastError });
+          debugWarn(`[Outbox] ${item.kind} ${item.id} falló (${status}):`, err);
+          // Without a connection or a session the rest of the queue would fail the same way
+          if (status === 'pending') break;
+        }
+      }
+    } catch (err) {
+      console.error("[Outbox] Error sincronizando:", err);
+    } finally {
+      syncingRef.current = false;
+      await refresh();
+    }
+  }, [api, username, refresh]);
+
+  // Sync as soon as the backend becomes reachable...
+  useEffect(() => {
+    if (canSync) sync();
+  }, [canSync, sync]);
+
+  // ...and periodically while items wait (e.g. the backend answers but uploads fail)
+  const hasPending = items.some(i => i.status === 'pending');
+  useEffect(() => {
+    if (!canSync || !hasPending) return;
+    const interval = setInterval(sync, OUTBOX_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [canSync, hasPending, sync]);
+
+  const enqueue = async (item: OutboxItem) => {
+    await idbPut(STORE_OUTBOX, item);
+    await refresh();
+  };
+
+  // Compressed before storing: less space on the device and less to send later.
+  // Callers that corrected the photo pass the metadata read from the original.
+  const enqueueUpload = async (
+    file: File, zonaId: string, source?: RegistroSource, metadata?: PhotoMetadata, templateId?: string
+  ) => {
+    if (!username) return;
+    // PDF pages carry no capture information of their own
+    const photoMetadata = metadata ?? (source ? undefined : await collectPhotoMetadata(file));
+    await enqueue({
+      id: newItemId(), kind: 'upload', username, zonaId, file: await prepareUploadFile(file), source,
+      metadata: photoMetadata, templateId,
+      createdAt: Date.now(), status: 'pending', attempts: 0,
+    });
+  };
+
+  const enqueueValidation = (registroId: number, zonaId: string, payload: ValidationRequest) => {
+    if (!username) return Promise.resolve();
+    return enqueue({
+      id: newItemId(), kind: 'validation', username, zonaId, registroId, payload,
+      createdAt: Date.now(), status: 'pending', attempts: 0,
+    });
+  };
+
+  const retry = async (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    await idbPut(STORE_OUTBOX, { ...item, status: 'pending' });
+    await refresh();
+    // Manual retries go out right away, even if the health badge has not caught up
+    sync();
+  };
+
+  const remove = async (id: string) => {
+    await idbDelete(STORE_OUTBOX, id);
+    await refresh();
+  };
+
+  return {
+    items,
+    // Everything not yet accepted by the backend
+    pendingCount: items.filter(i => i.status !== 'ready').length,
+    enqueueUpload,
+    enqueueValidation,
+    retry,
+    remove,
+    syncNow: sync,
+  };
+};
+
+export type Outbox = ReturnType<typeof useOutbox>;
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { RegistroSource } from '../types';
+import { describeSource, isPdfFile, sourceUploadFields } from './pdf';
+
+const source: RegistroSource = { kind: 'pdf', fileName: 'campaña.pdf', page: 2, pageCount: 5 };
+
+describe('isPdfFile', () => {
+  it('recognises PDFs by type or extension', () => {
+    expect(isPdfFile(new File([''], 'scan.bin', { type: 'application/pdf' }))).toBe(true);
+    expect(isPdfFile(new File([''], 'SCAN.PDF'))).toBe(true);
+    expect(isPdfFile(new File([''], 'foto.jpg', { type: 'image/jpeg' }))).toBe(false);
+  });
+});
+
+describe('source fields', () => {
+  it('sends the file name and page only for PDF pages', () => {
+    expect(sourceUploadFields(source)).toEqual({ origen_archivo: 'campaña.pdf', origen_pagina: '2' });
+    expect(sourceUploadFields()).toEqual({});
+  });
+
+  it('describes the page within its scan', () => {
+    expect(describeSource(source)).toBe('campaña.pdf · página 2 de 5');
+  });
+});
@@ -0,0 +1,100 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { RegistroSource } from '../types';
+import { canvasToFile, MAX_SOURCE_SIDE } from './imageProcessing';
+
+// Multi-page scans: each selected PDF page is rendered to a JPEG in the
+// browser and submitted as its own registro. pdf.js is only downloaded the
+// first time a PDF is opened.
+
+// Enough for handwritten digits; larger pages are capped at MAX_SOURCE_SIDE
+const RENDER_DPI = 200;
+const THUMBNAIL_SIDE = 240;
+
+export interface PdfPage {
+  file: File;
+  source: RegistroSource;
+}
+
+export interface PdfDocument {
+  pageCount: number;
+  renderThumbnail: (page: number) => Promise<string>;
+  renderPages: (pages: number[], onProgress?: (done: number, total: number) => void) => Promise<PdfPage[]>;
+  close: () => void;
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    }).catch(err => {
+      pdfjsPromise = null;
+      throw err;
+    });
+  }
+  return pdfjsPromise;
+};
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const renderToCanvas = async (doc: PDFDocumentProxy, pageNumber: number, maxSide: number, dpi = RENDER_DPI) => {
+  const page = await doc.getPage(pageNumber);
+  try {
+    const natural = page.getViewport({ scale: 1 });
+    const scale = Math.min(dpi / 72, maxSide / Math.max(natural.width, natural.height));
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('El navegador no permite procesar imágenes (canvas 2D no disponible).');
+    // Scans with transparency would otherwise come out black in JPEG
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    return canvas;
+  } finally {
+    page.cleanup();
+  }
+};
+
+export const openPdf = async (file: File): Promise<PdfDocument> => {
+  const pdfjs = await loadPdfjs();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, '');
+
+  return {
+    pageCount: doc.numPages,
+
+    renderThumbnail: async (page) =>
+      (await renderToCanvas(doc, page, THUMBNAIL_SIDE, 72)).toDataURL('image/jpeg', 0.7),
+
+    renderPages: async (pages, onProgress) => {
+      const result: PdfPage[] = [];
+      for (const [index, page] of pages.entries()) {
+        onProgress?.(index, pages.length);
+        const canvas = await renderToCanvas(doc, page, MAX_SOURCE_SIDE);
+        result.push({
+          file: await canvasToFile(canvas, `${baseName}_p${page}.jpg`),
+          source: { kind: 'pdf', fileName: file.name, page, pageCount: doc.numPages },
+        });
+      }
+      onProgress?.(pages.length, pages.length);
+      return result;
+    },
+
+    close: () => { doc.destroy(); },
+  };
+};
+
+// Sent with the upload so the backend can also trace each registro to its scan
+export const sourceUploadFields = (source?: RegistroSource): Record<string, string> =>
+  source ? { origen_archivo: source.fileName, origen_pagina: String(source.page) } : {};
+
+export const describeSource = (source: RegistroSource) =>
+  `${source.fileName} · página ${source.page} de ${source.pageCount}`;
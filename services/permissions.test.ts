@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { User } from '../types';
+import { buildPermissions } from './permissions';
+
+const user = (role: User['role'], zonas?: string[]): User => ({ username: role, name: role, role, zonas });
+
+const zones = [{ id: '1' }, { id: '2' }, { id: '3' }];
+
+describe('buildPermissions', () => {
+  it('grants nothing without a user', () => {
+    const permissions = buildPermissions(null);
+    expect(permissions.can('digitize')).toBe(false);
+    expect(permissions.hasAllZones).toBe(false);
+    expect(permissions.filterZones(zones)).toEqual([]);
+  });
+
+  it('maps roles to capabilities', () => {
+    const buzo = buildPermissions(user('buzo'));
+    expect(buzo.can('digitize')).toBe(true);
+    expect(buzo.can('validate')).toBe(true);
+    expect(buzo.can('view_dashboard')).toBe(false);
+    expect(buzo.can('send_to_dataset')).toBe(false);
+    expect(buzo.can('export')).toBe(false);
+
+    const supervisor = buildPermissions(user('supervisor'));
+    expect(supervisor.can('view_dashboard')).toBe(true);
+    expect(supervisor.can('export')).toBe(true);
+    expect(supervisor.can('manage_users')).toBe(false);
+
+    const admin = buildPermissions(user('admin'));
+    expect(admin.can('manage_users')).toBe(true);
+    expect(admin.can('manage_zones')).toBe(true);
+    expect(admin.can('configure_api')).toBe(true);
+    expect(admin.can('export')).toBe(true);
+  });
+
+  it('scopes non-admin users to the zones in their token', () => {
+    const permissions = buildPermissions(user('supervisor', ['2']));
+    expect(permissions.hasAllZones).toBe(false);
+    expect(permissions.canAccessZone('2')).toBe(true);
+    expect(permissions.canAccessZone('1')).toBe(false);
+    expect(permissions.filterZones(zones)).toEqual([{ id: '2' }]);
+  });
+
+  it('gives every zone to users without a zone list, and always to admins', () => {
+    expect(buildPermissions(user('supervisor')).hasAllZones).toBe(true);
+    const admin = buildPermissions(user('admin', ['1']));
+    expect(admin.hasAllZones).toBe(true);
+    expect(admin.filterZones(zones)).toEqual(zones);
+  });
+});
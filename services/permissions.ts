@@ -0,0 +1,48 @@
+import { createContext, useContext } from 'react';
+import { User, UserRole } from '../types';
+
+// Capability-based access control. Roles map to named capabilities and every
+// component asks `usePermissions().can(...)` instead of checking roles inline.
+
+export type Capability =
+  | 'view_dashboard'
+  | 'digitize'
+  | 'validate'
+  | 'send_to_dataset'
+  | 'configure_api'
+  | 'manage_users'
+  | 'manage_zones'
+  | 'export';
+
+export const ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  admin: ['view_dashboard', 'digitize', 'validate', 'send_to_dataset', 'configure_api', 'manage_users', 'manage_zones', 'export'],
+  supervisor: ['view_dashboard', 'digitize', 'validate', 'send_to_dataset', 'export'],
+  buzo: ['digitize', 'validate'],
+};
+
+export interface Permissions {
+  can: (capability: Capability) => boolean;
+  // True when the user is not limited to a subset of zones
+  hasAllZones: boolean;
+  canAccessZone: (zoneId: string) => boolean;
+  filterZones: <T extends { id: string }>(zones: T[]) => T[];
+}
+
+export const buildPermissions = (user: User | null): Permissions => {
+  const capabilities = new Set<Capability>(user ? ROLE_CAPABILITIES[user.role] : []);
+  // Admins always see every zone; other roles are scoped when the token lists zones
+  const scopedZones = user && user.role !== 'admin' && user.zonas ? new Set(user.zonas) : null;
+
+  const canAccessZone = (zoneId: string) => !!user && (!scopedZones || scopedZones.has(zoneId));
+
+  return {
+    can: (capability) => capabilities.has(capability),
+    hasAllZones: !!user && !scopedZones,
+    canAccessZone,
+    filterZones: (zones) => zones.filter(z => canAccessZone(z.id)),
+  };
+};
+
+export const PermissionsContext = createContext<Permissions>(buildPermissions(null));
+
+export const usePermissions = () => useContext(PermissionsContext);
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Zone } from '../types';
+import { PhotoMetadata, metadataUploadFields, readExif, zoneDistanceWarning } from './photoMetadata';
+
+// Big-endian JPEG with an APP1 segment holding make, model, the original
+// capture time with its offset, and a GPS position of 41°52'12"S 73°49'48"W
+const exifJpeg = (): Blob => {
+  const tiff = 12;
+  const bytes = new Uint8Array(tiff + 232 + 2);
+  const view = new DataView(bytes.buffer);
+  const ascii = (at: number, text: string) => [...text].forEach((c, i) => { bytes[tiff + at + i] = c.charCodeAt(0); });
+  const entry = (at: number, tag: number, type: number, count: number, value: number | string) => {
+    view.setUint16(tiff + at, tag);
+    view.setUint16(tiff + at + 2, type);
+    view.setUint32(tiff + at + 4, count);
+    if (typeof value === 'string') ascii(at + 8, value);
+    else view.setUint32(tiff + at + 8, value);
+  };
+  const rationals = (at: number, values: number[]) => values.forEach((v, i) => {
+    view.setUint32(tiff + at + i * 8, v);
+    view.setUint32(tiff + at + i * 8 + 4, 1);
+  });
+
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, 240);
+  ascii(-6, 'Exif');
+  ascii(0, 'MM');
+  view.setUint16(tiff + 2, 42);
+  view.setUint32(tiff + 4, 8);
+
+  view.setUint16(tiff + 8, 4); // IFD0
+  entry(10, 0x010f, 2, 6, 62);
+  ascii(62, 'Apple');
+  entry(22, 0x0110, 2, 3, 'X1');
+  entry(34, 0x8769, 4, 1, 70);
+  entry(46, 0x8825, 4, 1, 130);
+
+  view.setUint16(tiff + 70, 2); // Exif IFD
+  entry(72, 0x9003, 2, 20, 100);
+  ascii(100, '2024:03:18 14:05:09');
+  entry(84, 0x9011, 2, 7, 120);
+  ascii(120, '-03:00');
+
+  view.setUint16(tiff + 130, 4); // GPS IFD
+  entry(132, 1, 2, 2, 'S');
+  entry(144, 2, 5, 3, 184);
+  rationals(184, [41, 52, 12]);
+  entry(156, 3, 2, 2, 'W');
+  entry(168, 4, 5, 3, 208);
+  rationals(208, [73, 49, 48]);
+
+  view.setUint16(tiff + 232, 0xffd9);
+  return new Blob([bytes]);
+};
+
+const zone: Zone = { id: '1', name: 'Ancud', coords: [-41.87, -73.83], active: true };
+
+describe('readExif', () => {
+  it('reads the capture time, position and camera', async () => {
+    const exif = await readExif(exifJpeg());
+    expect(exif.capturedAt).toBe('2024-03-18T17:05:09.000Z');
+    expect(exif.device).toBe('Apple X1');
+    expect(exif.location?.lat).toBeCloseTo(-41.87);
+    expect(exif.location?.lng).toBeCloseTo(-73.83);
+    expect(exif.location?.source).toBe('exif');
+  });
+
+  it('returns nothing for files that are not JPEGs', async () => {
+    await expect(readExif(new Blob(['%PDF-1.7']))).resolves.toEqual({});
+  });
+});
+
+describe('metadata upload fields', () => {
+  it('sends the position with its origin and precision', () => {
+    const meta: PhotoMetadata = {
+      capturedAt: '2024-03-18T17:05:09.000Z', capturedAtSource: 'file',
+      location: { lat: -41.8700001, lng: -73.83, accuracyM: 12, source: 'device' }, device: 'Pixel 7',
+    };
+    expect(metadataUploadFields(meta)).toEqual({
+      captura_fecha: '2024-03-18T17:05:09.000Z',
+      captura_lat: '-41.870000',
+      captura_lng: '-73.830000',
+      captura_origen_ubicacion: 'dispositivo',
+      captura_precision_m: '12',
+      captura_dispositivo: 'Pixel 7',
+    });
+    expect(metadataUploadFields()).toEqual({});
+  });
+});
+
+describe('zoneDistanceWarning', () => {
+  const takenAt = (lat: number, lng: number): PhotoMetadata => ({
+    capturedAt: '2024-03-18T17:05:09.000Z', capturedAtSource: 'exif', location: { lat, lng, source: 'exif' },
+  });
+
+  it('stays quiet near the zone or without a position', () => {
+    expect(zoneDistanceWarning(takenAt(-41.88, -73.84), zone)).toBeNull();
+    expect(zoneDistanceWarning({ capturedAt: '2024-03-18T17:05:09.000Z', capturedAtSource: 'file' }, zone)).toBeNull();
+  });
+
+  it('warns with the distance when the photo is far from the zone', () => {
+    expect(zoneDistanceWarning(takenAt(-41.97, -73.83), zone)).toMatch(/^La foto se tomó a 11\.1 km de Ancud\./);
+    expect(zoneDistanceWarning(takenAt(-43.12, -73.83), zone)).toMatch(/a 139 km de Ancud/);
+  });
+});
@@ -0,0 +1,215 @@
+import { Zone } from '../types';
+import { debugWarn } from './logger';
+
+// Where, when and with what each planilla photo was taken, sent with the upload
+// as evidence of the field record. Read from the photo's EXIF when present;
+// otherwise the browser's clock and geolocation stand in. Must be read from
+// the original file: corrected / compressed copies are re-encoded without EXIF.
+
+export interface CaptureLocation {
+  lat: number;
+  lng: number;
+  accuracyM?: number;            // Only reported by browser geolocation
+  source: 'exif' | 'device';
+}
+
+export interface PhotoMetadata {
+  capturedAt: string;            // ISO timestamp
+  capturedAtSource: 'exif' | 'file';
+  location?: CaptureLocation;
+  device?: string;
+}
+
+// EXIF lives in the first APP1 segment; no need to read the whole photo
+const EXIF_SCAN_BYTES = 256 * 1024;
+// Device position only describes the photo if it was taken moments ago
+const MAX_GEOLOCATION_AGE_MS = 60 * 60 * 1000;
+const GEOLOCATION_TIMEOUT_MS = 8000;
+// Farther than this from the zone's coordinates is worth a second look
+export const MAX_ZONE_DISTANCE_KM = 5;
+
+// --- EXIF ---
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+type ExifValue = string | number[];
+
+// Bytes per value of the supported field types: ASCII, SHORT, LONG, RATIONAL
+const TYPE_SIZES: Record<number, number> = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+// Reads the entries of one IFD whose type is in TYPE_SIZES; others are skipped
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): Map<number, ExifValue> => {
+  const entries = new Map<number, ExifValue>();
+  if (tiff + offset + 2 > view.byteLength) return entries;
+  const count = view.getUint16(tiff + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const dataAt = size * n <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+    if (dataAt + size * n > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < n; j++) {
+        const code = view.getUint8(dataAt + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      entries.set(tag, text.trim());
+    } else {
+      const values: number[] = [];
+      for (let j = 0; j < n; j++) {
+        const at = dataAt + j * size;
+        if (type === 3) values.push(view.getUint16(at, little));
+        else if (type === 4) values.push(view.getUint32(at, little));
+        else values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+      }
+      entries.set(tag, values);
+    }
+  }
+  return entries;
+};
+
+// "2024:03:18 14:05:09" (+ optional "-03:00") -> ISO; EXIF times without offset are local
+const parseExifDate = (value: ExifValue | undefined, offset: ExifValue | undefined) => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const toDegrees = (dms: ExifValue | undefined, ref: ExifValue | undefined) => {
+  if (!Array.isArray(dms) || dms.length < 3) return undefined;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+interface ExifData {
+  capturedAt?: string;
+  location?: CaptureLocation;
+  device?: string;
+}
+
+export const readExif = async (file: Blob): Promise<ExifData> => {
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {}; // Not a JPEG
+
+  // Walk the JPEG segments up to the APP1 "Exif" one
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+      const pointer = (tag: number) => (ifd0.get(tag) as number[] | undefined)?.[0];
+      const exifIfd = pointer(TAG_EXIF_IFD) ? readIfd(view, tiff, pointer(TAG_EXIF_IFD)!, little) : new Map<number, ExifValue>();
+      const gpsIfd = pointer(TAG_GPS_IFD) ? readIfd(view, tiff, pointer(TAG_GPS_IFD)!, little) : new Map<number, ExifValue>();
+
+      const lat = toDegrees(gpsIfd.get(TAG_GPS_LAT), gpsIfd.get(TAG_GPS_LAT_REF));
+      const lng = toDegrees(gpsIfd.get(TAG_GPS_LNG), gpsIfd.get(TAG_GPS_LNG_REF));
+      const device = [ifd0.get(TAG_MAKE), ifd0.get(TAG_MODEL)].filter(v => typeof v === 'string' && v).join(' ');
+      return {
+        capturedAt: parseExifDate(exifIfd.get(TAG_DATETIME_ORIGINAL), exifIfd.get(TAG_OFFSET_TIME_ORIGINAL))
+          ?? parseExifDate(ifd0.get(TAG_DATETIME), undefined),
+        // 0,0 is what some cameras write when they had no fix
+        location: lat !== undefined && lng !== undefined && (lat !== 0 || lng !== 0)
+          ? { lat, lng, source: 'exif' }
+          : undefined,
+        device: device || undefined,
+      };
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of image data
+    offset += 2 + length;
+  }
+  return {};
+};
+
+// --- Fallbacks ---
+
+const currentPosition = (): Promise<CaptureLocation | undefined> =>
+  new Promise(resolve => {
+    if (!('geolocation' in navigator)) return resolve(undefined);
+    navigator.geolocation.getCurrentPosition(
+      pos => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracyM: Math.round(pos.coords.accuracy), source: 'device' }),
+      err => {
+        debugWarn("[Metadata] Sin ubicación del dispositivo:", err.message);
+        resolve(undefined);
+      },
+      { enableHighAccuracy: true, timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+
+// "Mozilla/5.0 (Linux; Android 14; Pixel 7) ..." -> "Linux; Android 14; Pixel 7"
+const browserDevice = () => navigator.userAgent.match(/\(([^)]+)\)/)?.[1];
+
+export const collectPhotoMetadata = async (file: File): Promise<PhotoMetadata> => {
+  const exif = await readExif(file).catch(err => {
+    debugWarn("[Metadata] No se pudo leer EXIF:", err);
+    return {} as ExifData;
+  });
+  const capturedAt = exif.capturedAt ?? new Date(file.lastModified || Date.now()).toISOString();
+  const isRecent = Date.now() - new Date(capturedAt).getTime() < MAX_GEOLOCATION_AGE_MS;
+  return {
+    capturedAt,
+    capturedAtSource: exif.capturedAt ? 'exif' : 'file',
+    location: exif.location ?? (isRecent ? await currentPosition() : undefined),
+    device: exif.device ?? browserDevice(),
+  };
+};
+
+// --- Upload / display ---
+
+export const metadataUploadFields = (meta?: PhotoMetadata): Record<string, string> => {
+  if (!meta) return {};
+  const fields: Record<string, string> = { captura_fecha: meta.capturedAt };
+  if (meta.location) {
+    fields.captura_lat = meta.location.lat.toFixed(6);
+    fields.captura_lng = meta.location.lng.toFixed(6);
+    fields.captura_origen_ubicacion = meta.location.source === 'exif' ? 'exif' : 'dispositivo';
+    if (meta.location.accuracyM !== undefined) fields.captura_precision_m = String(meta.location.accuracyM);
+  }
+  if (meta.device) fields.captura_dispositivo = meta.device;
+  return fields;
+};
+
+// Great-circle distance in km
+export const distanceKm = (a: [number, number], b: [number, number]) => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b[0] - a[0]);
+  const dLng = rad(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a[0])) * Math.cos(rad(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+// Warning text when the photo was taken far from the zone it is filed under
+export const zoneDistanceWarning = (meta: PhotoMetadata | undefined, zone: Zone | undefined) => {
+  if (!meta?.location || !zone) return null;
+  const km = distanceKm([meta.location.lat, meta.location.lng], zone.coords);
+  if (km <= MAX_ZONE_DISTANCE_KM) return null;
+  return `La foto se tomó a ${km < 100 ? km.toFixed(1) : Math.round(km)} km de ${zone.name}. Verifica que la zona sea la correcta.`;
+};
+
+export const formatCaptureTime = (iso: string) =>
+  new Date(iso).toLocaleString('es-CL', { dateStyle: 'short', timeStyle: 'short' });
+
+export const formatCoordinates = ({ lat, lng }: CaptureLocation) => `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
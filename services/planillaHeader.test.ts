@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OCRHeader, PlanillaHeader } from '../types';
+import { cleanHeader, headerFromOCR, lowConfidenceFields, toDateInput, validateHeader } from './planillaHeader';
+
+const read = (valor: string, confianza = 0.95) => ({ valor, confianza });
+
+const valid: PlanillaHeader = {
+  fecha_buceo: '2024-03-18', buzo: 'Juan Pérez', embarcacion: 'Don Lucho', profundidad_m: 12.5,
+  condiciones_mar: 'calma', observaciones: '',
+};
+
+describe('toDateInput', () => {
+  it('formats the local calendar date', () => {
+    expect(toDateInput(new Date(2024, 2, 8, 23, 59))).toBe('2024-03-08');
+  });
+});
+
+describe('headerFromOCR', () => {
+  it('parses handwritten dates, depths and sea conditions', () => {
+    const header = headerFromOCR({
+      fecha_buceo: read('18-3-24'), profundidad_m: read('12,5 m'), condiciones_mar: read('Marejadílla'), buzo: read('Juan'),
+    }, {});
+    expect(header).toMatchObject({ fecha_buceo: '2024-03-18', profundidad_m: 12.5, condiciones_mar: 'marejadilla', buzo: 'Juan' });
+    expect(headerFromOCR({ fecha_buceo: read('2024-03-18T10:00') }, {}).fecha_buceo).toBe('2024-03-18');
+  });
+
+  it('falls back to the defaults for missing or unreadable fields', () => {
+    const defaults = { fecha_buceo: '2024-03-01', buzo: 'Ana', profundidad_m: 8 };
+    const header = headerFromOCR({ fecha_buceo: read('31/02/2024'), condiciones_mar: read('tranquilo') }, defaults);
+    expect(header).toEqual({
+      fecha_buceo: '2024-03-01', buzo: 'Ana', embarcacion: '', profundidad_m: 8, condiciones_mar: '', observaciones: '',
+    });
+    expect(headerFromOCR(undefined, {}).profundidad_m).toBeNull();
+  });
+});
+
+describe('lowConfidenceFields', () => {
+  it('flags the reads below the shared threshold', () => {
+    const ocr: OCRHeader = { buzo: read('Juan', 0.6), embarcacion: read('Don Lucho', 0.85) };
+    expect(lowConfidenceFields(ocr)).toEqual(new Set(['buzo']));
+    expect(lowConfidenceFields(undefined).size).toBe(0);
+  });
+});
+
+describe('validateHeader', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 2, 20, 12, 0));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('accepts a complete header', () => {
+    expect(validateHeader(valid)).toEqual({});
+  });
+
+  it('requires every field but the observations', () => {
+    const errors = validateHeader({ ...valid, fecha_buceo: '', buzo: ' ', embarcacion: '', profundidad_m: null, condiciones_mar: '' });
+    expect(Object.keys(errors).sort()).toEqual(['buzo', 'condiciones_mar', 'embarcacion', 'fecha_buceo', 'profundidad_m']);
+  });
+
+  it('rejects future dates, implausible depths and long observations', () => {
+    expect(validateHeader({ ...valid, fecha_buceo: '2024-03-21' }).fecha_buceo).toBe('La fecha no puede ser futura.');
+    expect(validateHeader({ ...valid, profundidad_m: 0 }).profundidad_m).toBeDefined();
+    expect(validateHeader({ ...valid, profundidad_m: 61 }).profundidad_m).toBeDefined();
+    expect(validateHeader({ ...valid, observaciones: 'x'.repeat(501) }).observaciones).toBe('Máximo 500 caracteres.');
+  });
+});
+
+describe('cleanHeader', () => {
+  it('trims the free-text fields', () => {
+    expect(cleanHeader({ ...valid, buzo: ' Juan ', embarcacion: 'Don Lucho ', observaciones: ' ok ' }))
+      .toMatchObject({ buzo: 'Juan', embarcacion: 'Don Lucho', observaciones: 'ok' });
+  });
+});
@@ -0,0 +1,93 @@
+import { OCRHeader, PlanillaHeader, SeaCondition } from '../types';
+import { isLowConfidence } from './confidence';
+
+// Header of the planilla: who dived, when, from which boat and in what
+// conditions. Prefilled from the OCR when the backend reads it, otherwise from
+// what the app already knows, and always confirmed by the user before saving.
+
+export const SEA_CONDITIONS: { value: SeaCondition; label: string }[] = [
+  { value: 'calma', label: 'Calma' },
+  { value: 'marejadilla', label: 'Marejadilla' },
+  { value: 'marejada', label: 'Marejada' },
+  { value: 'temporal', label: 'Temporal' },
+];
+
+// Deepest dive a planilla can plausibly record
+export const MAX_DEPTH_M = 60;
+export const MAX_OBSERVATIONS_LENGTH = 500;
+
+export type HeaderErrors = Partial<Record<keyof PlanillaHeader, string>>;
+
+// YYYY-MM-DD in local time (toISOString would shift late dives to the next day)
+export const toDateInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Handwritten "18/03/2024", "18-3-24" or ISO "2024-03-18"
+const parseDate = (text: string) => {
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!dmy) return '';
+  const year = dmy[3].length === 2 ? 2000 + Number(dmy[3]) : Number(dmy[3]);
+  const date = new Date(year, Number(dmy[2]) - 1, Number(dmy[1]));
+  // Rejects 31/02 and the like, which Date silently rolls over
+  return date.getDate() === Number(dmy[1]) ? toDateInput(date) : '';
+};
+
+// "12,5 m" -> 12.5
+const parseDepth = (text: string) => {
+  const match = text.replace(',', '.').match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const parseSeaCondition = (text: string): SeaCondition | '' =>
+  SEA_CONDITIONS.find(c => normalize(text) === c.value)?.value ?? '';
+
+// OCR reads win over the defaults; reads that do not parse are left for the user
+export const headerFromOCR = (ocr: OCRHeader | undefined, defaults: Partial<PlanillaHeader>): PlanillaHeader => {
+  const read = (key: keyof PlanillaHeader) => ocr?.[key]?.valor ?? '';
+  const fecha = parseDate(read('fecha_buceo'));
+  const profundidad = parseDepth(read('profundidad_m'));
+  const condiciones = parseSeaCondition(read('condiciones_mar'));
+  return {
+    fecha_buceo: fecha || defaults.fecha_buceo || '',
+    buzo: read('buzo') || defaults.buzo || '',
+    embarcacion: read('embarcacion') || defaults.embarcacion || '',
+    profundidad_m: profundidad ?? defaults.profundidad_m ?? null,
+    condiciones_mar: condiciones || defaults.condiciones_mar || '',
+    observaciones: read('observaciones') || defaults.observaciones || '',
+  };
+};
+
+// Fields the OCR filled in but is not sure about
+export const lowConfidenceFields = (ocr: OCRHeader | undefined) =>
+  new Set((Object.keys(ocr ?? {}) as (keyof PlanillaHeader)[]).filter(key => isLowConfidence(ocr![key]!.confianza)));
+
+export const validateHeader = (header: PlanillaHeader): HeaderErrors => {
+  const errors: HeaderErrors = {};
+  if (!header.fecha_buceo) errors.fecha_buceo = 'Indique la fecha del buceo.';
+  else if (header.fecha_buceo > toDateInput(new Date())) errors.fecha_buceo = 'La fecha no puede ser futura.';
+  if (!header.buzo.trim()) errors.buzo = 'Indique el nombre del buzo.';
+  if (!header.embarcacion.trim()) errors.embarcacion = 'Indique la embarcación.';
+  if (header.profundidad_m === null) errors.profundidad_m = 'Indique la profundidad.';
+  else if (!(header.profundidad_m > 0 && header.profundidad_m <= MAX_DEPTH_M)) {
+    errors.profundidad_m = `Debe estar entre 0 y ${MAX_DEPTH_M} m.`;
+  }
+  if (!header.condiciones_mar) errors.condiciones_mar = 'Seleccione las condiciones del mar.';
+  if (header.observaciones.length > MAX_OBSERVATIONS_LENGTH) {
+    errors.observaciones = `Máximo ${MAX_OBSERVATIONS_LENGTH} caracteres.`;
+  }
+  return errors;
+};
+
+// Trimmed copy for submission
+export const cleanHeader = (header: PlanillaHeader): PlanillaHeader => ({
+  ...header,
+  buzo: header.buzo.trim(),
+  embarcacion: header.embarcacion.trim(),
+  observaciones: header.observaciones.trim(),
+});
@@ -0,0 +1,229 @@
+// @vitest-environment happy-dom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import swSource from '../public/sw.js?raw';
+import { usePwa } from './pwa';
+
+// --- usePwa ---
+
+class FakeWorker extends EventTarget {
+  postMessage = vi.fn();
+  constructor(public state: string) {
+    super();
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+  update = vi.fn(async () => undefined);
+  unregister = vi.fn(async () => true);
+}
+
+class FakeContainer extends EventTarget {
+  controller: object | null = {};
+  registration = new FakeRegistration();
+  register = vi.fn(async () => this.registration);
+  getRegistrations = vi.fn(async () => [this.registration]);
+}
+
+describe('usePwa', () => {
+  let container: FakeContainer;
+  let reload: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    container = new FakeContainer();
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+    reload = vi.fn();
+    vi.spyOn(window.location, 'reload').mockImplementation(reload);
+    vi.stubEnv('PROD', true);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  // Renders the hook and lets the registration resolve
+  const renderPwa = async () => {
+    const hook = renderHook(() => usePwa());
+    await act(async () => { await container.register.mock.results[0]?.value; });
+    return hook.result;
+  };
+
+  const finishInstalling = (worker: FakeWorker) => act(() => {
+    worker.state = 'installed';
+    container.registration.waiting = worker;
+    worker.dispatchEvent(new Event('statechange'));
+  });
+
+  it('offers a new version once it has installed, and reloads into it', async () => {
+    const worker = new FakeWorker('installing');
+    container.registration.installing = worker;
+    const pwa = await renderPwa();
+    expect(container.register).toHaveBeenCalledWith('/sw.js');
+    expect(pwa.current.updateAvailable).toBe(false);
+
+    await finishInstalling(worker);
+    expect(pwa.current.updateAvailable).toBe(true);
+
+    act(() => pwa.current.applyUpdate());
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    expect(reload).not.toHaveBeenCalled();
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(reload).toHaveBeenCalledOnce();
+  });
+
+  it('does not offer an update on the first install', async () => {
+    container.controller = null;
+    const worker = new FakeWorker('installing');
+    container.registration.installing = worker;
+    const pwa = await renderPwa();
+
+    await finishInstalling(worker);
+    expect(pwa.current.updateAvailable).toBe(false);
+  });
+
+  it('offers the update the active worker found on the server', async () => {
+    const pwa = await renderPwa();
+
+    act(() => { container.dispatchEvent(new MessageEvent('message', { data: { type: 'UPDATE_AVAILABLE' } })); });
+    expect(pwa.current.updateAvailable).toBe(true);
+
+    act(() => pwa.current.dismissUpdate());
+    expect(pwa.current.updateAvailable).toBe(false);
+
+    // No waiting worker: the new shell is already cached, a reload is enough
+    act(() => pwa.current.applyUpdate());
+    expect(reload).toHaveBeenCalledOnce();
+  });
+
+  it('removes the worker instead of registering it outside production builds', async () => {
+    vi.stubEnv('PROD', false);
+    renderHook(() => usePwa());
+    await act(async () => { await container.getRegistrations.mock.results[0]?.value; });
+    expect(container.register).not.toHaveBeenCalled();
+    expect(container.registration.unregister).toHaveBeenCalled();
+  });
+});
+
+// --- Service worker (public/sw.js) ---
+
+const ORIGIN = 'https://bluegrid.test';
+
+const urlOf = (input: RequestInfo | URL) =>
+  new URL(typeof input === 'string' || input instanceof URL ? input : input.url, ORIGIN).href;
+
+type FetchFn = (input: RequestInfo | URL) => Promise<Response>;
+
+// In-memory Cache Storage; keys keep insertion order like the real one
+class FakeCache {
+  entries = new Map<string, Response>();
+  constructor(private fetchFn: FetchFn) {}
+  async match(request: RequestInfo) { return this.entries.get(urlOf(request))?.clone(); }
+  async put(request: RequestInfo, response: Response) { this.entries.set(urlOf(request), response); }
+  async add(request: RequestInfo) {
+    const response = await this.fetchFn(request);
+    if (response.ok) await this.put(request, response);
+  }
+  async delete(request: RequestInfo) { return this.entries.delete(urlOf(request)); }
+  async keys() { return [...this.entries.keys()].map(url => ({ url })); }
+  paths() { return [...this.entries.keys()].map(url => new URL(url).pathname); }
+}
+
+const fakeCaches = (fetchFn: FetchFn) => {
+  const stores = new Map<string, FakeCache>();
+  const open = async (name: string) => {
+    if (!stores.has(name)) stores.set(name, new FakeCache(fetchFn));
+    return stores.get(name)!;
+  };
+  return {
+    stores,
+    open,
+    keys: async () => [...stores.keys()],
+    delete: async (name: string) => stores.delete(name),
+    match: async (request: RequestInfo) => {
+      for (const cache of stores.values()) {
+        const hit = await cache.match(request);
+        if (hit) return hit;
+      }
+      return undefined;
+    },
+  };
+};
+
+// Evaluates the worker script against fakes and returns a way to fire its events
+const loadWorker = (fetchFn: FetchFn) => {
+  const listeners: Record<string, (event: unknown) => void> = {};
+  const clients = [{ postMessage: vi.fn() }];
+  const self = {
+    location: new URL(ORIGIN),
+    addEventListener: (type: string, listener: (event: unknown) => void) => { listeners[type] = listener; },
+    clients: { claim: async () => undefined, matchAll: async () => clients },
+    skipWaiting: vi.fn(),
+  };
+  const caches = fakeCaches(fetchFn);
+  new Function('self', 'caches', 'fetch', swSource)(self, caches, fetchFn);
+
+  // Settles everything passed to respondWith / waitUntil; returns the response
+  const dispatch = async (type: string, init: object = {}) => {
+    let response: Promise<Response> | undefined;
+    const pending: Promise<unknown>[] = [];
+    const event = {
+      ...init,
+      respondWith: (p: Promise<Response>) => { response = p; pending.push(p); },
+      waitUntil: (p: Promise<unknown>) => { pending.push(p); },
+    };
+    listeners[type](event);
+    while (pending.length) await pending.shift();
+    return response;
+  };
+  return { caches, clients, dispatch };
+};
+
+const get = (url: string, mode = 'no-cors') => ({ request: { method: 'GET', url, mode } });
+
+describe('service worker', () => {
+  it('keeps only the most recent map tiles', async () => {
+    const { caches, dispatch } = loadWorker(async () => new Response('png'));
+    const tile = (i: number) => `https://a.tile.openstreetmap.org/12/${i}/1500.png`;
+
+    for (let i = 0; i < 252; i++) await dispatch('fetch', get(tile(i)));
+
+    const tiles = [...caches.stores.entries()].find(([name]) => name.startsWith('bluegrid-tiles-'))![1];
+    const cached = [...tiles.entries.keys()];
+    expect(cached).toHaveLength(250);
+    expect(cached[0]).toBe(tile(2));
+    expect(cached[249]).toBe(tile(251));
+  });
+
+  it('drops assets of older builds and caches of older versions on activation', async () => {
+    const { caches, dispatch } = loadWorker(async () => new Response('', { status: 404 }));
+    const shell = await caches.open('bluegrid-shell-v1');
+    await shell.put('/index.html', new Response('<html></html>'));
+    await shell.put('/asset-manifest.json', new Response(JSON.stringify({
+      'index.html': { file: 'assets/index-new.js', css: ['assets/index-new.css'] },
+    })));
+    for (const path of ['/assets/index-old.js', '/assets/index-new.js', '/assets/index-new.css']) {
+      await shell.put(path, new Response(''));
+    }
+    await caches.open('bluegrid-shell-v0');
+
+    await dispatch('activate');
+
+    expect(shell.paths()).toEqual(['/index.html', '/asset-manifest.json', '/assets/index-new.js', '/assets/index-new.css']);
+    expect(await caches.keys()).toEqual(['bluegrid-shell-v1']);
+  });
+
+  it('serves the cached shell and tells open tabs when a new one is deployed', async () => {
+    const { caches, clients, dispatch } = loadWorker(async (input) =>
+      urlOf(input).endsWith('/index.html') ? new Response('<html>v2</html>') : new Response('', { status: 404 }));
+    const shell = await caches.open('bluegrid-shell-v1');
+    await shell.put('/index.html', new Response('<html>v1</html>'));
+
+    const served = await dispatch('fetch', get(`${ORIGIN}/zonas`, 'navigate'));
+    await vi.waitFor(() => expect(clients[0].postMessage).toHaveBeenCalledWith({ type: 'UPDATE_AVAILABLE' }));
+
+    expect(await (await served)!.text()).toBe('<html>v1</html>');
+    expect(await (await shell.match('/index.html'))!.text()).toBe('<html>v2</html>');
+  });
+});
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { debugLog, debugWarn } from './logger';
+
+// Installable app support: registers the service worker (public/sw.js) in
+// production builds, surfaces "new version available" and the browser's
+// install prompt.
+
+const SERVICE_WORKER_URL = '/sw.js';
+// Long-lived installed tabs still pick up new deployments
+const UPDATE_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+// Not in lib.dom yet (Chromium only)
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// True when running as the installed app rather than in a browser tab
+export const isStandalone = () =>
+  window.matchMedia('(display-mode: standalone)').matches ||
+  (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+// The manifest's start_url / shortcuts mark app launches with ?source=pwa
+export const readLaunchParams = () => {
+  const params = new URLSearchParams(window.location.search);
+  return {
+    fromApp: params.get('source') === 'pwa' || isStandalone(),
+    module: params.get('module'),
+  };
+};
+
+export const usePwa = () => {
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+  const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+  const reloadingRef = useRef(false);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    // The dev server's modules are not hashed; a caching worker would serve stale code
+    if (!import.meta.env.PROD) {
+      // Drop a worker left on this origin by an earlier production preview
+      navigator.serviceWorker.getRegistrations()
+        .then(registrations => registrations.forEach(r => r.unregister()))
+        .catch(() => { /* nothing registered */ });
+      return;
+    }
+
+    // A new worker finished installing while an older one controls the page
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setUpdateAvailable(true);
+      });
+    };
+
+    // The active worker found a different app shell on the server
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'UPDATE_AVAILABLE') setUpdateAvailable(true);
+    };
+
+    const onControllerChange = () => {
+      if (reloadingRef.current) window.location.reload();
+    };
+
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .then(registration => {
+        registrationRef.current = registration;
+        if (registration.waiting && navigator.serviceWorker.controller) setUpdateAvailable(true);
+        trackInstalling(registration.installing);
+        registration.addEventListener('updatefound', () => trackInstalling(registration.installing));
+      })
+      .catch(err => debugWarn("[PWA] No se pudo registrar el service worker:", err));
+
+    const interval = setInterval(() => {
+      registrationRef.current?.update().catch(() => { /* offline */ });
+    }, UPDATE_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker.removeEventListener('message', onMessage);
+      navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const onBeforeInstall = (e: Event) => {
+      e.preventDefault();
+      setInstallEvent(e as BeforeInstallPromptEvent);
+    };
+    const onInstalled = () => setInstallEvent(null);
+
+    window.addEventListener('beforeinstallprompt', onBeforeInstall);
+    window.addEventListener('appinstalled', onInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', onBeforeInstall);
+      window.removeEventListener('appinstalled', onInstalled);
+    };
+  }, []);
+
+  // Activates the waiting worker (if any) and reloads into the new version
+  const applyUpdate = useCallback(() => {
+    const waiting = registrationRef.current?.waiting;
+    if (waiting) {
+      reloadingRef.current = true;
+      waiting.postMessage({ type: 'SKIP_WAITING' });
+    } else {
+      window.location.reload();
+    }
+  }, []);
+
+  const dismissUpdate = useCallback(() => setUpdateAvailable(false), []);
+
+  const install = useCallback(async () => {
+    if (!installEvent) return;
+    await installEvent.prompt();
+    const { outcome } = await installEvent.userChoice;
+    debugLog(`[PWA] Instalación ${outcome === 'accepted' ? 'aceptada' : 'descartada'}.`);
+    setInstallEvent(null);
+  }, [installEvent]);
+
+  return {
+    updateAvailable,
+    applyUpdate,
+    dismissUpdate,
+    canInstall: installEvent !== null,
+    install,
+  };
+};
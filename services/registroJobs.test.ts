@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OCRResponse, PendingRegistro } from '../types';
+import { ApiClient, ApiError } from './apiClient';
+import { RegistroProcessingError, isPendingRegistro, waitForRegistro } from './registroJobs';
+
+const done: OCRResponse = {
+  id: 7, estado: 'pendiente_validacion', zona_id: 1,
+  resultado_ia: { status: 'ok', promedio_confianza: 0.9, matriz: [] },
+};
+const pending = (estado: string): PendingRegistro => ({ id: 7, estado });
+
+// Only the call waitForRegistro makes
+const fakeApi = (...answers: (OCRResponse | PendingRegistro | Error)[]) => {
+  const getRegistro = vi.fn(async () => {
+    const next = answers.shift();
+    if (!next) throw new Error('sin más respuestas');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return { api: { getRegistro } as unknown as ApiClient, getRegistro };
+};
+
+const fast = { intervalMs: 1 };
+
+describe('waitForRegistro', () => {
+  it('returns finished results without polling', async () => {
+    const { api, getRegistro } = fakeApi();
+    await expect(waitForRegistro(api, done, fast)).resolves.toBe(done);
+    expect(getRegistro).not.toHaveBeenCalled();
+  });
+
+  it('polls until the OCR result is available, reporting each state', async () => {
+    const { api, getRegistro } = fakeApi(pending('procesando'), done);
+    const onStatus = vi.fn();
+    await expect(waitForRegistro(api, pending('en_cola'), { ...fast, onStatus })).resolves.toBe(done);
+    expect(getRegistro).toHaveBeenCalledTimes(2);
+    expect(onStatus.mock.calls).toEqual([['en_cola'], ['procesando']]);
+  });
+
+  it('fails when the backend reports a failed job', async () => {
+    const { api } = fakeApi(pending('Fallido'));
+    const err = await waitForRegistro(api, pending('en_cola'), fast).catch(e => e);
+    expect(err).toBeInstanceOf(RegistroProcessingError);
+    expect(err.registroId).toBe(7);
+  });
+
+  it('tolerates a few dropped polls but not a run of them', async () => {
+    const offline = () => new ApiError(0, 'offline');
+    const recovered = fakeApi(offline(), offline(), done);
+    await expect(waitForRegistro(recovered.api, pending('en_cola'), fast)).resolves.toBe(done);
+
+    const down = fakeApi(offline(), offline(), offline());
+    await expect(waitForRegistro(down.api, pending('en_cola'), fast)).rejects.toThrow('offline');
+  });
+
+  it('does not retry polls the backend rejected', async () => {
+    const { api, getRegistro } = fakeApi(new ApiError(404, 'no existe'));
+    await expect(waitForRegistro(api, pending('en_cola'), fast)).rejects.toThrow('no existe');
+    expect(getRegistro).toHaveBeenCalledOnce();
+  });
+
+  it('gives up after the maximum wait', async () => {
+    const { api } = fakeApi(pending('procesando'), pending('procesando'), pending('procesando'));
+    await expect(waitForRegistro(api, pending('en_cola'), { intervalMs: 5, maxWaitMs: 8 }))
+      .rejects.toBeInstanceOf(RegistroProcessingError);
+  });
+});
+
+describe('isPendingRegistro', () => {
+  it('tells job headers from results', () => {
+    expect(isPendingRegistro(pending('en_cola'))).toBe(true);
+    expect(isPendingRegistro(done)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { OCRResponse, PendingRegistro } from '../types';
+import { ApiClient } from './apiClient';
+import { isRetryableError, wait } from './retry';
+import { debugWarn } from './logger';
+
+// Polling for registros processed asynchronously. Some backends accept the
+// upload right away and run the OCR in a worker; the client then polls the
+// registro's `estado` until `resultado_ia` is available.
+
+export const REGISTRO_POLL_INTERVAL_MS = 2000;
+// Give up after this long; a cold Colab GPU rarely needs more than a couple of minutes
+export const REGISTRO_MAX_WAIT_MS = 5 * 60 * 1000;
+// Consecutive transient poll failures tolerated before giving up
+const MAX_CONSECUTIVE_POLL_ERRORS = 3;
+
+const FAILED_STATES = ['error', 'fallido', 'fallida', 'rechazado'];
+
+// The backend reported that the OCR job itself failed, or it never finished
+export class RegistroProcessingError extends Error {
+  registroId: number;
+
+  constructor(registroId: number, message: string) {
+    super(message);
+    this.name = 'RegistroProcessingError';
+    this.registroId = registroId;
+  }
+}
+
+export const isPendingRegistro = (registro: OCRResponse | PendingRegistro): registro is PendingRegistro =>
+  !('resultado_ia' in registro);
+
+interface WaitOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per poll request
+  intervalMs?: number;
+  maxWaitMs?: number;
+  onStatus?: (estado: string) => void;
+}
+
+export const waitForRegistro = async (
+  api: ApiClient,
+  registro: OCRResponse | PendingRegistro,
+  { signal, timeoutMs, intervalMs = REGISTRO_POLL_INTERVAL_MS, maxWaitMs = REGISTRO_MAX_WAIT_MS, onStatus }: WaitOptions = {}
+): Promise<OCRResponse> => {
+  const deadline = Date.now() + maxWaitMs;
+  let current = registro;
+  let consecutiveErrors = 0;
+
+  while (isPendingRegistro(current)) {
+    if (FAILED_STATES.includes(current.estado.toLowerCase())) {
+      throw new RegistroProcessingError(current.id, `El servidor no pudo procesar la planilla (estado: ${current.estado}).`);
+    }
+    onStatus?.(current.estado);
+
+    if (Date.now() + intervalMs > deadline) {
+      throw new RegistroProcessingError(
+        current.id,
+        `La planilla #${current.id} sigue en proceso tras ${Math.round(maxWaitMs / 60000)} min. Intenta más tarde.`
+      );
+    }
+    await wait(intervalMs, signal);
+
+    try {
+      current = await api.getRegistro(current.id, { signal, timeoutMs });
+      consecutiveErrors = 0;
+    } catch (err) {
+      // A dropped poll on a flaky connection is not a failed job; keep polling
+      if (!isRetryableError(err) || ++consecutiveErrors >= MAX_CONSECUTIVE_POLL_ERRORS) throw err;
+      debugWarn(`[Registro] Error consultando estado de #${current.id}, reintentando:`, err);
+    }
+  }
+
+  return current;
+};
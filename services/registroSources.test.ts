@@ -0,0 +1,36 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RegistroSource } from '../types';
+import { clearRegistroIndexes, getRegistroSource, rememberRegistroSource } from './registroSources';
+
+const source = (page: number): RegistroSource => ({ kind: 'pdf', fileName: 'scan.pdf', page, pageCount: 600 });
+
+beforeEach(() => localStorage.clear());
+
+describe('registro indexes', () => {
+  it('remembers values per registro', () => {
+    rememberRegistroSource(3, source(1));
+    expect(getRegistroSource(3)).toEqual(source(1));
+    expect(getRegistroSource(4)).toBeNull();
+  });
+
+  it('keeps only the latest registros', () => {
+    for (let id = 1; id <= 501; id++) rememberRegistroSource(id, source(id));
+    expect(getRegistroSource(1)).toBeNull();
+    expect(getRegistroSource(2)).toEqual(source(2));
+    expect(getRegistroSource(501)).toEqual(source(501));
+  });
+
+  it('recovers from a corrupt index', () => {
+    localStorage.setItem('bluegrid_registro_sources', '{oops');
+    expect(getRegistroSource(1)).toBeNull();
+    rememberRegistroSource(1, source(1));
+    expect(getRegistroSource(1)).toEqual(source(1));
+  });
+
+  it('forgets everything on logout', () => {
+    rememberRegistroSource(1, source(1));
+    clearRegistroIndexes();
+    expect(getRegistroSource(1)).toBeNull();
+  });
+});
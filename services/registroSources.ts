@@ -0,0 +1,51 @@
+import { RegistroSource } from '../types';
+import { PhotoMetadata } from './photoMetadata';
+
+// Remembers where each registro came from (PDF page, photo metadata, template
+// picked at upload) so the editor can show it even after a reload. Kept in
+// localStorage; only the latest registros (highest ids) are kept, and all of
+// it is wiped on logout (the metadata holds GPS positions).
+
+const MAX_ENTRIES = 500;
+
+const createRegistroIndex = <T>(storageKey: string) => {
+  const read = (): Record<string, T> => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? '{}') as Record<string, T>;
+    } catch {
+      localStorage.removeItem(storageKey);
+      return {};
+    }
+  };
+
+  return {
+    remember: (registroId: number, value: T) => {
+      const index = read();
+      index[registroId] = value;
+      // Integer keys enumerate in ascending order, so the oldest ids come first
+      const entries = Object.entries(index);
+      localStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(entries.slice(-MAX_ENTRIES))));
+    },
+    get: (registroId: number): T | null => read()[registroId] ?? null,
+    clear: () => localStorage.removeItem(storageKey),
+  };
+};
+
+const sources = createRegistroIndex<RegistroSource>('bluegrid_registro_sources');
+const metadata = createRegistroIndex<PhotoMetadata>('bluegrid_registro_metadata');
+const templates = createRegistroIndex<string>('bluegrid_registro_templates');
+
+export const rememberRegistroSource = sources.remember;
+export const getRegistroSource = sources.get;
+
+export const rememberRegistroMetadata = metadata.remember;
+export const getRegistroMetadata = metadata.get;
+
+export const rememberRegistroTemplate = templates.remember;
+export const getRegistroTemplate = templates.get;
+
+export const clearRegistroIndexes = () => {
+  sources.clear();
+  metadata.clear();
+  templates.clear();
+};
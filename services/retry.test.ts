@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, RequestCancelledError, TimeoutError, UnauthorizedError } from './apiClient';
+import { backoffDelay, isRetryableError, wait, withRetry } from './retry';
+
+describe('isRetryableError', () => {
+  it('retries network errors, timeouts and 5xx only', () => {
+    expect(isRetryableError(new ApiError(0, 'Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new TimeoutError(1000))).toBe(true);
+    expect(isRetryableError(new ApiError(503, 'busy'))).toBe(true);
+    expect(isRetryableError(new ApiError(422, 'bad'))).toBe(false);
+    expect(isRetryableError(new UnauthorizedError())).toBe(false);
+    expect(isRetryableError(new RequestCancelledError())).toBe(false);
+    expect(isRetryableError(new Error('x'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles from the base delay and caps at the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // no jitter
+    expect([1, 2, 3, 4].map(n => backoffDelay(n, 2000))).toEqual([2000, 4000, 8000, 16000]);
+    expect(backoffDelay(10, 2000, 30000)).toBe(30000);
+  });
+
+  it('adds at most ±20% jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(1, 1000)).toBe(800);
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999);
+    expect(backoffDelay(1, 1000)).toBe(1200);
+  });
+});
+
+describe('wait', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('rejects as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = wait(10_000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  it('rejects right away when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(wait(10, controller.signal)).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures with backoff until one succeeds', async () => {
+    const task = vi.fn<(attempt: number) => Promise<string>>()
+      .mockRejectedValueOnce(new ApiError(0, 'offline'))
+      .mockRejectedValueOnce(new ApiError(502, 'bad gateway'))
+      .mockResolvedValue('ok');
+    const onAttempt = vi.fn();
+    const onRetry = vi.fn();
+
+    const result = withRetry(task, { maxAttempts: 4, baseDelayMs: 100, onAttempt, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onAttempt.mock.calls).toEqual([[1, 4], [2, 4], [3, 4]]);
+    expect(onRetry.mock.calls.map(([attempt, , delay]) => [attempt, delay])).toEqual([[1, 100], [2, 200]]);
+  });
+
+  it('gives up after the last attempt with its error', async () => {
+    const task = vi.fn().mockRejectedValue(new ApiError(500, 'down'));
+    const result = withRetry(task, { maxAttempts: 3, baseDelayMs: 10 });
+    const settled = expect(result).rejects.toThrow('down');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const task = vi.fn().mockRejectedValue(new ApiError(400, 'bad request'));
+    await expect(withRetry(task, { maxAttempts: 3, baseDelayMs: 10 })).rejects.toThrow('bad request');
+    expect(task).toHaveBeenCalledOnce();
+  });
+
+  it('stops waiting when cancelled between attempts', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new ApiError(0, 'offline'));
+    const result = withRetry(task, { maxAttempts: 5, baseDelayMs: 1000, signal: controller.signal });
+    const settled = expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await settled;
+    expect(task).toHaveBeenCalledOnce();
+  });
+});
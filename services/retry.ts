@@ -0,0 +1,62 @@
+import { ApiError, RequestCancelledError } from './apiClient';
+import { debugWarn } from './logger';
+
+// Automatic retries with exponential backoff for calls made over unreliable
+// connections (boats, remote coves). Only transient failures are retried:
+// network errors, timeouts and 5xx. A 4xx means the request itself is wrong
+// and sending it again would fail the same way.
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  // Called right before every attempt (1-based)
+  onAttempt?: (attempt: number, maxAttempts: number) => void;
+  // Called after a failed attempt that will be retried, before waiting
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+export const isRetryableError = (err: unknown): boolean =>
+  err instanceof ApiError && (err.isNetworkError || err.status >= 500);
+
+// 1st retry waits `base`, then 2x, 4x... capped at `max`, with ±20% jitter so
+// several devices reconnecting at once do not hit the backend in lockstep.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs = 30000): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jitter = exponential * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(exponential + jitter);
+};
+
+// Resolves after `ms`, or rejects with `RequestCancelledError` as soon as `signal` aborts
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new RequestCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs, signal, onAttempt, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new RequestCancelledError();
+    onAttempt?.(attempt, maxAttempts);
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (attempt >= maxAttempts || !isRetryableError(err)) throw err;
+      const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      debugWarn(`[Retry] Intento ${attempt}/${maxAttempts} falló, reintentando en ${delayMs} ms:`, err);
+      onRetry?.(attempt, err, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+};
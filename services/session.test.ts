@@ -0,0 +1,70 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthSession } from './auth';
+import { clearSession, loadPlanillaCache, loadSession, savePlanillaCache, saveSession, setIdleTimeoutMinutes, touchActivity } from './session';
+import { getRegistroTemplate, rememberRegistroTemplate } from './registroSources';
+import { clearDrafts } from './drafts';
+
+vi.mock('./drafts', () => ({ clearDrafts: vi.fn() }));
+
+const NOW = 1_700_000_000_000;
+
+const makeSession = (overrides: Partial<AuthSession> = {}): AuthSession => ({
+  accessToken: 'token',
+  refreshToken: 'refresh',
+  user: { username: 'ana', name: 'Ana', role: 'buzo', session: { issuedAt: NOW - 1000, expiresAt: NOW + 60_000 } },
+  ...overrides,
+});
+
+describe('session persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('restores a recent session', () => {
+    saveSession(makeSession());
+    touchActivity(NOW - 60_000);
+    expect(loadSession()?.user.username).toBe('ana');
+  });
+
+  it('drops a session idle for longer than the timeout', () => {
+    setIdleTimeoutMinutes(10);
+    saveSession(makeSession());
+    touchActivity(NOW - 11 * 60_000);
+    expect(loadSession()).toBeNull();
+    expect(localStorage.getItem('bluegrid_session')).toBeNull();
+  });
+
+  it('keeps an expired token only when it can be refreshed', () => {
+    const expired = makeSession();
+    expired.user.session.expiresAt = NOW - 1;
+    saveSession(expired);
+    touchActivity(NOW);
+    expect(loadSession()).not.toBeNull();
+
+    saveSession({ ...expired, refreshToken: undefined });
+    expect(loadSession()).toBeNull();
+  });
+
+  it('ignores corrupt stored JSON', () => {
+    localStorage.setItem('bluegrid_session', '{oops');
+    expect(loadSession()).toBeNull();
+    expect(localStorage.getItem('bluegrid_session')).toBeNull();
+  });
+
+  it('clearSession wipes the planilla, registro indexes and drafts', () => {
+    saveSession(makeSession());
+    savePlanillaCache({ ocrData: null, view: 'editor', selectedZone: '1', currentModule: 'ocr' });
+    rememberRegistroTemplate(7, 'pulpo_transecta');
+
+    clearSession();
+
+    expect(loadSession()).toBeNull();
+    expect(loadPlanillaCache()).toBeNull();
+    expect(getRegistroTemplate(7)).toBeNull();
+    expect(clearDrafts).toHaveBeenCalled();
+  });
+});
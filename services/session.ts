@@ -0,0 +1,94 @@
+import { AppModule, AppView, OCRResponse } from '../types';
+import { AuthSession } from './auth';
+import { clearRegistroIndexes } from './registroSources';
+import { clearDrafts } from './drafts';
+import { debugLog } from './logger';
+
+// Session persistence so a page reload mid-shift does not log the diver out
+// or lose the planilla being validated. Everything lives in localStorage and
+// is wiped on logout, together with the drafts and remembered registro data.
+
+const STORAGE_KEY_SESSION = 'bluegrid_session';
+const STORAGE_KEY_LAST_ACTIVITY = 'bluegrid_last_activity';
+const STORAGE_KEY_PLANILLA = 'bluegrid_planilla_cache';
+const STORAGE_KEY_IDLE_TIMEOUT = 'bluegrid_idle_timeout_min';
+
+export const DEFAULT_IDLE_TIMEOUT_MIN = 30;
+// How long before the idle logout the warning countdown appears
+export const IDLE_WARNING_MS = 60 * 1000;
+
+export interface PlanillaCache {
+  ocrData: OCRResponse | null;
+  view: AppView;
+  selectedZone: string;
+  currentModule: AppModule;
+}
+
+const readJson = <T>(key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    localStorage.removeItem(key);
+    return null;
+  }
+};
+
+export const getIdleTimeoutMinutes = (): number => {
+  const saved = Number(localStorage.getItem(STORAGE_KEY_IDLE_TIMEOUT));
+  return saved > 0 ? saved : DEFAULT_IDLE_TIMEOUT_MIN;
+};
+
+export const setIdleTimeoutMinutes = (minutes: number) => {
+  localStorage.setItem(STORAGE_KEY_IDLE_TIMEOUT, String(minutes));
+};
+
+export const getLastActivity = (): number =>
+  Number(localStorage.getItem(STORAGE_KEY_LAST_ACTIVITY)) || Date.now();
+
+export const touchActivity = (at: number = Date.now()) => {
+  localStorage.setItem(STORAGE_KEY_LAST_ACTIVITY, String(at));
+};
+
+export const saveSession = (session: AuthSession) => {
+  localStorage.setItem(STORAGE_KEY_SESSION, JSON.stringify(session));
+};
+
+// Returns the stored session only if it can still be used: the user has not
+// been idle too long, and the token is valid or can be refreshed.
+export const loadSession = (): AuthSession | null => {
+  const session = readJson<AuthSession>(STORAGE_KEY_SESSION);
+  if (!session || !session.user?.session) return null;
+
+  const idleMs = Date.now() - getLastActivity();
+  if (idleMs > getIdleTimeoutMinutes() * 60 * 1000) {
+    debugLog("[Session] Sesión guardada expiró por inactividad.");
+    clearSession();
+    return null;
+  }
+
+  if (session.user.session.expiresAt <= Date.now() && !session.refreshToken) {
+    debugLog("[Session] Token guardado expirado y sin refresh token.");
+    clearSession();
+    return null;
+  }
+
+  return session;
+};
+
+export const savePlanillaCache = (cache: PlanillaCache) => {
+  localStorage.setItem(STORAGE_KEY_PLANILLA, JSON.stringify(cache));
+};
+
+export const loadPlanillaCache = (): PlanillaCache | null =>
+  readJson<PlanillaCache>(STORAGE_KEY_PLANILLA);
+
+// Removes the session and every piece of cached planilla data
+export const clearSession = () => {
+  localStorage.removeItem(STORAGE_KEY_SESSION);
+  localStorage.removeItem(STORAGE_KEY_LAST_ACTIVITY);
+  localStorage.removeItem(STORAGE_KEY_PLANILLA);
+  clearRegistroIndexes();
+  clearDrafts();
+};
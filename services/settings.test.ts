@@ -0,0 +1,51 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_COMPRESSION, DEFAULT_PROFILES, DEFAULT_UPLOAD_TIMEOUT_S, findActiveProfile, getCompressionSettings,
+  getUploadTimeoutSeconds, loadProfiles, saveProfiles, setCompressionSettings, setUploadTimeoutSeconds,
+} from './settings';
+
+beforeEach(() => localStorage.clear());
+
+describe('backend profiles', () => {
+  it('starts from the default profiles', () => {
+    expect(loadProfiles()).toEqual(DEFAULT_PROFILES);
+  });
+
+  it('migrates the single URL saved by earlier versions into the Colab profile', () => {
+    localStorage.setItem('bluegrid_api_url', 'https://old.ngrok-free.app');
+    expect(loadProfiles().find(p => p.id === 'colab')?.url).toBe('https://old.ngrok-free.app');
+  });
+
+  it('always keeps the demo profile available', () => {
+    saveProfiles([{ id: 'prod', name: 'Producción', url: 'https://api.bluegrid.cl' }]);
+    const profiles = loadProfiles();
+    expect(profiles.map(p => p.id)).toEqual(['prod', 'demo']);
+    expect(localStorage.getItem('bluegrid_api_url')).toBeNull();
+  });
+
+  it('falls back to the defaults when the stored list is corrupt', () => {
+    localStorage.setItem('bluegrid_backend_profiles', '{oops');
+    expect(loadProfiles()).toEqual(DEFAULT_PROFILES);
+  });
+
+  it('falls back to the first profile when the active one was deleted', () => {
+    expect(findActiveProfile(DEFAULT_PROFILES, 'local').id).toBe('local');
+    expect(findActiveProfile(DEFAULT_PROFILES, 'borrado').id).toBe(DEFAULT_PROFILES[0].id);
+  });
+});
+
+describe('device preferences', () => {
+  it('ignores upload timeouts below the minimum', () => {
+    expect(getUploadTimeoutSeconds()).toBe(DEFAULT_UPLOAD_TIMEOUT_S);
+    setUploadTimeoutSeconds(5);
+    expect(getUploadTimeoutSeconds()).toBe(DEFAULT_UPLOAD_TIMEOUT_S);
+    setUploadTimeoutSeconds(45);
+    expect(getUploadTimeoutSeconds()).toBe(45);
+  });
+
+  it('clamps out-of-range compression values to the defaults', () => {
+    setCompressionSettings({ enabled: false, maxSide: 300, quality: 1.5 });
+    expect(getCompressionSettings()).toEqual({ enabled: false, maxSide: DEFAULT_COMPRESSION.maxSide, quality: DEFAULT_COMPRESSION.quality });
+  });
+});
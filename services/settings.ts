@@ -0,0 +1,130 @@
+// Device-level preferences that are not tied to a session and survive logout.
+
+const STORAGE_KEY_UPLOAD_TIMEOUT = 'bluegrid_upload_timeout_s';
+
+// OCR on a Colab GPU can take close to a minute on a cold start
+export const DEFAULT_UPLOAD_TIMEOUT_S = 90;
+export const MIN_UPLOAD_TIMEOUT_S = 10;
+
+// Upload retry policy: 4 attempts, waiting ~2 s, 4 s, 8 s between them
+export const UPLOAD_MAX_ATTEMPTS = 4;
+export const UPLOAD_RETRY_BASE_MS = 2000;
+
+export const getUploadTimeoutSeconds = (): number => {
+  const saved = Number(localStorage.getItem(STORAGE_KEY_UPLOAD_TIMEOUT));
+  return saved >= MIN_UPLOAD_TIMEOUT_S ? saved : DEFAULT_UPLOAD_TIMEOUT_S;
+};
+
+export const setUploadTimeoutSeconds = (seconds: number) => {
+  localStorage.setItem(STORAGE_KEY_UPLOAD_TIMEOUT, String(seconds));
+};
+
+// --- Image preprocessing ---
+
+const STORAGE_KEY_AUTO_PREPROCESS = 'bluegrid_auto_preprocess';
+
+// Open the corner / deskew step as soon as a single photo is selected (on by default)
+export const getAutoPreprocess = (): boolean =>
+  localStorage.getItem(STORAGE_KEY_AUTO_PREPROCESS) !== 'false';
+
+export const setAutoPreprocess = (enabled: boolean) => {
+  localStorage.setItem(STORAGE_KEY_AUTO_PREPROCESS, String(enabled));
+};
+
+// Downscale + JPEG re-encode before upload. 2400 px on the long side keeps
+// handwritten digits well above what the OCR model needs.
+export interface CompressionSettings {
+  enabled: boolean;
+  maxSide: number;   // px, long side
+  quality: number;   // JPEG quality, 0-1
+}
+
+const STORAGE_KEY_COMPRESSION = 'bluegrid_image_compression';
+
+export const DEFAULT_COMPRESSION: CompressionSettings = { enabled: true, maxSide: 2400, quality: 0.85 };
+export const MIN_COMPRESSION_SIDE = 1200;
+export const MIN_COMPRESSION_QUALITY = 0.5;
+
+export const getCompressionSettings = (): CompressionSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY_COMPRESSION) ?? 'null');
+    if (!saved) return DEFAULT_COMPRESSION;
+    return {
+      enabled: saved.enabled !== false,
+      maxSide: saved.maxSide >= MIN_COMPRESSION_SIDE ? saved.maxSide : DEFAULT_COMPRESSION.maxSide,
+      quality: saved.quality >= MIN_COMPRESSION_QUALITY && saved.quality <= 1 ? saved.quality : DEFAULT_COMPRESSION.quality,
+    };
+  } catch {
+    return DEFAULT_COMPRESSION;
+  }
+};
+
+export const setCompressionSettings = (settings: CompressionSettings) => {
+  localStorage.setItem(STORAGE_KEY_COMPRESSION, JSON.stringify(settings));
+};
+
+// --- Backend profiles ---
+// Named backends (Colab, local, staging...) the app can switch between. Each
+// carries its own base URL and optional extra headers (e.g. a gateway key).
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+  demo?: boolean; // Served by the in-browser mock backend (see mockBackend.ts)
+}
+
+const STORAGE_KEY_PROFILES = 'bluegrid_backend_profiles';
+const STORAGE_KEY_ACTIVE_PROFILE = 'bluegrid_active_profile';
+// Single URL saved by earlier versions, migrated into the Colab profile
+const LEGACY_STORAGE_KEY_URL = 'bluegrid_api_url';
+
+// Default URL provided for auto-connection
+const DEFAULT_API_URL = "https://precrystalline-arabella-tuberoid.ngrok-free.dev";
+
+// Always available so the app can be shown without any backend running
+export const DEMO_PROFILE: BackendProfile = { id: 'demo', name: 'Demo (sin servidor)', url: 'demo://local', demo: true };
+
+export const DEFAULT_PROFILES: BackendProfile[] = [
+  { id: 'colab', name: 'Colab (ngrok)', url: DEFAULT_API_URL },
+  { id: 'local', name: 'Local', url: 'http://localhost:8000' },
+  DEMO_PROFILE,
+];
+
+const withDemoProfile = (profiles: BackendProfile[]) =>
+  profiles.some(p => p.demo) ? profiles : [...profiles, DEMO_PROFILE];
+
+export const loadProfiles = (): BackendProfile[] => {
+  const raw = localStorage.getItem(STORAGE_KEY_PROFILES);
+  if (raw) {
+    try {
+      const saved = JSON.parse(raw) as BackendProfile[];
+      if (Array.isArray(saved) && saved.length > 0) return withDemoProfile(saved);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY_PROFILES);
+    }
+  }
+
+  const legacyUrl = localStorage.getItem(LEGACY_STORAGE_KEY_URL);
+  if (legacyUrl && legacyUrl !== DEFAULT_API_URL) {
+    return DEFAULT_PROFILES.map(p => p.id === 'colab' ? { ...p, url: legacyUrl } : p);
+  }
+  return DEFAULT_PROFILES;
+};
+
+export const saveProfiles = (profiles: BackendProfile[]) => {
+  localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(profiles));
+  localStorage.removeItem(LEGACY_STORAGE_KEY_URL);
+};
+
+export const getActiveProfileId = (): string =>
+  localStorage.getItem(STORAGE_KEY_ACTIVE_PROFILE) || DEFAULT_PROFILES[0].id;
+
+export const setActiveProfileId = (id: string) => {
+  localStorage.setItem(STORAGE_KEY_ACTIVE_PROFILE, id);
+};
+
+// Falls back to the first profile if the remembered one was deleted
+export const findActiveProfile = (profiles: BackendProfile[], activeId: string): BackendProfile =>
+  profiles.find(p => p.id === activeId) ?? profiles[0];
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MatrixCell } from '../types';
+import {
+  DEFAULT_TEMPLATE_ID, cellsOutsideTemplate, findTemplate, isValidCellValue, resolveTemplate, templateRowCount,
+  templateSections, templateUploadFields,
+} from './templates';
+
+const nidos = findTemplate('pulpo_nidos')!;
+const transecta = findTemplate('pulpo_transecta')!;
+const cell = (fila: string, col: number): MatrixCell => ({ fila, col, valor: '1', confianza: 1 });
+
+describe('resolveTemplate', () => {
+  it('takes the first known id and defaults to the pulpo sheet', () => {
+    expect(resolveTemplate('solo_backend', 'pulpo_transecta', 'pulpo_nidos').id).toBe('pulpo_transecta');
+    expect(resolveTemplate(undefined, null, 'desconocida').id).toBe(DEFAULT_TEMPLATE_ID);
+  });
+
+  it('only sends a template field when one was picked', () => {
+    expect(templateUploadFields('pulpo_transecta')).toEqual({ plantilla_id: 'pulpo_transecta' });
+    expect(templateUploadFields()).toEqual({});
+  });
+});
+
+describe('isValidCellValue', () => {
+  it('checks values against the column type and always allows blanks', () => {
+    expect(isValidCellValue('integer', '12')).toBe(true);
+    expect(isValidCellValue('integer', '1.5')).toBe(false);
+    expect(isValidCellValue('decimal', '1,5')).toBe(true);
+    expect(isValidCellValue('decimal', '1,')).toBe(false);
+    expect(isValidCellValue('mark', ' X ')).toBe(true);
+    expect(isValidCellValue('mark', '1')).toBe(false);
+    expect(isValidCellValue('text', 'sin novedad')).toBe(true);
+    expect(isValidCellValue('integer', '  ')).toBe(true);
+  });
+});
+
+describe('templateSections', () => {
+  it('groups adjacent columns under their shared header', () => {
+    const sections = templateSections(nidos);
+    expect(sections.map(s => s.kind)).toEqual(['column', 'column', 'group', 'column']);
+    const group = sections[2];
+    expect(group.kind === 'group' && group.columns.map(c => c.index)).toEqual([2, 3]);
+  });
+});
+
+describe('templateRowCount', () => {
+  it('keeps fixed templates at their size', () => {
+    expect(templateRowCount(nidos, [cell('Fila 9', 0)])).toBe(5);
+  });
+
+  it('grows open templates with the data or the rows the user added', () => {
+    expect(templateRowCount(transecta, [])).toBe(1);
+    expect(templateRowCount(transecta, [cell('Fila 7', 0)])).toBe(7);
+    expect(templateRowCount(transecta, [cell('Fila 7', 0)], 10)).toBe(10);
+  });
+});
+
+describe('cellsOutsideTemplate', () => {
+  it('finds cells beyond the template columns or fixed rows', () => {
+    const cells = [cell('Fila 1', 0), cell('Fila 1', 5), cell('Fila 6', 0)];
+    expect(cellsOutsideTemplate(nidos, cells)).toEqual([cells[1], cells[2]]);
+    expect(cellsOutsideTemplate(transecta, cells)).toEqual([cells[1]]);
+  });
+});
@@ -0,0 +1,112 @@
+import { CellValueType, MatrixCell, PlanillaTemplate, TemplateColumn, TemplateColumnGroup } from '../types';
+import { parseRowIndex } from './contract';
+
+// Planilla templates: the layout of the matrix on each kind of paper sheet.
+// A registro is read with the template the backend reports, else the one
+// chosen at upload, else its zone's, else the default pulpo sheet.
+
+export const DEFAULT_TEMPLATE_ID = 'pulpo_nidos';
+
+export const PLANILLA_TEMPLATES: PlanillaTemplate[] = [
+  {
+    id: 'pulpo_nidos',
+    name: 'Pulpo: nidos y cuevas',
+    rows: 5,
+    groups: [{ key: 'captura_hembras', label: 'Captura hembras', hint: '(Marque)' }],
+    columns: [
+      { key: 'nidos', label: 'N° nidos', hint: '(Hembras c/ huevos)', type: 'integer' },
+      { key: 'cuevas', label: 'N° cuevas cubiertas', type: 'integer' },
+      { key: 'hembras_nido', label: 'Nido', group: 'captura_hembras', type: 'mark' },
+      { key: 'hembras_cueva', label: 'Cueva', group: 'captura_hembras', type: 'mark' },
+      { key: 'total', label: 'Captura N° total pulpos', type: 'integer' },
+    ],
+  },
+  {
+    id: 'pulpo_transecta',
+    name: 'Pulpo: transecta',
+    rows: null,
+    groups: [{ key: 'captura', label: 'Captura' }],
+    columns: [
+      { key: 'profundidad', label: 'Profundidad (m)', type: 'decimal' },
+      { key: 'pulpos', label: 'N° pulpos', group: 'captura', type: 'integer' },
+      { key: 'peso', label: 'Peso (kg)', group: 'captura', type: 'decimal' },
+      { key: 'observacion', label: 'Observación', type: 'text' },
+    ],
+  },
+];
+
+const DEFAULT_TEMPLATE = PLANILLA_TEMPLATES.find(t => t.id === DEFAULT_TEMPLATE_ID)!;
+
+export const findTemplate = (id: string | null | undefined) =>
+  PLANILLA_TEMPLATES.find(t => t.id === id);
+
+// First known id wins; unknown ids (a template only the backend has) fall
+// through, and cells that do not fit are flagged by the editor
+export const resolveTemplate = (...ids: (string | null | undefined)[]): PlanillaTemplate =>
+  ids.map(findTemplate).find(t => t !== undefined) ?? DEFAULT_TEMPLATE;
+
+// Extra multipart field when the user picked a template for this upload
+export const templateUploadFields = (templateId?: string): Record<string, string> =>
+  templateId ? { plantilla_id: templateId } : {};
+
+// --- Values ---
+
+const VALUE_PATTERNS: Record<CellValueType, RegExp> = {
+  integer: /^\d+$/,
+  decimal: /^\d+([.,]\d+)?$/,
+  mark: /^x$/i,
+  text: /[^]*/,
+};
+
+export const VALUE_TYPE_HINTS: Record<CellValueType, string> = {
+  integer: 'Número entero',
+  decimal: 'Número (decimales con coma o punto)',
+  mark: 'X o vacío',
+  text: 'Texto libre',
+};
+
+export const isValidCellValue = (type: CellValueType, value: string) =>
+  value.trim() === '' || VALUE_PATTERNS[type].test(value.trim());
+
+export const inputModeFor = (type: CellValueType): 'numeric' | 'decimal' | 'text' =>
+  type === 'integer' ? 'numeric' : type === 'decimal' ? 'decimal' : 'text';
+
+// --- Layout ---
+
+export interface IndexedColumn {
+  column: TemplateColumn;
+  index: number; // `col` of its cells
+}
+
+// Top-level header entries in column order: lone columns, and groups of
+// adjacent columns sharing a `group`
+export type TemplateSection =
+  | { kind: 'column'; column: IndexedColumn }
+  | { kind: 'group'; group: TemplateColumnGroup; columns: IndexedColumn[] };
+
+export const templateSections = (template: PlanillaTemplate): TemplateSection[] => {
+  const sections: TemplateSection[] = [];
+  template.columns.forEach((column, index) => {
+    const group = column.group ? template.groups?.find(g => g.key === column.group) : undefined;
+    const last = sections[sections.length - 1];
+    if (!group) sections.push({ kind: 'column', column: { column, index } });
+    else if (last?.kind === 'group' && last.group.key === group.key) last.columns.push({ column, index });
+    else sections.push({ kind: 'group', group, columns: [{ column, index }] });
+  });
+  return sections;
+};
+
+// Fixed templates always show their rows; open ones show every row with data,
+// or `minRows` when the user added empty rows below it
+export const templateRowCount = (template: PlanillaTemplate, cells: MatrixCell[], minRows = 1) => {
+  if (template.rows !== null) return template.rows;
+  const lastRow = Math.max(-1, ...cells.map(c => parseRowIndex(c.fila)));
+  return Math.max(minRows, lastRow + 1);
+};
+
+// Cells the template has no place for; they are kept and submitted, but not editable
+export const cellsOutsideTemplate = (template: PlanillaTemplate, cells: MatrixCell[]) =>
+  cells.filter(c => {
+    const row = parseRowIndex(c.fila);
+    return c.col >= template.columns.length || (template.rows !== null && row >= template.rows);
+  });
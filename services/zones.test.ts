@@ -0,0 +1,88 @@
+// @vitest-environment happy-dom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Zone } from '../types';
+import { ApiClient, ApiError } from './apiClient';
+import { useZoneCatalog } from './zones';
+
+const zone = (id: string, name: string, active = true): Zone => ({ id, name, coords: [-41.8, -73.8], active });
+
+const fakeApi = (...answers: (Zone[] | Error)[]) => {
+  const listZones = vi.fn(async () => {
+    const next = answers.shift();
+    if (!next) throw new Error('sin más respuestas');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return { api: { listZones } as unknown as ApiClient, listZones };
+};
+
+const cached = (profileId: string) => JSON.parse(localStorage.getItem(`bluegrid_zones_${profileId}`) ?? 'null');
+
+beforeEach(() => localStorage.clear());
+
+describe('useZoneCatalog', () => {
+  it('fetches the catalog sorted by name and caches it for the profile', async () => {
+    const { api } = fakeApi([zone('2', 'Quellón'), zone('1', 'Ancud', false)]);
+    const { result } = renderHook(() => useZoneCatalog(api, 'colab', true));
+
+    await waitFor(() => expect(result.current.hasFetched).toBe(true));
+    expect(result.current.zones.map(z => z.name)).toEqual(['Ancud', 'Quellón']);
+    expect(result.current.activeZones.map(z => z.id)).toEqual(['2']);
+    expect(cached('colab')).toEqual(result.current.zones);
+  });
+
+  it('waits for the session before fetching', () => {
+    const { api, listZones } = fakeApi();
+    const { result } = renderHook(() => useZoneCatalog(api, 'colab', false));
+    expect(listZones).not.toHaveBeenCalled();
+    expect(result.current.hasFetched).toBe(false);
+  });
+
+  it('keeps the cached catalog when the backend cannot be reached', async () => {
+    localStorage.setItem('bluegrid_zones_colab', JSON.stringify([zone('1', 'Ancud')]));
+    const { api } = fakeApi(new ApiError(0, 'Failed to fetch'));
+    const { result } = renderHook(() => useZoneCatalog(api, 'colab', true));
+
+    expect(result.current.zones.map(z => z.name)).toEqual(['Ancud']);
+    await waitFor(() => expect(result.current.hasFetched).toBe(true));
+    expect(result.current.zones.map(z => z.name)).toEqual(['Ancud']);
+    expect(result.current.error).toBe('Sin conexión con el servidor.');
+  });
+
+  it('keeps each backend profile to its own catalog', async () => {
+    localStorage.setItem('bluegrid_zones_colab', JSON.stringify([zone('1', 'Ancud')]));
+    const { api } = fakeApi([zone('1', 'Ancud')], [zone('9', 'Centro Demo')]);
+    const { result, rerender } = renderHook(({ profileId }) => useZoneCatalog(api, profileId, true), {
+      initialProps: { profileId: 'colab' },
+    });
+    await waitFor(() => expect(result.current.hasFetched).toBe(true));
+
+    rerender({ profileId: 'demo' });
+    expect(result.current.zones).toEqual([]);
+    expect(result.current.hasFetched).toBe(false);
+
+    await waitFor(() => expect(result.current.hasFetched).toBe(true));
+    expect(result.current.zones.map(z => z.name)).toEqual(['Centro Demo']);
+    expect(cached('demo')).toEqual([zone('9', 'Centro Demo')]);
+    expect(cached('colab')).toEqual([zone('1', 'Ancud')]);
+  });
+
+  it('discards a corrupt cache', () => {
+    localStorage.setItem('bluegrid_zones_colab', '{oops');
+    const { result } = renderHook(() => useZoneCatalog(fakeApi().api, 'colab', false));
+    expect(result.current.zones).toEqual([]);
+    expect(localStorage.getItem('bluegrid_zones_colab')).toBeNull();
+  });
+
+  it('applies admin edits to the catalog and its cache', async () => {
+    const { api } = fakeApi([zone('1', 'Ancud'), zone('2', 'Quellón')]);
+    const { result } = renderHook(() => useZoneCatalog(api, 'colab', true));
+    await waitFor(() => expect(result.current.hasFetched).toBe(true));
+
+    act(() => result.current.upsert(zone('2', 'Achao', false)));
+    expect(result.current.zones.map(z => z.name)).toEqual(['Achao', 'Ancud']);
+    expect(result.current.activeZones.map(z => z.name)).toEqual(['Ancud']);
+    expect(cached('colab')).toEqual(result.current.zones);
+  });
+});
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Zone } from '../types';
+import { ApiClient, UnauthorizedError, describeApiError } from './apiClient';
+import { debugError } from './logger';
+
+// Zone catalog shared by the upload form, the dashboard map, user scoping and
+// the admin screen. Fetched from the backend once reachable and cached per
+// backend profile, so the upload form still lists zones at sea.
+
+const cacheKey = (profileId: string) => `bluegrid_zones_${profileId}`;
+
+const readCache = (profileId: string): Zone[] => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(cacheKey(profileId)) ?? '[]');
+    return Array.isArray(cached) ? cached : [];
+  } catch {
+    localStorage.removeItem(cacheKey(profileId));
+    return [];
+  }
+};
+
+const byName = (a: Zone, b: Zone) => a.name.localeCompare(b.name, 'es');
+
+export const useZoneCatalog = (api: ApiClient, profileId: string, canFetch: boolean) => {
+  const [zones, setZones] = useState<Zone[]>(() => readCache(profileId));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Whether this backend answered (or failed) at least once since it was selected
+  const [hasFetched, setHasFetched] = useState(false);
+
+  // Switching backend shows that backend's cached catalog until it answers
+  useEffect(() => {
+    setZones(readCache(profileId));
+    setError(null);
+    setHasFetched(false);
+  }, [profileId]);
+
+  const store = useCallback((next: Zone[]) => {
+    const sorted = [...next].sort(byName);
+    setZones(sorted);
+    localStorage.setItem(cacheKey(profileId), JSON.stringify(sorted));
+  }, [profileId]);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      store(await api.listZones());
+    } catch (err) {
+      if (err instanceof UnauthorizedError) return;
+      debugError("[Zonas] Error cargando el catálogo:", err);
+      setError(describeApiError(err, 'Sin conexión con el servidor.'));
+    } finally {
+      setIsLoading(false);
+      setHasFetched(true);
+    }
+  }, [api, store]);
+
+  useEffect(() => {
+    if (canFetch) reload();
+  }, [canFetch, reload]);
+
+  // Admin edits update the shared catalog without refetching it
+  const upsert = useCallback((zone: Zone) => {
+    setZones(prev => {
+      const next = [...prev.filter(z => z.id !== zone.id), zone].sort(byName);
+      localStorage.setItem(cacheKey(profileId), JSON.stringify(next));
+      return next;
+    });
+  }, [profileId]);
+
+  return {
+    // Every zone, archived included (names for old registros, drafts, outbox)
+    zones,
+    // Zones that accept new uploads
+    activeZones: zones.filter(z => z.active),
+    isLoading,
+    hasFetched,
+    error,
+    reload,
+    upsert,
+  };
+};
+
+export type ZoneCatalog = ReturnType<typeof useZoneCatalog>;
@@ -4,10 +4,29 @@
 
 export type UserRole = 'admin' | 'supervisor' | 'buzo';
 
+export interface SessionInfo {
+  issuedAt: number;  // epoch ms, when the backend issued the current token
+  expiresAt: number; // epoch ms, when the current token stops being valid
+}
+
 export interface User {
   username: string;
   name: string;
   role: UserRole;
+  zonas?: string[];      // Zone ids the user is scoped to; undefined means all zones
+  session?: SessionInfo; // Only present for the logged-in user
+  // Account fields returned by the users API (admin module)
+  email?: string;
+  active?: boolean;
+  lastLogin?: string | null; // ISO timestamp
+}
+
+export interface UserFormData {
+  username: string;
+  name: string;
+  email?: string;
+  role: UserRole;
+  zonas?: string[];
 }
 
 export interface MatrixCell {
@@ -21,38 +40,149 @@ export interface MatrixCell {
   valor_original?: string; // To store the initial prediction if needed explicitly
 }
 
+// --- Planilla templates (matrix layout) ---
+
+// What a cell may hold; empty is always allowed
+export type CellValueType = 'integer' | 'decimal' | 'mark' | 'text';
+
+// Column `i` of a template is `col: i` in the OCR matrix
+export interface TemplateColumn {
+  key: string;
+  label: string;
+  hint?: string;   // Second header line, e.g. "(Hembras c/ huevos)"
+  group?: string;  // Key of the TemplateColumnGroup drawn above it
+  type: CellValueType;
+}
+
+// Header spanning adjacent columns, e.g. "Captura hembras" over Nido / Cueva
+export interface TemplateColumnGroup {
+  key: string;
+  label: string;
+  hint?: string;
+}
+
+export interface PlanillaTemplate {
+  id: string;
+  name: string;
+  rows: number | null; // null: as many rows as the sheet has
+  columns: TemplateColumn[];
+  groups?: TemplateColumnGroup[];
+}
+
+export type SeaCondition = 'calma' | 'marejadilla' | 'marejada' | 'temporal';
+
+// Header of the paper planilla (above the matrix), as validated by the user
+export interface PlanillaHeader {
+  fecha_buceo: string;        // YYYY-MM-DD
+  buzo: string;
+  embarcacion: string;
+  profundidad_m: number | null;
+  condiciones_mar: SeaCondition | '';
+  observaciones: string;
+}
+
+// One header field as read by the OCR
+export interface HeaderReading {
+  valor: string;
+  confianza: number;
+}
+
+// Only the fields the OCR could find are present
+export type OCRHeader = Partial<Record<keyof PlanillaHeader, HeaderReading>>;
+
 export interface IA_Result {
   status: string; // 'procesado_ia_tablilla' | 'simulacion' | 'error'
   promedio_confianza: number;
   matriz: MatrixCell[];
+  encabezado?: OCRHeader; // Backends without header extraction omit it
 }
 
 export interface OCRResponse {
   id: number;
   estado: string; // e.g., 'pendiente_validacion'
   zona_id: number;
+  plantilla_id?: string; // Template the backend read the sheet with, if it says
   resultado_ia: IA_Result;
 }
 
+// A registro whose OCR is still running on the server (async backends answer
+// the upload before `resultado_ia` exists and the client polls its `estado`)
+export interface PendingRegistro {
+  id: number;
+  estado: string; // e.g., 'en_cola', 'procesando'
+}
+
+// Where a registro's image came from when it was not a single photo
+export interface RegistroSource {
+  kind: 'pdf';
+  fileName: string;
+  page: number;      // 1-based
+  pageCount: number;
+}
+
 export interface ValidationRequest {
   cambios: MatrixCell[];
+  encabezado?: PlanillaHeader;
   comentarios?: string;
 }
 
+// Human-in-the-Loop payload for POST /api/v1/training/feedback
+export interface FeedbackCorrection {
+  ref_id: string;       // Unique ID from backend used to locate the cropped cell
+  valor_corregido: string;
+  fila: number;         // 0-based, informative
+  col: number;          // informative
+  valor_original: string;
+}
+
+export interface TrainingFeedbackRequest {
+  zona_id: number;
+  usuario_id: number;
+  correcciones: FeedbackCorrection[];
+}
+
+export interface SignUpFormData {
+  username: string;
+  name: string;
+  email: string;
+  password: string;
+  motivo?: string; // Why the person needs access (e.g. "buzo Calbuco")
+}
+
+// Sign-up request waiting for an admin to approve it
+export interface PendingSignUp {
+  id: number;
+  username: string;
+  name: string;
+  email: string;
+  motivo?: string;
+  solicitado: string; // ISO timestamp
+}
+
 export type AppView = 'setup' | 'upload' | 'editor' | 'success';
 
+// Top-level sidebar modules
+export type AppModule = 'dashboard' | 'ocr' | 'users' | 'zones';
+
 export interface ZoneOption {
   id: string;
   name: string;
 }
 
-// Mock zones translated to Spanish
-export const MOCK_ZONES: ZoneOption[] = [
-  { id: '1', name: 'Zona Norte - Jaula 101' },
-  { id: '2', name: 'Zona Sur - Jaula 205' },
-  { id: '3', name: 'Laboratorio Central' },
-  { id: '4', name: 'Área de Cuarentena' },
-];
+// Zone catalog entry served by the backend (GET /api/v1/zonas)
+export interface Zone extends ZoneOption {
+  coords: [number, number]; // [lat, lng] of the farming site
+  active: boolean;          // Archived zones keep their history but take no new uploads
+  templateId?: string;      // Planilla template for uploads to this zone; default template if unset
+}
+
+// Payload for creating / editing a zone
+export interface ZoneFormData {
+  name: string;
+  lat: number;
+  lng: number;
+  plantilla_id: string;
+}
 
 // --- DASHBOARD TYPES & MOCKS ---
 
@@ -76,6 +206,7 @@ export interface DashboardZoneData {
   pieData: ChartDataPoint[];
 }
 
+// Keyed by zone id (the demo backend's catalog) or 'all' for the regional aggregate
 export const MOCK_DASHBOARD_DATA: Record<string, DashboardZoneData> = {
   'all': {
     kpis: [
@@ -93,7 +224,7 @@ export const MOCK_DASHBOARD_DATA: Record<string, DashboardZoneData> = {
       { name: 'Hembras c/H', value: 200 }, { name: 'Vacíos', value: 140 }
     ]
   },
-  'norte': {
+  '1': {
     kpis: [
       { id: '1', label: 'Captura Zona Norte', value: '450', trend: 'up', trendValue: '+8%', iconName: 'Octopus' },
       { id: '2', label: '% Ocupación', value: '92%', trend: 'up', trendValue: '+10%', iconName: 'Home' },
@@ -109,7 +240,7 @@ export const MOCK_DASHBOARD_DATA: Record<string, DashboardZoneData> = {
       { name: 'Hembras c/H', value: 50 }, { name: 'Vacíos', value: 50 }
     ]
   },
-  'calbuco': {
+  '2': {
     kpis: [
       { id: '1', label: 'Captura Calbuco', value: '380', trend: 'down', trendValue: '-4%', iconName: 'Octopus' },
       { id: '2', label: '% Ocupación', value: '70%', trend: 'down', trendValue: '-12%', iconName: 'Home' },
@@ -125,7 +256,7 @@ export const MOCK_DASHBOARD_DATA: Record<string, DashboardZoneData> = {
       { name: 'Hembras c/H', value: 150 }, { name: 'Vacíos', value: 50 }
     ]
   },
-  'chiloe': {
+  '3': {
     kpis: [
       { id: '1', label: 'Captura Chiloé', value: '410', trend: 'up', trendValue: '+20%', iconName: 'Octopus' },
       { id: '2', label: '% Ocupación', value: '88%', trend: 'up', trendValue: '+2%', iconName: 'Home' },
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // Read by public/sw.js to cache every file of the build and drop old ones
+    manifest: 'asset-manifest.json',
+  },
 })
\ No newline at end of file